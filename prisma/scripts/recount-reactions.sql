@@ -0,0 +1,18 @@
+-- Recounts the reactions stored on every post, such as posts reacted to before the count existed.
+-- Run it once, after the schema is pushed:
+--   npx prisma db execute --file prisma/scripts/recount-reactions.sql --schema prisma/schema.prisma
+-- The share lock holds off reactions being added or removed until the counts are written,
+-- so a count taken here never overwrites a live increment or decrement.
+BEGIN;
+
+LOCK TABLE "Reaction" IN SHARE MODE;
+
+UPDATE "Post" p SET "reactionCount" = c.count
+FROM (
+  SELECT p.id, COUNT(r."postId")::int AS count
+  FROM "Post" p LEFT JOIN "Reaction" r ON r."postId" = p.id
+  GROUP BY p.id
+) c
+WHERE c.id = p.id AND c.count <> p."reactionCount";
+
+COMMIT;
@@ -2,13 +2,18 @@ import { CacheModule } from '@nestjs/cache-manager';
 import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { APP_GUARD } from '@nestjs/core';
+import { ScheduleModule } from '@nestjs/schedule';
 import { ServeStaticModule } from '@nestjs/serve-static';
 import { ThrottlerGuard, ThrottlerModule } from '@nestjs/throttler';
 import { NestjsFormDataModule } from 'nestjs-form-data';
 import { join } from 'path';
 import { AuthenticationModule } from './authentication/authentication.module';
+import { CommentsModule } from './comments/comments.module';
 import { DatabasesModule } from './databases/databases.module';
+import { FeedsModule } from './feeds/feeds.module';
+import { MediaModule } from './media/media.module';
 import { PostsModule } from './posts/posts.module';
+import { TagsModule } from './tags/tags.module';
 import { UsersModule } from './users/users.module';
 
 @Module({
@@ -45,10 +50,16 @@ import { UsersModule } from './users/users.module';
       ],
     }),
     CacheModule.register(),
+    // ScheduleModule for running background jobs such as scheduled publishing
+    ScheduleModule.forRoot(),
     DatabasesModule,
     AuthenticationModule,
     UsersModule,
     PostsModule,
+    CommentsModule,
+    TagsModule,
+    FeedsModule,
+    MediaModule,
   ],
   controllers: [],
   providers: [{ provide: APP_GUARD, useClass: ThrottlerGuard }],
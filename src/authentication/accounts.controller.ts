@@ -0,0 +1,109 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseEnumPipe,
+  Post,
+  Request,
+  Res,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiConflictResponse,
+  ApiInternalServerErrorResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Response } from 'express';
+import {
+  AccountsService,
+  LINK_NONCE_COOKIE,
+  LINK_NONCE_COOKIE_PATH,
+} from './accounts.service';
+import { OAuthProvider } from './enums/oauth-provider.enum';
+
+@Controller('auth/accounts')
+@ApiTags('Authentication')
+@ApiBearerAuth()
+export class AccountsController {
+  constructor(
+    private readonly accountsService: AccountsService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Lists the login methods of the authenticated user.
+   * @param req - The request object containing the authenticated user's information.
+   * @returns The linked provider accounts and whether the user has a password.
+   */
+  @Get()
+  @ApiOkResponse({ description: 'Get accounts successfully.' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error.' })
+  async getAccounts(@Request() req) {
+    return this.accountsService.getAccounts(req.user.sub);
+  }
+
+  /**
+   * Starts linking a provider account to the authenticated user.
+   * Open the returned URL in the browser to sign in with the provider; its callback links the account.
+   * The response sets an HttpOnly cookie the callback checks, so the URL only links from the browser
+   * that made this request: call it from that browser, with credentials.
+   * @param provider - The OAuth provider.
+   * @param req - The request object containing the authenticated user's information.
+   * @param res - The response object, used to set the cookie.
+   * @returns The URL starting the provider's OAuth flow.
+   */
+  @Post(':provider/link')
+  @HttpCode(HttpStatus.OK)
+  @ApiOkResponse({ description: 'Start linking account successfully.' })
+  @ApiConflictResponse({ description: 'Account already linked.' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error.' })
+  async link(
+    @Param('provider', new ParseEnumPipe(OAuthProvider))
+    provider: OAuthProvider,
+    @Request() req,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const { nonce, ...result } = await this.accountsService.startLink({
+      userId: req.user.sub,
+      provider,
+    });
+
+    // Bind the flow to this browser for as long as the link token lasts
+    res.cookie(LINK_NONCE_COOKIE, nonce, {
+      httpOnly: true,
+      secure: !!this.configService.get<string>('APP_URL')?.startsWith('https:'),
+      sameSite: 'lax',
+      path: LINK_NONCE_COOKIE_PATH,
+      maxAge: 10 * 60 * 1000, // 10 minutes
+    });
+    return result;
+  }
+
+  /**
+   * Unlinks a provider account from the authenticated user.
+   * @param provider - The OAuth provider.
+   * @param req - The request object containing the authenticated user's information.
+   * @returns A message indicating the success of the unlinking.
+   */
+  @Delete(':provider')
+  @ApiOkResponse({ description: 'Unlink account successfully.' })
+  @ApiBadRequestResponse({
+    description: 'Cannot unlink the last login method.',
+  })
+  @ApiNotFoundResponse({ description: 'Account not found.' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error.' })
+  async unlink(
+    @Param('provider', new ParseEnumPipe(OAuthProvider))
+    provider: OAuthProvider,
+    @Request() req,
+  ) {
+    return this.accountsService.unlink({ userId: req.user.sub, provider });
+  }
+}
@@ -0,0 +1,159 @@
+import {
+  BadRequestException,
+  ConflictException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { Test, TestingModule } from '@nestjs/testing';
+import { createHash } from 'crypto';
+import { DatabasesService } from 'src/databases/databases.service';
+import { AccountsService } from './accounts.service';
+import { OAuthProvider } from './enums/oauth-provider.enum';
+
+describe('AccountsService', () => {
+  let service: AccountsService;
+  const prisma = {
+    account: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      delete: jest.fn(),
+    },
+    user: { findUnique: jest.fn() },
+  };
+  const jwtService = { signAsync: jest.fn(), verifyAsync: jest.fn() };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountsService,
+        { provide: DatabasesService, useValue: prisma },
+        { provide: JwtService, useValue: jwtService },
+      ],
+    }).compile();
+
+    service = module.get<AccountsService>(AccountsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('startLink', () => {
+    it('should bind the link token to a nonce for the browser', async () => {
+      prisma.account.findFirst.mockResolvedValue(null);
+      jwtService.signAsync.mockResolvedValue('link-token');
+
+      const { data, nonce } = await service.startLink({
+        userId: 'user-1',
+        provider: OAuthProvider.GITHUB,
+      });
+
+      expect(data.url).toBe('/api/auth/github?link=link-token');
+      expect(jwtService.signAsync).toHaveBeenCalledWith(
+        {
+          sub: 'user-1',
+          purpose: 'link-account',
+          nonce: createHash('sha256').update(nonce).digest('hex'),
+        },
+        { expiresIn: '10m' },
+      );
+    });
+  });
+
+  describe('link', () => {
+    const params = {
+      linkToken: 'link-token',
+      nonce: 'nonce',
+      providerType: 'github',
+      providerId: 'github-1',
+    };
+
+    beforeEach(() => {
+      jwtService.verifyAsync.mockResolvedValue({
+        sub: 'user-1',
+        purpose: 'link-account',
+        nonce: createHash('sha256').update('nonce').digest('hex'),
+      });
+    });
+
+    it('should link the provider account to the user who started the flow', async () => {
+      const user = { id: 'user-1' };
+      prisma.account.findMany.mockResolvedValue([]);
+      prisma.user.findUnique.mockResolvedValue(user);
+
+      await expect(service.link(params)).resolves.toBe(user);
+      expect(prisma.account.create).toHaveBeenCalledWith({
+        data: {
+          providerType: 'github',
+          providerId: 'github-1',
+          user: { connect: { id: 'user-1' } },
+        },
+      });
+    });
+
+    it('should refuse a provider account linked to another user', async () => {
+      prisma.account.findMany.mockResolvedValue([
+        { userId: 'user-2', providerType: 'github', providerId: 'github-1' },
+      ]);
+
+      await expect(service.link(params)).rejects.toBeInstanceOf(
+        ConflictException,
+      );
+      expect(prisma.account.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to link from another browser than the one that started the flow', async () => {
+      await expect(
+        service.link({ ...params, nonce: 'other-nonce' }),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      await expect(
+        service.link({ ...params, nonce: undefined }),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      expect(prisma.account.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should refuse tokens not meant for linking', async () => {
+      jwtService.verifyAsync.mockResolvedValue({ sub: 'user-1', sid: 's-1' });
+
+      await expect(service.link(params)).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+      expect(prisma.account.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unlink', () => {
+    const account = { id: 'account-1', providerType: 'google' };
+
+    it('should unlink the provider account', async () => {
+      prisma.user.findUnique.mockResolvedValue({
+        password: 'hash',
+        accounts: [account],
+      });
+
+      await service.unlink({
+        userId: 'user-1',
+        provider: OAuthProvider.GOOGLE,
+      });
+
+      expect(prisma.account.delete).toHaveBeenCalledWith({
+        where: { id: 'account-1' },
+      });
+    });
+
+    it('should refuse to unlink the last login method', async () => {
+      prisma.user.findUnique.mockResolvedValue({
+        password: null,
+        accounts: [account],
+      });
+
+      await expect(
+        service.unlink({ userId: 'user-1', provider: OAuthProvider.GOOGLE }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(prisma.account.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import {
+  BadRequestException,
+  ConflictException,
+  HttpStatus,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { createHash, randomBytes } from 'crypto';
+import { DatabasesService } from 'src/databases/databases.service';
+import { OAuthProvider } from './enums/oauth-provider.enum';
+
+// Purpose claim of the tokens starting an account linking flow
+const LINK_TOKEN_PURPOSE = 'link-account';
+
+// Cookie binding a linking flow to the browser that started it
+export const LINK_NONCE_COOKIE = 'link_nonce';
+export const LINK_NONCE_COOKIE_PATH = '/api/auth';
+
+/**
+ * OAuth provider accounts linked to users: listing, linking and unlinking them.
+ */
+@Injectable()
+export class AccountsService {
+  constructor(
+    private prisma: DatabasesService,
+    private jwtService: JwtService,
+  ) {}
+
+  /**
+   * Retrieve the login methods of a user.
+   * @param userId - ID of the user.
+   * @returns A response containing the linked provider accounts and whether the user has a password.
+   * @throws NotFoundException if the user is not found.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async getAccounts(userId: string) {
+    try {
+      // Find the user with their provider accounts
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+          password: true,
+          accounts: {
+            select: { providerType: true, createdAt: true },
+            orderBy: { createdAt: 'asc' },
+          },
+        },
+      });
+      if (!user) throw new NotFoundException('User not found');
+
+      // Return a response containing the login methods
+      return {
+        message: 'Get accounts successfully',
+        statusCode: HttpStatus.OK,
+        data: { hasPassword: !!user.password, accounts: user.accounts },
+      };
+    } catch (error) {
+      // If the error is a NotFoundException, re-throw it
+      if (error instanceof NotFoundException) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to get accounts.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Start linking a provider account to a signed-in user.
+   * The returned URL runs the provider's OAuth flow with a short-lived token naming the user.
+   * The token only links from the browser holding the returned nonce, set as a cookie by the caller,
+   * so a leaked URL can't link someone else's provider account.
+   * @param params - Parameters including the user ID and the provider.
+   * @returns A response containing the URL to open in the browser, and the nonce binding it to the browser.
+   * @throws ConflictException if the user already has an account of this provider.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async startLink(params: { userId: string; provider: OAuthProvider }) {
+    const { userId, provider } = params;
+
+    try {
+      // A user has at most one account per provider
+      const account = await this.prisma.account.findFirst({
+        where: { userId, providerType: provider },
+      });
+      if (account)
+        throw new ConflictException(`${provider} account already linked`);
+
+      // Sign a token only good for linking, for a few minutes, from the browser holding the nonce
+      const nonce = randomBytes(32).toString('base64url');
+      const linkToken = await this.jwtService.signAsync(
+        { sub: userId, purpose: LINK_TOKEN_PURPOSE, nonce: this.hash(nonce) },
+        { expiresIn: '10m' },
+      );
+
+      // Return a response containing the URL starting the OAuth flow
+      return {
+        message: 'Start linking account successfully',
+        statusCode: HttpStatus.OK,
+        data: {
+          url: `/api/auth/${provider}?${new URLSearchParams({ link: linkToken })}`,
+        },
+        nonce,
+      };
+    } catch (error) {
+      // If the error is a ConflictException, re-throw it
+      if (error instanceof ConflictException) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to start linking account.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Link a provider account to the user named by a link token, at the end of the provider's OAuth flow.
+   * @param params - Parameters including the link token, the nonce from the browser's cookie and the provider account.
+   * @returns The user the account is linked to.
+   * @throws UnauthorizedException if the link token is invalid or expired, or the flow finishes in another browser than it started in.
+   * @throws ConflictException if the provider account belongs to another user, or the user already has an account of this provider.
+   */
+  async link(params: {
+    linkToken: string;
+    nonce?: string;
+    providerType: string;
+    providerId: string;
+  }) {
+    const { linkToken, nonce, providerType, providerId } = params;
+
+    // Find out who started the linking flow
+    const payload = await this.jwtService
+      .verifyAsync(linkToken)
+      .catch(() => undefined);
+    if (payload?.purpose !== LINK_TOKEN_PURPOSE)
+      throw new UnauthorizedException('Invalid link token');
+
+    // Only the browser that started the flow holds the nonce
+    if (!nonce || payload.nonce !== this.hash(nonce))
+      throw new UnauthorizedException(
+        'Account linking must finish in the browser that started it',
+      );
+
+    // The provider account may only be linked once, and a user has at most one account per provider
+    const accounts = await this.prisma.account.findMany({
+      where: {
+        OR: [
+          { providerType, providerId },
+          { providerType, userId: payload.sub },
+        ],
+      },
+    });
+    if (accounts.some((account) => account.userId !== payload.sub))
+      throw new ConflictException(
+        `${providerType} account already linked to another user`,
+      );
+
+    // Link the account, unless it already is
+    if (!accounts.length)
+      await this.prisma.account.create({
+        data: {
+          providerType,
+          providerId,
+          user: { connect: { id: payload.sub } },
+        },
+      });
+    else if (accounts[0].providerId !== providerId)
+      throw new ConflictException(`${providerType} account already linked`);
+
+    return this.prisma.user.findUnique({ where: { id: payload.sub } });
+  }
+
+  /**
+   * Unlink a provider account from a user.
+   * Users without a password must keep at least one provider account to sign in with.
+   * @param params - Parameters including the user ID and the provider.
+   * @returns A response indicating the success of the unlinking.
+   * @throws NotFoundException if the user has no account of this provider.
+   * @throws BadRequestException if the account is the user's last login method.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async unlink(params: { userId: string; provider: OAuthProvider }) {
+    const { userId, provider } = params;
+
+    try {
+      // Find the user with their provider accounts
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { password: true, accounts: true },
+      });
+      const account = user?.accounts.find(
+        (account) => account.providerType === provider,
+      );
+      if (!account) throw new NotFoundException('Account not found');
+
+      // Refuse to remove the last way to sign in
+      if (!user.password && user.accounts.length === 1)
+        throw new BadRequestException(
+          'cannot unlink the last login method, set a password first',
+        );
+
+      // Unlink the account
+      await this.prisma.account.delete({ where: { id: account.id } });
+
+      // Return a response indicating successful unlinking
+      return {
+        message: `Unlink ${provider} account successfully`,
+        statusCode: HttpStatus.OK,
+      };
+    } catch (error) {
+      // If the error is a NotFoundException or BadRequestException, re-throw it
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to unlink account.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Hash a link nonce, so the link token doesn't give it away.
+   * @param nonce - The nonce.
+   * @returns The SHA-256 hash of the nonce.
+   */
+  private hash(nonce: string) {
+    return createHash('sha256').update(nonce).digest('hex');
+  }
+}
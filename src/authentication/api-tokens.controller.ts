@@ -0,0 +1,103 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Request,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiCreatedResponse,
+  ApiInternalServerErrorResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ApiTokensService } from './api-tokens.service';
+import { CreateApiTokenDto } from './dto/create-api-token.dto';
+import { UpdateApiTokenDto } from './dto/update-api-token.dto';
+
+@Controller('users/me/tokens')
+@ApiTags('API tokens')
+@ApiBearerAuth()
+export class ApiTokensController {
+  constructor(private readonly apiTokensService: ApiTokensService) {}
+
+  /**
+   * Lists the API tokens of the authenticated user.
+   * @param req - The request object containing the authenticated user's information.
+   * @returns The tokens, without their secret.
+   */
+  @Get()
+  @ApiOkResponse({ description: 'Get API tokens successfully.' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error.' })
+  async getTokens(@Request() req) {
+    return this.apiTokensService.getTokens(req.user.sub);
+  }
+
+  /**
+   * Creates an API token for the authenticated user.
+   * The token is only shown in this response, send it as `Authorization: Bearer <token>`.
+   * @param createApiTokenDto - The name, scopes and optional expiry of the token.
+   * @param req - The request object containing the authenticated user's information.
+   * @returns The created token.
+   */
+  @Post()
+  @ApiCreatedResponse({ description: 'Create API token successfully.' })
+  @ApiBadRequestResponse({ description: 'Invalid token details.' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error.' })
+  async create(
+    @Body(new ValidationPipe({ transform: true }))
+    createApiTokenDto: CreateApiTokenDto,
+    @Request() req,
+  ) {
+    return this.apiTokensService.create({
+      userId: req.user.sub,
+      createApiTokenDto,
+    });
+  }
+
+  /**
+   * Renames an API token of the authenticated user or changes its scopes.
+   * @param id - The ID of the token.
+   * @param updateApiTokenDto - The new name and/or scopes.
+   * @param req - The request object containing the authenticated user's information.
+   * @returns The updated token.
+   */
+  @Patch(':id')
+  @ApiOkResponse({ description: 'Update API token successfully.' })
+  @ApiBadRequestResponse({ description: 'Invalid token details.' })
+  @ApiNotFoundResponse({ description: 'API token not found.' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error.' })
+  async update(
+    @Param('id') id: string,
+    @Body(new ValidationPipe({ transform: true }))
+    updateApiTokenDto: UpdateApiTokenDto,
+    @Request() req,
+  ) {
+    return this.apiTokensService.update({
+      userId: req.user.sub,
+      id,
+      updateApiTokenDto,
+    });
+  }
+
+  /**
+   * Revokes an API token of the authenticated user.
+   * @param id - The ID of the token.
+   * @param req - The request object containing the authenticated user's information.
+   * @returns A message indicating the success of the revocation.
+   */
+  @Delete(':id')
+  @ApiOkResponse({ description: 'Delete API token successfully.' })
+  @ApiNotFoundResponse({ description: 'API token not found.' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error.' })
+  async remove(@Param('id') id: string, @Request() req) {
+    return this.apiTokensService.remove({ userId: req.user.sub, id });
+  }
+}
@@ -0,0 +1,120 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { createHash } from 'crypto';
+import { DatabasesService } from 'src/databases/databases.service';
+import { API_TOKEN_PREFIX, ApiTokensService } from './api-tokens.service';
+import { ApiTokenScope } from './enums/api-token-scope.enum';
+
+describe('ApiTokensService', () => {
+  let service: ApiTokensService;
+  const prisma = {
+    apiToken: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiTokensService,
+        { provide: DatabasesService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<ApiTokensService>(ApiTokensService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    it('should store the hash of the token and return the token itself', async () => {
+      prisma.apiToken.create.mockResolvedValue({ id: 'token-1', name: 'CI' });
+
+      const { data } = await service.create({
+        userId: 'user-1',
+        createApiTokenDto: {
+          name: 'CI',
+          scopes: [ApiTokenScope.POSTS_WRITE, ApiTokenScope.POSTS_WRITE],
+        },
+      });
+
+      const { tokenHash, scopes } = prisma.apiToken.create.mock.calls[0][0]
+        .data as { tokenHash: string; scopes: string[] };
+      expect(data.token.startsWith(API_TOKEN_PREFIX)).toBe(true);
+      expect(createHash('sha256').update(data.token).digest('hex')).toBe(
+        tokenHash,
+      );
+      expect(scopes).toEqual([ApiTokenScope.POSTS_WRITE]);
+    });
+
+    it('should reject an expiry date in the past', async () => {
+      await expect(
+        service.create({
+          userId: 'user-1',
+          createApiTokenDto: {
+            name: 'CI',
+            scopes: [ApiTokenScope.POSTS_READ],
+            expiresAt: new Date('2000-01-01T00:00:00.000Z'),
+          },
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(prisma.apiToken.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('should not delete tokens of other users', async () => {
+      prisma.apiToken.deleteMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.remove({ userId: 'user-2', id: 'token-1' }),
+      ).rejects.toBeInstanceOf(NotFoundException);
+      expect(prisma.apiToken.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'token-1', userId: 'user-2' },
+      });
+    });
+  });
+
+  describe('verify', () => {
+    const apiToken = {
+      id: 'token-1',
+      scopes: [ApiTokenScope.POSTS_READ],
+      expiresAt: null,
+      user: { id: 'user-1', email: 'wina@email.com', role: 'USER' },
+    };
+
+    it('should authenticate as the owner with the scopes of the token', async () => {
+      prisma.apiToken.findUnique.mockResolvedValue(apiToken);
+
+      await expect(service.verify('pat_secret')).resolves.toEqual({
+        sub: 'user-1',
+        email: 'wina@email.com',
+        role: 'USER',
+        tokenId: 'token-1',
+        scopes: [ApiTokenScope.POSTS_READ],
+      });
+      expect(prisma.apiToken.update).toHaveBeenCalledWith({
+        where: { id: 'token-1' },
+        data: { lastUsedAt: expect.any(Date) },
+      });
+    });
+
+    it('should reject expired tokens', async () => {
+      prisma.apiToken.findUnique.mockResolvedValue({
+        ...apiToken,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await expect(service.verify('pat_secret')).resolves.toBeUndefined();
+      expect(prisma.apiToken.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import {
+  BadRequestException,
+  HttpStatus,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { DatabasesService } from 'src/databases/databases.service';
+import { CreateApiTokenDto } from './dto/create-api-token.dto';
+import { UpdateApiTokenDto } from './dto/update-api-token.dto';
+import { ApiTokenScope } from './enums/api-token-scope.enum';
+import { AuthenticatedUser } from './interfaces/authenticated-user.interface';
+
+// Prefix telling API tokens apart from access tokens in the Authorization header
+export const API_TOKEN_PREFIX = 'pat_';
+
+// Fields of a token safe to show its owner; the hash never leaves the database
+const API_TOKEN_SELECT = {
+  id: true,
+  name: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+};
+
+/**
+ * Personal API tokens, letting integrations such as CI pipelines act as a user within a set of scopes.
+ */
+@Injectable()
+export class ApiTokensService {
+  constructor(private prisma: DatabasesService) {}
+
+  /**
+   * Retrieve the API tokens of a user.
+   * @param userId - ID of the user.
+   * @returns A response containing the tokens, without their secret.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async getTokens(userId: string) {
+    try {
+      // Find the tokens of the user, newest first
+      const tokens = await this.prisma.apiToken.findMany({
+        where: { userId },
+        select: API_TOKEN_SELECT,
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return {
+        message: 'Get API tokens successfully',
+        statusCode: HttpStatus.OK,
+        data: tokens,
+      };
+    } catch (error) {
+      // Log the error and throw an InternalServerErrorException
+      console.error(error);
+      throw new InternalServerErrorException(
+        'Something went wrong. Failed to get API tokens.',
+      );
+    }
+  }
+
+  /**
+   * Create an API token for a user.
+   * @param params - Parameters including the user ID and the name, scopes and expiry of the token.
+   * @returns A response containing the token, whose secret is only shown this once.
+   * @throws BadRequestException if the expiry date is not in the future.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async create(params: {
+    userId: string;
+    createApiTokenDto: CreateApiTokenDto;
+  }) {
+    const { userId, createApiTokenDto } = params;
+    const { name, scopes, expiresAt } = createApiTokenDto;
+
+    try {
+      // Make sure the token doesn't start out expired
+      if (expiresAt && new Date(expiresAt) <= new Date())
+        throw new BadRequestException('Expiry date must be in the future');
+
+      // Store only the hash of the token
+      const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+      const apiToken = await this.prisma.apiToken.create({
+        data: {
+          name,
+          scopes: [...new Set(scopes)],
+          expiresAt,
+          tokenHash: this.hash(token),
+          user: { connect: { id: userId } },
+        },
+        select: API_TOKEN_SELECT,
+      });
+
+      return {
+        message: 'Create API token successfully',
+        statusCode: HttpStatus.CREATED,
+        data: { ...apiToken, token },
+      };
+    } catch (error) {
+      // If the error is a BadRequestException, re-throw it
+      if (error instanceof BadRequestException) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to create API token.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Rename an API token or change its scopes.
+   * @param params - Parameters including the user ID, the token ID and the changes.
+   * @returns A response containing the updated token.
+   * @throws NotFoundException if the user has no such token.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async update(params: {
+    userId: string;
+    id: string;
+    updateApiTokenDto: UpdateApiTokenDto;
+  }) {
+    const { userId, id, updateApiTokenDto } = params;
+    const { name, scopes } = updateApiTokenDto;
+
+    try {
+      // Only the owner can change a token
+      const { count } = await this.prisma.apiToken.updateMany({
+        where: { id, userId },
+        data: { name, scopes: scopes && [...new Set(scopes)] },
+      });
+      if (!count) throw new NotFoundException('API token not found');
+
+      return {
+        message: 'Update API token successfully',
+        statusCode: HttpStatus.OK,
+        data: await this.prisma.apiToken.findUnique({
+          where: { id },
+          select: API_TOKEN_SELECT,
+        }),
+      };
+    } catch (error) {
+      // If the error is a NotFoundException, re-throw it
+      if (error instanceof NotFoundException) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to update API token.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Revoke an API token by deleting it.
+   * @param params - Parameters including the user ID and the token ID.
+   * @returns A response indicating the success of the deletion.
+   * @throws NotFoundException if the user has no such token.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async remove(params: { userId: string; id: string }) {
+    const { userId, id } = params;
+
+    try {
+      // Only the owner can revoke a token
+      const { count } = await this.prisma.apiToken.deleteMany({
+        where: { id, userId },
+      });
+      if (!count) throw new NotFoundException('API token not found');
+
+      return {
+        message: 'Delete API token successfully',
+        statusCode: HttpStatus.OK,
+      };
+    } catch (error) {
+      // If the error is a NotFoundException, re-throw it
+      if (error instanceof NotFoundException) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to delete API token.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Authenticate a request with an API token, recording when the token was last used.
+   * @param token - The API token from the Authorization header.
+   * @returns The user the token acts as, with its scopes, or undefined if the token is unknown or expired.
+   */
+  async verify(token: string): Promise<AuthenticatedUser | undefined> {
+    // Find the token and its user
+    const apiToken = await this.prisma.apiToken.findUnique({
+      where: { tokenHash: this.hash(token) },
+      include: { user: { select: { id: true, email: true, role: true } } },
+    });
+    if (!apiToken || (apiToken.expiresAt && apiToken.expiresAt < new Date()))
+      return undefined;
+
+    await this.prisma.apiToken.update({
+      where: { id: apiToken.id },
+      data: { lastUsedAt: new Date() },
+    });
+
+    // The role comes from the user, so it is always current
+    return {
+      sub: apiToken.user.id,
+      email: apiToken.user.email,
+      role: apiToken.user.role,
+      tokenId: apiToken.id,
+      scopes: apiToken.scopes as ApiTokenScope[],
+    };
+  }
+
+  /**
+   * Hash an API token for storage and lookup.
+   * @param token - The API token.
+   * @returns The SHA-256 hash of the token.
+   */
+  private hash(token: string) {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -1,14 +1,27 @@
+import { ConfigService } from '@nestjs/config';
 import { Test, TestingModule } from '@nestjs/testing';
 import { AuthenticationController } from './authentication.controller';
 import { AuthenticationService } from './authentication.service';
+import { EmailVerificationService } from './email-verification.service';
+import { OAuthProvider } from './enums/oauth-provider.enum';
+import { PasswordsService } from './passwords.service';
 
 describe('AuthenticationController', () => {
   let controller: AuthenticationController;
+  const authenticationService = { oauthLogin: jest.fn() };
+  const configService = { get: jest.fn() };
 
   beforeEach(async () => {
+    jest.resetAllMocks();
+
     const module: TestingModule = await Test.createTestingModule({
       controllers: [AuthenticationController],
-      providers: [AuthenticationService],
+      providers: [
+        { provide: AuthenticationService, useValue: authenticationService },
+        { provide: EmailVerificationService, useValue: {} },
+        { provide: PasswordsService, useValue: {} },
+        { provide: ConfigService, useValue: configService },
+      ],
     }).compile();
 
     controller = module.get<AuthenticationController>(AuthenticationController);
@@ -17,4 +30,90 @@ describe('AuthenticationController', () => {
   it('should be defined', () => {
     expect(controller).toBeDefined();
   });
+
+  describe('OAuth callbacks', () => {
+    const user = { id: 'user-1' };
+    const res = {
+      status: jest.fn(),
+      json: jest.fn(),
+      redirect: jest.fn(),
+      clearCookie: jest.fn(),
+    };
+    const ip = '203.0.113.7';
+    const headers = { 'user-agent': 'Firefox' };
+
+    beforeEach(() => {
+      res.status.mockReturnValue(res);
+      authenticationService.oauthLogin.mockResolvedValue({
+        accessToken: 'access',
+        refreshToken: 'refresh',
+        statusCode: 200,
+      });
+    });
+
+    it('should redirect to the application with the tokens in the fragment', async () => {
+      configService.get.mockReturnValue('https://app.example.com/oauth');
+
+      await controller.googleAuthRedirect(
+        { user, query: {}, ip, headers },
+        res as any,
+      );
+
+      expect(authenticationService.oauthLogin).toHaveBeenCalledWith(
+        OAuthProvider.GOOGLE,
+        user,
+        { ip, userAgent: 'Firefox' },
+      );
+      expect(res.redirect).toHaveBeenCalledWith(
+        'https://app.example.com/oauth#accessToken=access&refreshToken=refresh',
+      );
+    });
+
+    it('should respond with the tokens without a redirect URL', async () => {
+      await controller.googleAuthRedirect(
+        { user, query: {}, ip, headers },
+        res as any,
+      );
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({ accessToken: 'access' }),
+      );
+      expect(res.redirect).not.toHaveBeenCalled();
+    });
+
+    it('should hand over only the challenge token when a second factor is needed', async () => {
+      configService.get.mockReturnValue('https://app.example.com/oauth');
+      authenticationService.oauthLogin.mockResolvedValue({
+        challengeToken: 'challenge',
+        statusCode: 200,
+      });
+
+      await controller.googleAuthRedirect(
+        { user, query: {}, ip, headers },
+        res as any,
+      );
+
+      expect(res.redirect).toHaveBeenCalledWith(
+        'https://app.example.com/oauth#challengeToken=challenge',
+      );
+    });
+
+    it('should report a linked account without starting a session', async () => {
+      configService.get.mockReturnValue('https://app.example.com/oauth');
+
+      await controller.githubAuthRedirect(
+        { user, query: { state: 'link-token' } },
+        res as any,
+      );
+
+      expect(authenticationService.oauthLogin).not.toHaveBeenCalled();
+      expect(res.redirect).toHaveBeenCalledWith(
+        'https://app.example.com/oauth#linked=github',
+      );
+      expect(res.clearCookie).toHaveBeenCalledWith('link_nonce', {
+        path: '/api/auth',
+      });
+    });
+  });
 });
@@ -2,28 +2,56 @@ import {
   Body,
   Controller,
   Get,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Ip,
+  Patch,
   Post,
+  Query,
   Request,
+  Res,
   UseGuards,
   ValidationPipe,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
   ApiConflictResponse,
   ApiCreatedResponse,
   ApiInternalServerErrorResponse,
+  ApiOkResponse,
   ApiTags,
+  ApiTooManyRequestsResponse,
   ApiUnauthorizedResponse,
 } from '@nestjs/swagger';
+import { Response } from 'express';
+import { LINK_NONCE_COOKIE, LINK_NONCE_COOKIE_PATH } from './accounts.service';
 import { AuthenticationService } from './authentication.service';
 import { Public } from './decorators/public.decorator';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
 import { SignInDto } from './dto/sign-in.dto';
 import { SignUpDto } from './dto/sign-up.dto';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import { EmailVerificationService } from './email-verification.service';
+import { PasswordsService } from './passwords.service';
+import { OAuthProvider } from './enums/oauth-provider.enum';
+import { GithubOauthGuard } from './guards/github-oauth.guard';
 import { GoogleOauthGuard } from './guards/google-oauth.guard';
 
 @Controller('auth')
 @ApiTags('Authentication')
 export class AuthenticationController {
-  constructor(private readonly authenticationService: AuthenticationService) {}
+  constructor(
+    private readonly authenticationService: AuthenticationService,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly passwordsService: PasswordsService,
+    private readonly configService: ConfigService,
+  ) {}
 
   /**
    * Registers a new user.
@@ -46,19 +74,169 @@ export class AuthenticationController {
   /**
    * Logs in a user using email and password.
    * @param signInDto - Object containing email and password for login.
-   * @returns An object with access token upon successful login.
+   * @param ip - The IP address of the client.
+   * @param userAgent - The user agent of the client.
+   * @returns An object with access and refresh tokens upon successful login.
    */
   @Public()
   @Post('sign-in')
   @ApiUnauthorizedResponse({
     description: 'Unauthorized: Invalid credentials or authentication token.',
   })
+  @ApiTooManyRequestsResponse({
+    description: 'Too many failed attempts, account or IP address locked out.',
+  })
   @ApiCreatedResponse({ description: 'Successfully logged in.' })
   @ApiInternalServerErrorResponse({ description: 'Internal server error.' })
   async signIn(
     @Body(new ValidationPipe({ transform: true })) signInDto: SignInDto,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent: string,
+  ) {
+    return this.authenticationService.login(signInDto, { ip, userAgent });
+  }
+
+  /**
+   * Exchanges a refresh token for a new access token and refresh token.
+   * The refresh token can only be used once; reusing it logs out the session.
+   * @param refreshTokenDto - Object containing the refresh token.
+   * @returns An object with the new access and refresh tokens.
+   */
+  @Public()
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  @ApiOkResponse({ description: 'Successfully refreshed tokens.' })
+  @ApiUnauthorizedResponse({
+    description: 'Unauthorized: Invalid, expired or reused refresh token.',
+  })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error.' })
+  async refresh(
+    @Body(new ValidationPipe({ transform: true }))
+    refreshTokenDto: RefreshTokenDto,
+  ) {
+    return this.authenticationService.refresh(refreshTokenDto.refreshToken);
+  }
+
+  /**
+   * Logs out of the current session.
+   * @param req - The request object containing the authenticated user's information.
+   * @returns A message indicating the success of the logout.
+   */
+  @ApiBearerAuth()
+  @Post('logout')
+  @HttpCode(HttpStatus.OK)
+  @ApiOkResponse({ description: 'Successfully logged out.' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error.' })
+  async logout(@Request() req) {
+    return this.authenticationService.logout(req.user.sid);
+  }
+
+  /**
+   * Logs out of every session of the authenticated user, on all devices.
+   * @param req - The request object containing the authenticated user's information.
+   * @returns A message indicating the success of the logout.
+   */
+  @ApiBearerAuth()
+  @Post('logout-all')
+  @HttpCode(HttpStatus.OK)
+  @ApiOkResponse({ description: 'Successfully logged out of all devices.' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error.' })
+  async logoutAll(@Request() req) {
+    return this.authenticationService.logoutAll(req.user.sub);
+  }
+
+  /**
+   * Verifies the email address of a user, from the link of the verification email.
+   * @param verifyEmailDto - Object containing the verification token.
+   * @returns A message indicating the success of the verification.
+   */
+  @Public()
+  @Get('verify-email')
+  @ApiOkResponse({ description: 'Successfully verified email.' })
+  @ApiUnauthorizedResponse({
+    description: 'Unauthorized: Invalid or expired verification token.',
+  })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error.' })
+  async verifyEmail(
+    @Query(new ValidationPipe({ transform: true }))
+    verifyEmailDto: VerifyEmailDto,
+  ) {
+    return this.emailVerificationService.verify(verifyEmailDto.token);
+  }
+
+  /**
+   * Mails a new verification link to the authenticated user.
+   * @param req - The request object containing the authenticated user's information.
+   * @returns A message indicating the link was sent.
+   */
+  @ApiBearerAuth()
+  @Post('resend-verification')
+  @HttpCode(HttpStatus.OK)
+  @ApiOkResponse({ description: 'Successfully sent verification email.' })
+  @ApiBadRequestResponse({ description: 'Email already verified.' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error.' })
+  async resendVerification(@Request() req) {
+    return this.emailVerificationService.resend(req.user.sub);
+  }
+
+  /**
+   * Mails a password reset link to the user with the given email address.
+   * @param forgotPasswordDto - Object containing the email address.
+   * @returns A message that is the same whether or not the address belongs to a user.
+   */
+  @Public()
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.OK)
+  @ApiOkResponse({ description: 'Reset link sent if the email is known.' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error.' })
+  async forgotPassword(
+    @Body(new ValidationPipe({ transform: true }))
+    forgotPasswordDto: ForgotPasswordDto,
   ) {
-    return this.authenticationService.login(signInDto);
+    return this.passwordsService.forgotPassword(forgotPasswordDto.email);
+  }
+
+  /**
+   * Sets a new password with the token of a password reset email, logging out every session.
+   * @param resetPasswordDto - Object containing the reset token and the new password.
+   * @returns A message indicating the success of the reset.
+   */
+  @Public()
+  @Post('reset-password')
+  @HttpCode(HttpStatus.OK)
+  @ApiOkResponse({ description: 'Successfully reset password.' })
+  @ApiBadRequestResponse({ description: 'Invalid or expired reset token.' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error.' })
+  async resetPassword(
+    @Body(new ValidationPipe({ transform: true }))
+    resetPasswordDto: ResetPasswordDto,
+  ) {
+    const { token, password } = resetPasswordDto;
+    return this.passwordsService.resetPassword({ token, password });
+  }
+
+  /**
+   * Changes the password of the authenticated user.
+   * @param req - The request object containing the authenticated user's information.
+   * @param changePasswordDto - Object containing the current and the new password.
+   * @returns A message indicating the success of the change.
+   */
+  @ApiBearerAuth()
+  @Patch('password')
+  @ApiOkResponse({ description: 'Successfully changed password.' })
+  @ApiBadRequestResponse({ description: 'Current password is incorrect.' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error.' })
+  async changePassword(
+    @Request() req,
+    @Body(new ValidationPipe({ transform: true }))
+    changePasswordDto: ChangePasswordDto,
+  ) {
+    const { currentPassword, password } = changePasswordDto;
+    return this.passwordsService.changePassword({
+      userId: req.user.sub,
+      currentPassword,
+      password,
+    });
   }
 
   /**
@@ -72,14 +250,89 @@ export class AuthenticationController {
 
   /**
    * Handles the callback from Google OAuth authentication.
-   * Redirects the user back to the application after successful Google authentication.
-   * @param req The HTTP request object containing the user information.
-   * @returns A message indicating the status of the Google OAuth authentication and the user information if available.
+   * @param req The HTTP request object containing the user resolved by the Google strategy.
+   * @param res The response object, used to redirect to the application.
+   * @returns An object with access and refresh tokens upon successful login.
    */
   @Public()
   @Get('google/callback')
   @UseGuards(GoogleOauthGuard)
-  async googleAuthRedirect(@Request() req) {
-    return this.authenticationService.googleLogin(req);
+  @ApiOkResponse({ description: 'Successfully logged in with google.' })
+  @ApiUnauthorizedResponse({ description: 'Google authentication failed.' })
+  @ApiConflictResponse({ description: 'Google account already linked.' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error.' })
+  async googleAuthRedirect(@Request() req, @Res() res: Response) {
+    return this.completeOAuth(OAuthProvider.GOOGLE, req, res);
+  }
+
+  /**
+   * Initiates the GitHub OAuth authentication process.
+   * Redirects the user to GitHub's authorization page.
+   */
+  @Public()
+  @Get('github')
+  @UseGuards(GithubOauthGuard)
+  async githubAuth() {}
+
+  /**
+   * Handles the callback from GitHub OAuth authentication.
+   * @param req The HTTP request object containing the user resolved by the GitHub strategy.
+   * @param res The response object, used to redirect to the application.
+   * @returns An object with access and refresh tokens upon successful login.
+   */
+  @Public()
+  @Get('github/callback')
+  @UseGuards(GithubOauthGuard)
+  @ApiOkResponse({ description: 'Successfully logged in with github.' })
+  @ApiUnauthorizedResponse({ description: 'GitHub authentication failed.' })
+  @ApiConflictResponse({ description: 'GitHub account already linked.' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error.' })
+  async githubAuthRedirect(@Request() req, @Res() res: Response) {
+    return this.completeOAuth(OAuthProvider.GITHUB, req, res);
+  }
+
+  /**
+   * Finishes an OAuth flow: a linking flow only reports the linked provider, a sign-in issues our tokens.
+   * When OAUTH_REDIRECT_URL is set, redirects the user back to the application with the outcome in the URL fragment,
+   * so tokens never reach a server log; otherwise responds with it.
+   * @param provider The OAuth provider of the flow.
+   * @param req The HTTP request object containing the user resolved by the provider's strategy.
+   * @param res The response object, used to redirect to the application.
+   */
+  private async completeOAuth(provider: OAuthProvider, req, res: Response) {
+    const redirectUrl = this.configService.get<string>('OAUTH_REDIRECT_URL');
+
+    // The account was linked to the user who started the flow, no new session
+    if (req.query.state) {
+      res.clearCookie(LINK_NONCE_COOKIE, { path: LINK_NONCE_COOKIE_PATH });
+      if (!redirectUrl)
+        return res.status(HttpStatus.OK).json({
+          message: `Link ${provider} account successfully`,
+          statusCode: HttpStatus.OK,
+        });
+
+      return res.redirect(
+        `${redirectUrl}#${new URLSearchParams({ linked: provider })}`,
+      );
+    }
+
+    const result = await this.authenticationService.oauthLogin(
+      provider,
+      req.user,
+      { ip: req.ip, userAgent: req.headers['user-agent'] },
+    );
+
+    // Hand the tokens over to the application, if it has a landing page for them
+    if (!redirectUrl) return res.status(result.statusCode).json(result);
+
+    // Users with two-factor authentication get the challenge token to verify instead
+    const fragment =
+      'challengeToken' in result
+        ? { challengeToken: result.challengeToken }
+        : {
+            accessToken: result.accessToken,
+            refreshToken: result.refreshToken,
+          };
+    res.redirect(`${redirectUrl}#${new URLSearchParams(fragment)}`);
   }
 }
@@ -2,34 +2,69 @@ import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { JwtModule } from '@nestjs/jwt';
 import { DatabasesModule } from 'src/databases/databases.module';
+import { MailModule } from 'src/mail/mail.module';
 import { UsersModule } from 'src/users/users.module';
 import { AuthenticationController } from './authentication.controller';
 import { AuthenticationService } from './authentication.service';
 import { APP_GUARD } from '@nestjs/core';
 import { AuthenticationGuard } from './guards/authentication.guard';
+import { PoliciesGuard } from './guards/policies.guard';
+import { RolesGuard } from './guards/roles.guard';
 import { GoogleStrategy } from './strategies/google.strategy';
+import { SessionsService } from './sessions.service';
+import { AccountsController } from './accounts.controller';
+import { AccountsService } from './accounts.service';
+import { GithubStrategy } from './strategies/github.strategy';
+import { EmailVerificationService } from './email-verification.service';
+import { PasswordsService } from './passwords.service';
+import { TwoFactorController } from './two-factor.controller';
+import { TwoFactorService } from './two-factor.service';
+import { ApiTokensController } from './api-tokens.controller';
+import { ApiTokensService } from './api-tokens.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { SecurityController } from './security.controller';
+import { SessionsController } from './sessions.controller';
 
 @Module({
   imports: [
     DatabasesModule,
     UsersModule,
+    MailModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: async (configService: ConfigService) => ({
         global: true,
         secret: configService.get<string>('SECRET_KEY'),
         signOptions: {
-          expiresIn: '1d', // 1 day
+          expiresIn: '15m', // 15 minutes, clients renew it with their refresh token
         },
       }),
       inject: [ConfigService],
     }),
   ],
-  controllers: [AuthenticationController],
+  controllers: [
+    AuthenticationController,
+    AccountsController,
+    TwoFactorController,
+    ApiTokensController,
+    SecurityController,
+    SessionsController,
+  ],
   providers: [
     AuthenticationService,
+    SessionsService,
+    AccountsService,
+    EmailVerificationService,
+    PasswordsService,
+    TwoFactorService,
+    ApiTokensService,
+    LoginAttemptsService,
     GoogleStrategy,
+    GithubStrategy,
+    // Authorization guards run after the AuthenticationGuard, in this order
     { provide: APP_GUARD, useClass: AuthenticationGuard },
+    { provide: APP_GUARD, useClass: RolesGuard },
+    { provide: APP_GUARD, useClass: PoliciesGuard },
   ],
 })
 export class AuthenticationModule {}
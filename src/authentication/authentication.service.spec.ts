@@ -1,13 +1,53 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ThrottlerException } from '@nestjs/throttler';
 import { Test, TestingModule } from '@nestjs/testing';
+import * as bcrypt from 'bcrypt';
 import { AuthenticationService } from './authentication.service';
 import { DatabasesService } from 'src/databases/databases.service';
+import { UsersService } from 'src/users/users.service';
+import { OAuthProvider } from './enums/oauth-provider.enum';
+import { EmailVerificationService } from './email-verification.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { SessionsService } from './sessions.service';
+import { TwoFactorService } from './two-factor.service';
 
 describe('AuthenticationService', () => {
   let service: AuthenticationService;
+  const prisma = {
+    account: { findUnique: jest.fn(), create: jest.fn() },
+    user: { update: jest.fn() },
+  };
+  const usersService = { validateUser: jest.fn(), createUser: jest.fn() };
+  const sessionsService = {
+    start: jest.fn(),
+    refresh: jest.fn(),
+    revoke: jest.fn(),
+    revokeAll: jest.fn(),
+  };
+  const emailVerificationService = { sendVerification: jest.fn() };
+  const twoFactorService = { challenge: jest.fn() };
+  const loginAttemptsService = {
+    assertNotLocked: jest.fn(),
+    recordFailure: jest.fn(),
+    recordSuccess: jest.fn(),
+  };
 
   beforeEach(async () => {
+    jest.resetAllMocks();
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [AuthenticationService, DatabasesService],
+      providers: [
+        AuthenticationService,
+        { provide: DatabasesService, useValue: prisma },
+        { provide: UsersService, useValue: usersService },
+        { provide: SessionsService, useValue: sessionsService },
+        {
+          provide: EmailVerificationService,
+          useValue: emailVerificationService,
+        },
+        { provide: TwoFactorService, useValue: twoFactorService },
+        { provide: LoginAttemptsService, useValue: loginAttemptsService },
+      ],
     }).compile();
 
     service = module.get<AuthenticationService>(AuthenticationService);
@@ -16,4 +56,251 @@ describe('AuthenticationService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('register', () => {
+    const signUpDto = {
+      email: 'wina@email.com',
+      password: 'secret',
+      confirmPassword: 'secret',
+      firstName: 'wina',
+      lastName: 'safitri',
+    };
+    const user = { id: 'user-1', email: 'wina@email.com' };
+
+    it('should mail a verification link to the new user', async () => {
+      usersService.validateUser.mockResolvedValue(null);
+      usersService.createUser.mockResolvedValue(user);
+      emailVerificationService.sendVerification.mockResolvedValue(undefined);
+
+      await expect(service.register(signUpDto)).resolves.toMatchObject({
+        data: user,
+      });
+      expect(emailVerificationService.sendVerification).toHaveBeenCalledWith(
+        user,
+      );
+    });
+
+    it('should still register the user when the email cannot be sent', async () => {
+      jest.spyOn(console, 'error').mockImplementation();
+      usersService.validateUser.mockResolvedValue(null);
+      usersService.createUser.mockResolvedValue(user);
+      emailVerificationService.sendVerification.mockRejectedValue(
+        new Error('SMTP down'),
+      );
+
+      await expect(service.register(signUpDto)).resolves.toMatchObject({
+        data: user,
+      });
+    });
+  });
+
+  describe('login', () => {
+    it('should start a session and return its tokens', async () => {
+      const user = {
+        id: 'user-1',
+        email: 'wina@email.com',
+        role: 'USER',
+        password: await bcrypt.hash('secret', 4),
+      };
+      usersService.validateUser.mockResolvedValue(user);
+      sessionsService.start.mockResolvedValue({
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+      });
+
+      const client = { ip: '203.0.113.7', userAgent: 'Firefox' };
+      const result = await service.login(
+        { email: 'wina@email.com', password: 'secret' },
+        client,
+      );
+
+      expect(sessionsService.start).toHaveBeenCalledWith(user, client);
+      expect(result).toMatchObject({
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+      });
+      expect(loginAttemptsService.recordSuccess).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-1', method: 'PASSWORD' }),
+      );
+    });
+
+    it('should not start a session for a wrong password', async () => {
+      usersService.validateUser.mockResolvedValue({
+        id: 'user-1',
+        password: await bcrypt.hash('secret', 4),
+      });
+
+      await expect(
+        service.login(
+          { email: 'wina@email.com', password: 'wrong' },
+          { ip: '203.0.113.7' },
+        ),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      expect(sessionsService.start).not.toHaveBeenCalled();
+      expect(loginAttemptsService.recordFailure).toHaveBeenCalledWith({
+        email: 'wina@email.com',
+        userId: 'user-1',
+        method: 'PASSWORD',
+        client: { ip: '203.0.113.7' },
+      });
+    });
+
+    it('should count a failure for an unknown email', async () => {
+      usersService.validateUser.mockResolvedValue(null);
+
+      await expect(
+        service.login({ email: 'nobody@email.com', password: 'secret' }),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      expect(loginAttemptsService.recordFailure).toHaveBeenCalledWith(
+        expect.objectContaining({
+          email: 'nobody@email.com',
+          userId: undefined,
+        }),
+      );
+    });
+
+    it('should refuse attempts while locked out, before checking the password', async () => {
+      loginAttemptsService.assertNotLocked.mockRejectedValue(
+        new ThrottlerException('Too many failed login attempts'),
+      );
+
+      await expect(
+        service.login({ email: 'wina@email.com', password: 'secret' }),
+      ).rejects.toBeInstanceOf(ThrottlerException);
+      expect(usersService.validateUser).not.toHaveBeenCalled();
+      expect(loginAttemptsService.recordFailure).not.toHaveBeenCalled();
+    });
+
+    it('should ask users with two-factor authentication for their code', async () => {
+      usersService.validateUser.mockResolvedValue({
+        id: 'user-1',
+        password: await bcrypt.hash('secret', 4),
+        twoFactorEnabledAt: new Date(),
+      });
+      twoFactorService.challenge.mockResolvedValue('challenge-token');
+
+      const result = await service.login({
+        email: 'wina@email.com',
+        password: 'secret',
+      });
+
+      expect(result).toMatchObject({ challengeToken: 'challenge-token' });
+      expect(result).not.toHaveProperty('accessToken');
+      expect(sessionsService.start).not.toHaveBeenCalled();
+      expect(loginAttemptsService.recordSuccess).toHaveBeenCalledWith(
+        expect.objectContaining({ secondFactorPending: true }),
+      );
+    });
+  });
+
+  describe('validateOAuthUser', () => {
+    const params = {
+      providerType: 'google',
+      providerId: 'google-1',
+      email: 'wina@email.com',
+      emailVerified: true,
+      firstName: 'wina',
+      lastName: 'safitri',
+    };
+    const user = { id: 'user-1', email: 'wina@email.com', role: 'USER' };
+
+    it('should sign in the user linked to the provider account', async () => {
+      prisma.account.findUnique.mockResolvedValue({ user });
+
+      await expect(service.validateOAuthUser(params)).resolves.toBe(user);
+      expect(prisma.account.findUnique).toHaveBeenCalledWith({
+        where: {
+          providerType_providerId: {
+            providerType: 'google',
+            providerId: 'google-1',
+          },
+        },
+        include: { user: true },
+      });
+      expect(prisma.account.create).not.toHaveBeenCalled();
+      expect(usersService.createUser).not.toHaveBeenCalled();
+    });
+
+    it('should link the provider account to the user with the same email', async () => {
+      const verifiedUser = { ...user, emailVerifiedAt: new Date() };
+      prisma.account.findUnique.mockResolvedValue(null);
+      usersService.validateUser.mockResolvedValue(user);
+      prisma.user.update.mockResolvedValue(verifiedUser);
+
+      await expect(service.validateOAuthUser(params)).resolves.toBe(
+        verifiedUser,
+      );
+      expect(prisma.account.create).toHaveBeenCalledWith({
+        data: {
+          providerType: 'google',
+          providerId: 'google-1',
+          user: { connect: { id: 'user-1' } },
+        },
+      });
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { emailVerifiedAt: expect.any(Date) },
+      });
+    });
+
+    it('should not link an email the provider did not verify', async () => {
+      prisma.account.findUnique.mockResolvedValue(null);
+      usersService.validateUser.mockResolvedValue(user);
+
+      await expect(
+        service.validateOAuthUser({ ...params, emailVerified: false }),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      expect(prisma.account.create).not.toHaveBeenCalled();
+    });
+
+    it('should create a new user with the provider account', async () => {
+      prisma.account.findUnique.mockResolvedValue(null);
+      usersService.validateUser.mockResolvedValue(null);
+      usersService.createUser.mockResolvedValue(user);
+
+      await expect(service.validateOAuthUser(params)).resolves.toBe(user);
+      expect(usersService.createUser).toHaveBeenCalledWith({
+        userInputs: {
+          email: 'wina@email.com',
+          avatar: undefined,
+          emailVerifiedAt: expect.any(Date),
+        },
+        profileInputs: { firstName: 'wina', lastName: 'safitri' },
+        accountInputs: { providerId: 'google-1', providerType: 'google' },
+      });
+    });
+  });
+
+  it('should issue our tokens after a Google sign-in', async () => {
+    const user = {
+      id: 'user-1',
+      email: 'wina@email.com',
+      role: 'USER' as const,
+      twoFactorEnabledAt: null,
+    };
+    sessionsService.start.mockResolvedValue({
+      accessToken: 'access-token',
+      refreshToken: 'refresh-token',
+    });
+
+    const result = await service.oauthLogin(OAuthProvider.GOOGLE, user);
+
+    expect(sessionsService.start).toHaveBeenCalledWith(user, {});
+    expect(result).toMatchObject({
+      accessToken: 'access-token',
+      refreshToken: 'refresh-token',
+      message: 'Login with google successfully',
+    });
+    expect(loginAttemptsService.recordSuccess).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-1', method: 'GOOGLE' }),
+    );
+  });
+
+  it('should pass on a rejected refresh token', async () => {
+    sessionsService.refresh.mockRejectedValue(new UnauthorizedException());
+
+    await expect(service.refresh('reused')).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+  });
 });
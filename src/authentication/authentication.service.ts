@@ -5,24 +5,39 @@ import {
   InternalServerErrorException,
   UnauthorizedException,
 } from '@nestjs/common';
-import { JwtService } from '@nestjs/jwt';
+import { ThrottlerException } from '@nestjs/throttler';
 import * as bcrypt from 'bcrypt';
-import { Request } from 'express';
 import { DatabasesService } from 'src/databases/databases.service';
+import { LoginMethod, User } from '@prisma/client';
 import { UsersService } from 'src/users/users.service';
 import { SignInDto } from './dto/sign-in.dto';
 import { SignUpDto } from './dto/sign-up.dto';
+import { EmailVerificationService } from './email-verification.service';
+import { OAuthProvider } from './enums/oauth-provider.enum';
+import { ClientInfo } from './interfaces/client-info.interface';
+import { LoginAttemptsService } from './login-attempts.service';
+import { SessionsService } from './sessions.service';
+import { TwoFactorService } from './two-factor.service';
+
+// Login method recorded for each OAuth provider
+const OAUTH_LOGIN_METHODS: Record<OAuthProvider, LoginMethod> = {
+  [OAuthProvider.GOOGLE]: LoginMethod.GOOGLE,
+  [OAuthProvider.GITHUB]: LoginMethod.GITHUB,
+};
 
 @Injectable()
 export class AuthenticationService {
   constructor(
     private prisma: DatabasesService,
     private usersService: UsersService,
-    private jwtService: JwtService,
+    private sessionsService: SessionsService,
+    private emailVerificationService: EmailVerificationService,
+    private twoFactorService: TwoFactorService,
+    private loginAttemptsService: LoginAttemptsService,
   ) {}
 
   /**
-   * Registers a new user.
+   * Registers a new user and mails them a link to verify their email address.
    * @param signUpDto - Object containing user details for registration.
    * @returns An object with user details upon successful registration.
    * @throws ConflictException if a user with the provided email already exists.
@@ -42,6 +57,13 @@ export class AuthenticationService {
         profileInputs: { firstName, lastName },
       });
 
+      // A failed email doesn't fail the sign-up, the user can ask for another link
+      await this.emailVerificationService
+        .sendVerification(newUser)
+        .catch((error) =>
+          console.error('failed to send verification email', error),
+        );
+
       return {
         message: 'Create user successfully',
         statusCode: HttpStatus.CREATED,
@@ -60,44 +82,78 @@ export class AuthenticationService {
   }
 
   /**
-   * Authenticates a user by email and password.
+   * Authenticates a user by email and password, starting a new session.
+   * Users with two-factor authentication get a challenge token instead, to exchange at `POST /auth/2fa/verify`.
+   * Every attempt is recorded, and repeated failures lock the account or the IP address out for a while.
    * @param signInDto - Object containing email and password for sign-in.
-   * @returns An object with accessToken upon successful authentication.
+   * @param client - The IP address and user agent the attempt comes from.
+   * @returns An object with a short-lived accessToken and a refreshToken upon successful authentication, or a challengeToken.
+   * @throws ThrottlerException if the account or the IP address is locked out.
    * @throws UnauthorizedException if the user is not found or the password doesn't match.
    * @throws InternalServerErrorException if an error occurs during the sign-in process.
    */
-  async login(signInDto: SignInDto) {
+  async login(signInDto: SignInDto, client: ClientInfo = {}) {
+    const { email, password } = signInDto;
+
     try {
+      // Refuse attempts while the account or the IP address is locked out
+      await this.loginAttemptsService.assertNotLocked({ email, ip: client.ip });
+
       // Find the user by email
-      const user = await this.usersService.validateUser(signInDto.email);
-      // If user not found, throw UnauthorizedException
-      if (!user || !user.password)
-        throw new UnauthorizedException('Invalid credentials');
+      const user = await this.usersService.validateUser(email);
 
-      // Compare password
-      const passwordMatch = await bcrypt.compare(
-        signInDto.password,
-        user.password,
-      );
-      // If password don't match,throw UnauthorizedException
-      if (!passwordMatch)
+      // Compare password, users without one can only sign in with a provider
+      const passwordMatch = user?.password
+        ? await bcrypt.compare(password, user.password)
+        : false;
+      // If user not found or password don't match, count the failure and throw UnauthorizedException
+      if (!passwordMatch) {
+        await this.loginAttemptsService.recordFailure({
+          email,
+          userId: user?.id,
+          method: LoginMethod.PASSWORD,
+          client,
+        });
         throw new UnauthorizedException('Invalid credentials');
+      }
+
+      // Record the login, the password was right even if a second factor follows
+      await this.loginAttemptsService.recordSuccess({
+        userId: user.id,
+        email: user.email,
+        method: LoginMethod.PASSWORD,
+        client,
+        secondFactorPending: !!user.twoFactorEnabledAt,
+      });
 
-      // Generate JWT token payload
-      const payload = { sub: user.id, email: user.email, role: user.role };
-      // Sign JWT token
-      const accessToken = await this.jwtService.signAsync(payload);
+      // Ask for the second factor before issuing any token
+      if (user.twoFactorEnabledAt)
+        return {
+          challengeToken: await this.twoFactorService.challenge(user),
+          message: 'Two-factor authentication required',
+          statusCode: HttpStatus.CREATED,
+        };
 
-      // Return accessToken upon successful authentication
+      // Start a session and issue its tokens
+      const { accessToken, refreshToken } = await this.sessionsService.start(
+        user,
+        client,
+      );
+
+      // Return the tokens upon successful authentication
       return {
         accessToken,
+        refreshToken,
         message: 'Login successfully',
         statusCode: HttpStatus.CREATED,
       };
     } catch (error) {
-      // Check if the error is an instance of UnauthorizedException
-      if (error instanceof UnauthorizedException) {
-        // Re-throw UnauthorizedException
+      // Check if the error is an instance of UnauthorizedException or ThrottlerException
+      if (
+        error instanceof UnauthorizedException ||
+        error instanceof ThrottlerException
+      ) {
+        // Re-throw UnauthorizedException or ThrottlerException
         throw error;
       } else {
         // Log error and throw InternalServerErrorException
@@ -108,21 +164,200 @@ export class AuthenticationService {
   }
 
   /**
-   * Handles the callback from Google OAuth authentication.
-   * Retrieves the user information from the request object.
-   * @param req The HTTP request object containing the user information.
-   * @returns A message indicating the status of the Google OAuth authentication and the user information if available.
+   * Exchanges a refresh token for a new pair of tokens, rotating the refresh token.
+   * @param refreshToken - The refresh token issued by the last login or refresh.
+   * @returns An object with a new accessToken and refreshToken.
+   * @throws UnauthorizedException if the refresh token is invalid, expired or reused.
+   * @throws InternalServerErrorException if an error occurs during the refresh.
+   */
+  async refresh(refreshToken: string) {
+    try {
+      // Rotate the refresh token and sign a new access token
+      const tokens = await this.sessionsService.refresh(refreshToken);
+
+      // Return the new tokens
+      return {
+        ...tokens,
+        message: 'Refresh token successfully',
+        statusCode: HttpStatus.OK,
+      };
+    } catch (error) {
+      // Re-throw UnauthorizedException
+      if (error instanceof UnauthorizedException) {
+        throw error;
+      } else {
+        // Log error and throw InternalServerErrorException
+        console.error('Failed to refresh token', error);
+        throw new InternalServerErrorException('Failed to refresh token');
+      }
+    }
+  }
+
+  /**
+   * Logs out of the current session, revoking its access and refresh tokens.
+   * @param sessionId - ID of the session to end.
+   * @returns A message indicating the success of the logout.
+   * @throws InternalServerErrorException if an error occurs during the logout.
    */
-  async googleLogin(req: Request) {
-    // Check if user information is available in the request object.
-    if (!req.user) {
-      return 'No user from google';
+  async logout(sessionId: string) {
+    try {
+      // Revoke the session
+      await this.sessionsService.revoke(sessionId);
+
+      return { message: 'Logout successfully', statusCode: HttpStatus.OK };
+    } catch (error) {
+      // Log error and throw InternalServerErrorException
+      console.error('Failed to logout', error);
+      throw new InternalServerErrorException('Failed to logout');
     }
+  }
 
-    // If user information is available, return a message along with the user details.
-    return {
-      message: 'User information from google',
-      user: req.user,
-    };
+  /**
+   * Logs out of every session of the user, on all devices.
+   * @param userId - ID of the user.
+   * @returns A message indicating the success of the logout, with the number of sessions ended.
+   * @throws InternalServerErrorException if an error occurs during the logout.
+   */
+  async logoutAll(userId: string) {
+    try {
+      // Revoke every session of the user
+      const sessions = await this.sessionsService.revokeAll(userId);
+
+      return {
+        message: 'Logout from all devices successfully',
+        statusCode: HttpStatus.OK,
+        data: { sessions },
+      };
+    } catch (error) {
+      // Log error and throw InternalServerErrorException
+      console.error('Failed to logout', error);
+      throw new InternalServerErrorException('Failed to logout');
+    }
+  }
+
+  /**
+   * Finds or creates the user signing in with an OAuth provider.
+   * A provider account seen before signs its user in. Otherwise the provider account is linked to the user
+   * with the same email, as long as the provider verified that email, or a new user is created.
+   * Emails verified by the provider count as verified by us.
+   * @param params - The provider account and the profile details it came with.
+   * @returns The user.
+   * @throws UnauthorizedException if the email belongs to a user and the provider did not verify it.
+   */
+  async validateOAuthUser(params: {
+    providerType: string;
+    providerId: string;
+    email: string;
+    emailVerified: boolean;
+    avatar?: string;
+    firstName: string;
+    lastName?: string;
+  }) {
+    const { providerType, providerId, email, emailVerified, avatar } = params;
+
+    // Find the user who signed in with this provider account before
+    const account = await this.prisma.account.findUnique({
+      where: { providerType_providerId: { providerType, providerId } },
+      include: { user: true },
+    });
+    if (account) return account.user;
+
+    // Link the provider account to the user with the same email
+    const user = await this.usersService.validateUser(email);
+    if (user) {
+      if (!emailVerified)
+        throw new UnauthorizedException(
+          `Email not verified by ${providerType}`,
+        );
+
+      await this.prisma.account.create({
+        data: { providerType, providerId, user: { connect: { id: user.id } } },
+      });
+
+      // The provider vouches for the email address
+      if (user.emailVerifiedAt) return user;
+      return this.prisma.user.update({
+        where: { id: user.id },
+        data: { emailVerifiedAt: new Date() },
+      });
+    }
+
+    // Otherwise create a new user with the provider account
+    return this.usersService.createUser({
+      userInputs: {
+        email,
+        avatar,
+        emailVerifiedAt: emailVerified ? new Date() : undefined,
+      },
+      profileInputs: { firstName: params.firstName, lastName: params.lastName },
+      accountInputs: { providerId, providerType },
+    });
+  }
+
+  /**
+   * Handles the callback from an OAuth provider, starting a new session for the user.
+   * Users with two-factor authentication get a challenge token instead, as with password logins.
+   * @param provider The OAuth provider the user signed in with.
+   * @param user The user resolved by the provider's strategy.
+   * @param client The IP address and user agent the login comes from.
+   * @returns An object with a short-lived accessToken and a refreshToken, or a challengeToken.
+   * @throws UnauthorizedException if no user came back from the provider.
+   * @throws InternalServerErrorException if an error occurs during the login.
+   */
+  async oauthLogin(
+    provider: OAuthProvider,
+    user?: Pick<User, 'id' | 'email' | 'role' | 'twoFactorEnabledAt'>,
+    client: ClientInfo = {},
+  ) {
+    const method = OAUTH_LOGIN_METHODS[provider];
+
+    try {
+      // Check if user information is available
+      if (!user) {
+        await this.loginAttemptsService.recordFailure({ method, client });
+        throw new UnauthorizedException(`No user from ${provider}`);
+      }
+
+      // Record the login
+      await this.loginAttemptsService.recordSuccess({
+        userId: user.id,
+        email: user.email,
+        method,
+        client,
+        secondFactorPending: !!user.twoFactorEnabledAt,
+      });
+
+      // Ask for the second factor before issuing any token
+      if (user.twoFactorEnabledAt)
+        return {
+          challengeToken: await this.twoFactorService.challenge(user),
+          message: 'Two-factor authentication required',
+          statusCode: HttpStatus.OK,
+        };
+
+      // Start a session and issue its tokens
+      const { accessToken, refreshToken } = await this.sessionsService.start(
+        user,
+        client,
+      );
+
+      return {
+        accessToken,
+        refreshToken,
+        message: `Login with ${provider} successfully`,
+        statusCode: HttpStatus.OK,
+      };
+    } catch (error) {
+      // Re-throw UnauthorizedException
+      if (error instanceof UnauthorizedException) {
+        throw error;
+      } else {
+        // Log error and throw InternalServerErrorException
+        console.error(`Failed to login with ${provider}`, error);
+        throw new InternalServerErrorException(
+          `Failed to login with ${provider}`,
+        );
+      }
+    }
   }
 }
@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+import { Policy } from '../policies/policy.interface';
+
+export const POLICIES_KEY = 'policies';
+export const CheckPolicies = (...policies: Policy[]) =>
+  SetMetadata(POLICIES_KEY, policies);
@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiTokenScope } from '../enums/api-token-scope.enum';
+
+export const SCOPES_KEY = 'scopes';
+export const Scopes = (...scopes: ApiTokenScope[]) =>
+  SetMetadata(SCOPES_KEY, scopes);
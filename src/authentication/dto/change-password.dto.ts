@@ -0,0 +1,16 @@
+import { ApiProperty, PickType } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+import { SignUpDto } from './sign-up.dto';
+
+export class ChangePasswordDto extends PickType(SignUpDto, [
+  'password',
+  'confirmPassword',
+] as const) {
+  @IsString()
+  @IsNotEmpty()
+  @ApiProperty({
+    description: 'Enter your current password',
+    type: String,
+  })
+  currentPassword: string;
+}
@@ -0,0 +1,46 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiTokenScope } from '../enums/api-token-scope.enum';
+
+export class CreateApiTokenDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @ApiProperty({
+    description: 'Name telling what the token is used for',
+    example: 'Docs pipeline',
+    type: String,
+  })
+  name: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(ApiTokenScope, { each: true })
+  @ApiProperty({
+    description: 'What the token may do',
+    enum: ApiTokenScope,
+    isArray: true,
+    example: [ApiTokenScope.POSTS_READ, ApiTokenScope.POSTS_WRITE],
+  })
+  scopes: ApiTokenScope[];
+
+  @ApiProperty({
+    description:
+      'Date and time (ISO 8601) at which the token stops working. Must be in the future. Never expires when omitted.',
+    example: '2025-01-01T00:00:00.000Z',
+    required: false,
+    type: String,
+  })
+  @IsDateString()
+  @IsOptional()
+  expiresAt?: Date;
+}
@@ -0,0 +1,6 @@
+import { PickType } from '@nestjs/swagger';
+import { SignUpDto } from './sign-up.dto';
+
+export class ForgotPasswordDto extends PickType(SignUpDto, [
+  'email',
+] as const) {}
@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class RefreshTokenDto {
+  @IsString()
+  @IsNotEmpty()
+  @ApiProperty({
+    description: 'Refresh token returned by the last sign-in or refresh',
+    type: String,
+  })
+  refreshToken: string;
+}
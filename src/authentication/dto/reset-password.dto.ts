@@ -0,0 +1,16 @@
+import { ApiProperty, PickType } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+import { SignUpDto } from './sign-up.dto';
+
+export class ResetPasswordDto extends PickType(SignUpDto, [
+  'password',
+  'confirmPassword',
+] as const) {
+  @IsString()
+  @IsNotEmpty()
+  @ApiProperty({
+    description: 'Token from the password reset email',
+    type: String,
+  })
+  token: string;
+}
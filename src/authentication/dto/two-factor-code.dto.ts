@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class TwoFactorCodeDto {
+  @IsString()
+  @IsNotEmpty()
+  @ApiProperty({
+    description:
+      'Code from the authenticator app, or one of the recovery codes',
+    example: '123456',
+    type: String,
+  })
+  code: string;
+}
@@ -0,0 +1,6 @@
+import { PartialType, PickType } from '@nestjs/swagger';
+import { CreateApiTokenDto } from './create-api-token.dto';
+
+export class UpdateApiTokenDto extends PartialType(
+  PickType(CreateApiTokenDto, ['name', 'scopes'] as const),
+) {}
@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class VerifyEmailDto {
+  @IsString()
+  @IsNotEmpty()
+  @ApiProperty({
+    description: 'Token from the link of the verification email',
+    type: String,
+  })
+  token: string;
+}
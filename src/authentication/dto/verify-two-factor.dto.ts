@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+import { TwoFactorCodeDto } from './two-factor-code.dto';
+
+export class VerifyTwoFactorDto extends TwoFactorCodeDto {
+  @IsString()
+  @IsNotEmpty()
+  @ApiProperty({
+    description: 'Challenge token returned by the sign-in',
+    type: String,
+  })
+  challengeToken: string;
+}
@@ -0,0 +1,123 @@
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DatabasesService } from 'src/databases/databases.service';
+import { MailService } from 'src/mail/mail.service';
+import { EmailVerificationService } from './email-verification.service';
+
+describe('EmailVerificationService', () => {
+  let service: EmailVerificationService;
+  const prisma = { user: { findUnique: jest.fn(), update: jest.fn() } };
+  const jwtService = { signAsync: jest.fn(), verifyAsync: jest.fn() };
+  const mailService = { send: jest.fn() };
+  const user = { id: 'user-1', email: 'wina@email.com' };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EmailVerificationService,
+        { provide: DatabasesService, useValue: prisma },
+        { provide: JwtService, useValue: jwtService },
+        { provide: MailService, useValue: mailService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn(() => 'https://api.example.com/') },
+        },
+      ],
+    }).compile();
+
+    service = module.get<EmailVerificationService>(EmailVerificationService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should mail a link carrying a token for the address', async () => {
+    jwtService.signAsync.mockResolvedValue('verify-token');
+
+    await service.sendVerification(user);
+
+    expect(jwtService.signAsync).toHaveBeenCalledWith(
+      { sub: 'user-1', email: 'wina@email.com', purpose: 'verify-email' },
+      { expiresIn: '24h' },
+    );
+    expect(mailService.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: 'wina@email.com',
+        text: expect.stringContaining(
+          'https://api.example.com/api/auth/verify-email?token=verify-token',
+        ),
+      }),
+    );
+  });
+
+  describe('verify', () => {
+    it('should mark the email address as verified', async () => {
+      jwtService.verifyAsync.mockResolvedValue({
+        sub: 'user-1',
+        email: 'wina@email.com',
+        purpose: 'verify-email',
+      });
+      prisma.user.findUnique.mockResolvedValue({
+        email: 'wina@email.com',
+        emailVerifiedAt: null,
+      });
+
+      await service.verify('verify-token');
+
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { emailVerifiedAt: expect.any(Date) },
+      });
+    });
+
+    it('should refuse links sent to a previous email address', async () => {
+      jwtService.verifyAsync.mockResolvedValue({
+        sub: 'user-1',
+        email: 'old@email.com',
+        purpose: 'verify-email',
+      });
+      prisma.user.findUnique.mockResolvedValue({
+        email: 'wina@email.com',
+        emailVerifiedAt: null,
+      });
+
+      await expect(service.verify('verify-token')).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse tokens not meant for verification', async () => {
+      jwtService.verifyAsync.mockResolvedValue({ sub: 'user-1', sid: 's-1' });
+
+      await expect(service.verify('access-token')).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+    });
+
+    it('should refuse expired tokens', async () => {
+      jwtService.verifyAsync.mockRejectedValue(new Error('jwt expired'));
+
+      await expect(service.verify('verify-token')).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+    });
+  });
+
+  it('should not resend a link for a verified email address', async () => {
+    prisma.user.findUnique.mockResolvedValue({
+      ...user,
+      emailVerifiedAt: new Date(),
+    });
+
+    await expect(service.resend('user-1')).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    expect(mailService.send).not.toHaveBeenCalled();
+  });
+});
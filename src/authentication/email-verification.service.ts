@@ -0,0 +1,146 @@
+import {
+  BadRequestException,
+  HttpStatus,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { User } from '@prisma/client';
+import { DatabasesService } from 'src/databases/databases.service';
+import { MailService } from 'src/mail/mail.service';
+
+// Purpose claim of the tokens verifying an email address
+const VERIFY_EMAIL_PURPOSE = 'verify-email';
+
+/**
+ * Verification of the email addresses users sign up with.
+ * The verification link carries a signed token naming the user and the address, so changing the address
+ * invalidates links sent to the previous one.
+ */
+@Injectable()
+export class EmailVerificationService {
+  constructor(
+    private prisma: DatabasesService,
+    private jwtService: JwtService,
+    private mailService: MailService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Mail a verification link to a user.
+   * @param user - The user whose email address to verify.
+   */
+  async sendVerification(user: Pick<User, 'id' | 'email'>) {
+    // Sign a token only good for verifying this address, for a day
+    const token = await this.jwtService.signAsync(
+      { sub: user.id, email: user.email, purpose: VERIFY_EMAIL_PURPOSE },
+      { expiresIn: '24h' },
+    );
+    const appUrl = (
+      this.configService.get<string>('APP_URL') || 'http://localhost:3000'
+    ).replace(/\/+$/, '');
+    const link = `${appUrl}/api/auth/verify-email?${new URLSearchParams({ token })}`;
+
+    await this.mailService.send({
+      to: user.email,
+      subject: 'Verify your email address',
+      text: `Open this link within 24 hours to verify your email address:\n\n${link}\n\nIf you did not sign up, ignore this email.`,
+      html: `<p>Open this link within 24 hours to verify your email address:</p><p><a href="${link}">Verify email address</a></p><p>If you did not sign up, ignore this email.</p>`,
+    });
+  }
+
+  /**
+   * Mark the email address named by a verification token as verified.
+   * @param token - The token from the verification link.
+   * @returns A response indicating the success of the verification.
+   * @throws UnauthorizedException if the token is invalid, expired, or the user changed their email address since.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async verify(token: string) {
+    try {
+      // Find out which address the link was sent to
+      const payload = await this.jwtService
+        .verifyAsync(token)
+        .catch(() => undefined);
+      if (payload?.purpose !== VERIFY_EMAIL_PURPOSE)
+        throw new UnauthorizedException('Invalid verification token');
+
+      // Verify the address, unless the user changed it in the meantime
+      const user = await this.prisma.user.findUnique({
+        where: { id: payload.sub },
+        select: { email: true, emailVerifiedAt: true },
+      });
+      if (user?.email !== payload.email)
+        throw new UnauthorizedException('Invalid verification token');
+      if (!user.emailVerifiedAt)
+        await this.prisma.user.update({
+          where: { id: payload.sub },
+          data: { emailVerifiedAt: new Date() },
+        });
+
+      // Return a response indicating successful verification
+      return {
+        message: 'Verify email successfully',
+        statusCode: HttpStatus.OK,
+      };
+    } catch (error) {
+      // If the error is an UnauthorizedException, re-throw it
+      if (error instanceof UnauthorizedException) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to verify email.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Mail a new verification link to a user who has not verified their email address yet.
+   * @param userId - ID of the user.
+   * @returns A response indicating the link was sent.
+   * @throws NotFoundException if the user is not found.
+   * @throws BadRequestException if the email address is already verified.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async resend(userId: string) {
+    try {
+      // Find the user
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, email: true, emailVerifiedAt: true },
+      });
+      if (!user) throw new NotFoundException('User not found');
+      if (user.emailVerifiedAt)
+        throw new BadRequestException('Email already verified');
+
+      // Mail the verification link
+      await this.sendVerification(user);
+
+      // Return a response indicating the link was sent
+      return {
+        message: 'Verification email sent successfully',
+        statusCode: HttpStatus.OK,
+      };
+    } catch (error) {
+      // If the error is a NotFoundException or BadRequestException, re-throw it
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to send verification email.',
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,5 @@
+export enum ApiTokenScope {
+  POSTS_READ = 'posts:read',
+  POSTS_WRITE = 'posts:write',
+  MEDIA_WRITE = 'media:write',
+}
@@ -0,0 +1,4 @@
+export enum OAuthProvider {
+  GOOGLE = 'google',
+  GITHUB = 'github',
+}
@@ -0,0 +1,148 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { JwtService } from '@nestjs/jwt';
+import { ApiTokensService } from '../api-tokens.service';
+import { SCOPES_KEY } from '../decorators/scopes.decorator';
+import { ApiTokenScope } from '../enums/api-token-scope.enum';
+import { SessionsService } from '../sessions.service';
+import { AuthenticationGuard } from './authentication.guard';
+
+describe('AuthenticationGuard', () => {
+  const jwtService = new JwtService({ secret: 'secret' });
+  const configService = { get: jest.fn(() => 'secret') };
+  const reflector = { getAllAndOverride: jest.fn() };
+  const sessionsService = { touch: jest.fn() };
+  const apiTokensService = { verify: jest.fn() };
+  const guard = new AuthenticationGuard(
+    configService as unknown as ConfigService,
+    jwtService,
+    reflector as unknown as Reflector,
+    sessionsService as unknown as SessionsService,
+    apiTokensService as unknown as ApiTokensService,
+  );
+
+  const contextFor = (request: object) =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => request }),
+    }) as unknown as ExecutionContext;
+  const bearer = async (payload: object) => ({
+    headers: { authorization: `Bearer ${await jwtService.signAsync(payload)}` },
+  });
+  const withApiToken = () => ({
+    headers: { authorization: 'Bearer pat_secret' },
+  });
+  const routeWith = (metadata: { isPublic?: boolean; scopes?: string[] }) =>
+    reflector.getAllAndOverride.mockImplementation((key) =>
+      key === SCOPES_KEY ? metadata.scopes : metadata.isPublic,
+    );
+  const apiTokenUser = {
+    sub: 'user-1',
+    email: 'user@example.com',
+    role: 'USER',
+    tokenId: 'token-1',
+    scopes: [ApiTokenScope.POSTS_READ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    reflector.getAllAndOverride.mockReturnValue(false);
+  });
+
+  it('should accept tokens of an active session', async () => {
+    sessionsService.touch.mockResolvedValue(true);
+    const request = await bearer({ sub: 'user-1', sid: 'session-1' });
+
+    await expect(guard.canActivate(contextFor(request))).resolves.toBe(true);
+    expect(sessionsService.touch).toHaveBeenCalledWith('session-1');
+    expect(request['user']).toMatchObject({ sub: 'user-1', sid: 'session-1' });
+  });
+
+  it('should reject tokens of a revoked session', async () => {
+    sessionsService.touch.mockResolvedValue(false);
+    const request = await bearer({ sub: 'user-1', sid: 'session-1' });
+
+    await expect(guard.canActivate(contextFor(request))).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+  });
+
+  it('should reject tokens without a session', async () => {
+    const request = await bearer({ sub: 'user-1' });
+
+    await expect(guard.canActivate(contextFor(request))).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+    expect(sessionsService.touch).not.toHaveBeenCalled();
+  });
+
+  it('should let public routes through as anonymous with a revoked token', async () => {
+    reflector.getAllAndOverride.mockReturnValue(true);
+    sessionsService.touch.mockResolvedValue(false);
+    const request = await bearer({ sub: 'user-1', sid: 'session-1' });
+
+    await expect(guard.canActivate(contextFor(request))).resolves.toBe(true);
+    expect(request['user']).toBeUndefined();
+  });
+
+  it('should accept API tokens on routes needing a scope they hold', async () => {
+    routeWith({ scopes: [ApiTokenScope.POSTS_READ] });
+    apiTokensService.verify.mockResolvedValue(apiTokenUser);
+    const request = withApiToken();
+
+    await expect(guard.canActivate(contextFor(request))).resolves.toBe(true);
+    expect(apiTokensService.verify).toHaveBeenCalledWith('pat_secret');
+    expect(request['user']).toEqual(apiTokenUser);
+  });
+
+  it('should forbid API tokens lacking the scope of the route', async () => {
+    routeWith({ scopes: [ApiTokenScope.POSTS_WRITE] });
+    apiTokensService.verify.mockResolvedValue(apiTokenUser);
+
+    await expect(
+      guard.canActivate(contextFor(withApiToken())),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+
+  it('should forbid API tokens on routes without scopes', async () => {
+    routeWith({});
+    apiTokensService.verify.mockResolvedValue(apiTokenUser);
+
+    await expect(
+      guard.canActivate(contextFor(withApiToken())),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+
+  it('should reject unknown or expired API tokens', async () => {
+    routeWith({ scopes: [ApiTokenScope.POSTS_READ] });
+    apiTokensService.verify.mockResolvedValue(undefined);
+
+    await expect(
+      guard.canActivate(contextFor(withApiToken())),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('should let public routes through as anonymous with an API token lacking the scope', async () => {
+    routeWith({ isPublic: true });
+    apiTokensService.verify.mockResolvedValue(apiTokenUser);
+    const request = withApiToken();
+
+    await expect(guard.canActivate(contextFor(request))).resolves.toBe(true);
+    expect(request['user']).toBeUndefined();
+  });
+
+  it('should not check the scopes of access tokens', async () => {
+    routeWith({ scopes: [ApiTokenScope.POSTS_WRITE] });
+    sessionsService.touch.mockResolvedValue(true);
+    const request = await bearer({ sub: 'user-1', sid: 'session-1' });
+
+    await expect(guard.canActivate(contextFor(request))).resolves.toBe(true);
+    expect(apiTokensService.verify).not.toHaveBeenCalled();
+  });
+});
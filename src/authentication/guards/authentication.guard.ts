@@ -1,6 +1,7 @@
 import {
   CanActivate,
   ExecutionContext,
+  ForbiddenException,
   Injectable,
   UnauthorizedException,
 } from '@nestjs/common';
@@ -8,11 +9,18 @@ import { ConfigService } from '@nestjs/config';
 import { Reflector } from '@nestjs/core';
 import { JwtService } from '@nestjs/jwt';
 import { Request } from 'express';
+import { API_TOKEN_PREFIX, ApiTokensService } from '../api-tokens.service';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { SCOPES_KEY } from '../decorators/scopes.decorator';
+import { ApiTokenScope } from '../enums/api-token-scope.enum';
+import { AuthenticatedUser } from '../interfaces/authenticated-user.interface';
+import { SessionsService } from '../sessions.service';
 
 /**
  * Guard to check the validity of JWT tokens in incoming requests.
  * It extracts the token from the Authorization header and verifies it using the JwtService.
+ * Tokens of a revoked session are rejected, even before they expire.
+ * API tokens are accepted too, on the routes marked with `@Scopes()` they hold a scope for.
  * If the token is valid, it attaches the payload to the request object.
  */
 @Injectable()
@@ -21,6 +29,8 @@ export class AuthenticationGuard implements CanActivate {
     private configService: ConfigService,
     private jwtService: JwtService,
     private reflector: Reflector,
+    private sessionsService: SessionsService,
+    private apiTokensService: ApiTokensService,
   ) {}
 
   /**
@@ -29,37 +39,90 @@ export class AuthenticationGuard implements CanActivate {
    * @param context The execution context containing the request object.
    * @returns A boolean indicating whether the request is authorized.
    * @throws UnauthorizedException if the token is missing or invalid.
+   * @throws ForbiddenException if an API token lacks the scope of the route.
    */
   async canActivate(context: ExecutionContext): Promise<boolean> {
-    // Check if the route is marked as public, if yes, allow access without token.
+    // Check if the route is marked as public.
     const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
       context.getHandler(),
       context.getClass(),
     ]);
-    if (isPublic) return true;
 
     // Extract token from the request header.
     const request = context.switchToHttp().getRequest();
     const token = this.extractTokenFromHeader(request);
 
+    // Public routes never require a token, but still identify the user when a valid one is sent.
+    if (isPublic) {
+      const payload = token ? await this.verifyToken(token) : undefined;
+      if (payload && this.hasScopes(payload, context))
+        request['user'] = payload;
+      return true;
+    }
+
     // If token is missing, throw unauthorized exception.
     if (!token) throw new UnauthorizedException('Invalid credentials');
 
+    // Verify the token and its session, if verification fails, throw unauthorized exception.
+    const payload = await this.verifyToken(token);
+    if (!payload) throw new UnauthorizedException('Invalid credentials');
+
+    // API tokens only reach the routes they hold a scope for.
+    if (!this.hasScopes(payload, context))
+      throw new ForbiddenException('API token not allowed on this route');
+
+    // Attaching the payload to the request object for further use.
+    request['user'] = payload;
+
+    // If token is valid, allow access.
+    return true;
+  }
+
+  /**
+   * Verifies a JWT token and the session it belongs to, or an API token, without throwing.
+   * @param token The JWT token or API token to verify.
+   * @returns The token payload if valid and its session is active, otherwise undefined.
+   */
+  private async verifyToken(
+    token: string,
+  ): Promise<AuthenticatedUser | undefined> {
     try {
-      // Verify the token using JWT service.
+      if (token.startsWith(API_TOKEN_PREFIX))
+        return await this.apiTokensService.verify(token);
+
       const payload = await this.jwtService.verifyAsync(token, {
         secret: this.configService.get<string>('SECRET_KEY'),
       });
 
-      // Attaching the payload to the request object for further use.
-      request['user'] = payload;
+      // Tokens without a session cannot be revoked, so they are not accepted
+      if (!payload.sid || !(await this.sessionsService.touch(payload.sid)))
+        return undefined;
+
+      return payload;
     } catch (error) {
-      // If token verification fails, throw unauthorized exception.
-      throw new UnauthorizedException('Invalid credentials');
+      return undefined;
     }
+  }
 
-    // If token is valid, allow access.
-    return true;
+  /**
+   * Checks whether the token may be used on the route: access tokens go everywhere,
+   * API tokens only where the route is marked with `@Scopes()` they all hold.
+   * @param payload The verified token payload.
+   * @param context The execution context of the route.
+   * @returns True if the token may be used on the route.
+   */
+  private hasScopes(payload: AuthenticatedUser, context: ExecutionContext) {
+    if (!payload.scopes) return true;
+
+    const scopes = this.reflector.getAllAndOverride<ApiTokenScope[]>(
+      SCOPES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    return (
+      !!scopes?.length &&
+      scopes.every((scope) => payload.scopes.includes(scope))
+    );
   }
 
   /**
@@ -0,0 +1,9 @@
+import { Injectable } from '@nestjs/common';
+import { OAuthProvider } from '../enums/oauth-provider.enum';
+import { OAuthGuard } from './oauth.guard';
+
+/**
+ * Guard for handling GitHub OAuth authentication and account linking.
+ */
+@Injectable()
+export class GithubOauthGuard extends OAuthGuard(OAuthProvider.GITHUB) {}
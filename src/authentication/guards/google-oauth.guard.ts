@@ -1,18 +1,17 @@
 import { Injectable } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import { AuthGuard } from '@nestjs/passport';
+import { OAuthProvider } from '../enums/oauth-provider.enum';
+import { OAuthGuard } from './oauth.guard';
 
 /**
  * Guard for handling Google OAuth 2.0 authentication.
- * It extends the AuthGuard provided by Passport to handle Google OAuth authentication.
+ * It extends the OAuth guard to handle Google OAuth authentication and account linking.
  */
 @Injectable()
-export class GoogleOauthGuard extends AuthGuard('google') {
+export class GoogleOauthGuard extends OAuthGuard(OAuthProvider.GOOGLE) {
   /**
    * Initializes the Google OAuth guard with configuration options.
-   * @param configService The configuration service to retrieve environment variables.
    */
-  constructor(private configService: ConfigService) {
+  constructor() {
     // Call the parent constructor to initialize the AuthGuard with Google OAuth strategy.
     super({
       // Configure access type for Google OAuth (offline access can be requested).
@@ -0,0 +1,25 @@
+import { ExecutionContext, Injectable, mixin } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { OAuthProvider } from '../enums/oauth-provider.enum';
+
+/**
+ * Creates a guard running the OAuth flow of a provider.
+ * A `link` query parameter on the first request is passed to the provider as OAuth `state`,
+ * so the callback knows the flow links the provider account to a signed-in user instead of signing in;
+ * the callback only links from the browser holding the nonce cookie set when the flow was started.
+ * @param provider The OAuth provider, named like its Passport strategy.
+ * @returns The guard class.
+ */
+export function OAuthGuard(provider: OAuthProvider) {
+  @Injectable()
+  class OAuthGuardMixin extends AuthGuard(provider) {
+    getAuthenticateOptions(context: ExecutionContext) {
+      const request = context.switchToHttp().getRequest();
+      const link = request.query?.link;
+
+      return typeof link === 'string' ? { state: link } : undefined;
+    }
+  }
+
+  return mixin(OAuthGuardMixin);
+}
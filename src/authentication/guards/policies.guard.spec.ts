@@ -0,0 +1,57 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Role } from '@prisma/client';
+import { isSelfOrAdmin } from '../policies/self-or-admin.policy';
+import { PoliciesGuard } from './policies.guard';
+
+describe('PoliciesGuard', () => {
+  const reflector = { getAllAndOverride: jest.fn() };
+  const guard = new PoliciesGuard(reflector as unknown as Reflector);
+
+  const contextFor = (request: object) =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => request }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    reflector.getAllAndOverride.mockReturnValue([isSelfOrAdmin()]);
+  });
+
+  it('should let users act on their own account', () => {
+    const request = {
+      user: { sub: 'user-1', role: Role.USER },
+      params: { id: 'user-1' },
+    };
+
+    expect(guard.canActivate(contextFor(request))).toBe(true);
+  });
+
+  it('should let admins act on any account', () => {
+    const request = {
+      user: { sub: 'admin-1', role: Role.ADMIN },
+      params: { id: 'user-1' },
+    };
+
+    expect(guard.canActivate(contextFor(request))).toBe(true);
+  });
+
+  it("should forbid users acting on someone else's account", () => {
+    const request = {
+      user: { sub: 'user-2', role: Role.USER },
+      params: { id: 'user-1' },
+    };
+
+    expect(() => guard.canActivate(contextFor(request))).toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('should let every request through routes without policies', () => {
+    reflector.getAllAndOverride.mockReturnValue(undefined);
+
+    expect(guard.canActivate(contextFor({ params: {} }))).toBe(true);
+  });
+});
@@ -0,0 +1,41 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { POLICIES_KEY } from '../decorators/check-policies.decorator';
+import { Policy } from '../policies/policy.interface';
+
+/**
+ * Guard enforcing the ownership rules attached to routes with `@CheckPolicies()`.
+ * It runs after the AuthenticationGuard, so the authenticated user is on the request.
+ */
+@Injectable()
+export class PoliciesGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  /**
+   * Checks every policy of the route against the authenticated user and the request.
+   * @param context The execution context containing the request object.
+   * @returns True if all the policies allow the request.
+   * @throws ForbiddenException if a policy denies the request.
+   */
+  canActivate(context: ExecutionContext): boolean {
+    const policies = this.reflector.getAllAndOverride<Policy[]>(POLICIES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!policies?.length) return true;
+
+    const request = context.switchToHttp().getRequest();
+    if (
+      !request.user ||
+      !policies.every((policy) => policy(request.user, request))
+    )
+      throw new ForbiddenException();
+
+    return true;
+  }
+}
@@ -0,0 +1,43 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Role } from '@prisma/client';
+import { RolesGuard } from './roles.guard';
+
+describe('RolesGuard', () => {
+  const reflector = { getAllAndOverride: jest.fn() };
+  const guard = new RolesGuard(reflector as unknown as Reflector);
+
+  const contextFor = (request: object) =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => request }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should let every user through routes without roles', () => {
+    reflector.getAllAndOverride.mockReturnValue(undefined);
+
+    expect(guard.canActivate(contextFor({}))).toBe(true);
+  });
+
+  it('should let users with a required role through', () => {
+    reflector.getAllAndOverride.mockReturnValue([Role.ADMIN]);
+
+    expect(
+      guard.canActivate(contextFor({ user: { sub: 'u', role: Role.ADMIN } })),
+    ).toBe(true);
+  });
+
+  it('should forbid users without a required role', () => {
+    reflector.getAllAndOverride.mockReturnValue([Role.ADMIN]);
+
+    expect(() =>
+      guard.canActivate(contextFor({ user: { sub: 'u', role: Role.USER } })),
+    ).toThrow(ForbiddenException);
+    expect(() => guard.canActivate(contextFor({}))).toThrow(ForbiddenException);
+  });
+});
@@ -0,0 +1,38 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Role } from '@prisma/client';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+
+/**
+ * Guard restricting routes marked with `@Roles()` to users with one of the listed roles.
+ * It runs after the AuthenticationGuard, reading the role from the authenticated user's token.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  /**
+   * Checks if the authenticated user has one of the roles the route requires.
+   * @param context The execution context containing the request object.
+   * @returns True if the route requires no role or the user has one of them.
+   * @throws ForbiddenException if the user lacks the required role.
+   */
+  canActivate(context: ExecutionContext): boolean {
+    // Routes without @Roles() are open to every role
+    const roles = this.reflector.getAllAndOverride<Role[]>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!roles?.length) return true;
+
+    const { user } = context.switchToHttp().getRequest();
+    if (!roles.includes(user?.role)) throw new ForbiddenException();
+
+    return true;
+  }
+}
@@ -0,0 +1,17 @@
+import { Role } from '@prisma/client';
+import { ApiTokenScope } from '../enums/api-token-scope.enum';
+
+/**
+ * The user a request is authenticated as, attached to the request as `req.user` by the AuthenticationGuard.
+ */
+export interface AuthenticatedUser {
+  // ID of the user
+  sub: string;
+  email: string;
+  role: Role;
+  // ID of the session, when authenticated with an access token
+  sid?: string;
+  // ID and scopes of the API token, when authenticated with one
+  tokenId?: string;
+  scopes?: ApiTokenScope[];
+}
@@ -0,0 +1,7 @@
+/**
+ * Where a request comes from, as recorded with logins and sessions.
+ */
+export interface ClientInfo {
+  ip?: string;
+  userAgent?: string;
+}
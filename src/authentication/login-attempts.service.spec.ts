@@ -0,0 +1,139 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ThrottlerException } from '@nestjs/throttler';
+import { DatabasesService } from 'src/databases/databases.service';
+import { LoginAttemptsService } from './login-attempts.service';
+
+describe('LoginAttemptsService', () => {
+  let service: LoginAttemptsService;
+  const prisma = {
+    loginEvent: { create: jest.fn(), findMany: jest.fn(), count: jest.fn() },
+    failedLoginCounter: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+  const client = { ip: '203.0.113.7', userAgent: 'Firefox' };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginAttemptsService,
+        { provide: DatabasesService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<LoginAttemptsService>(LoginAttemptsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('assertNotLocked', () => {
+    it('should let logins through without a lockout', async () => {
+      prisma.failedLoginCounter.findMany.mockResolvedValue([]);
+
+      await expect(
+        service.assertNotLocked({ email: 'Wina@Email.com', ip: client.ip }),
+      ).resolves.toBeUndefined();
+      expect(prisma.failedLoginCounter.findMany).toHaveBeenCalledWith({
+        where: {
+          key: { in: ['account:wina@email.com', 'ip:203.0.113.7'] },
+          lockedUntil: { gt: expect.any(Date) },
+        },
+      });
+    });
+
+    it('should refuse logins during a lockout', async () => {
+      prisma.failedLoginCounter.findMany.mockResolvedValue([
+        { lockedUntil: new Date(Date.now() + 90_000) },
+      ]);
+
+      await expect(
+        service.assertNotLocked({ email: 'wina@email.com' }),
+      ).rejects.toThrow(
+        new ThrottlerException(
+          'Too many failed login attempts, try again in 2 minutes',
+        ),
+      );
+    });
+  });
+
+  describe('recordFailure', () => {
+    it('should record the event and count it against the account and the IP address', async () => {
+      prisma.failedLoginCounter.upsert.mockResolvedValue({ failures: 1 });
+
+      await service.recordFailure({
+        email: 'wina@email.com',
+        userId: 'user-1',
+        method: 'PASSWORD',
+        client,
+      });
+
+      expect(prisma.loginEvent.create).toHaveBeenCalledWith({
+        data: {
+          email: 'wina@email.com',
+          userId: 'user-1',
+          method: 'PASSWORD',
+          success: false,
+          ...client,
+        },
+      });
+      expect(
+        prisma.failedLoginCounter.upsert.mock.calls.map(([args]) => args.where),
+      ).toEqual([{ key: 'account:wina@email.com' }, { key: 'ip:203.0.113.7' }]);
+      expect(prisma.failedLoginCounter.update).not.toHaveBeenCalled();
+    });
+
+    it('should lock the account out for longer with each failure past the limit', async () => {
+      prisma.failedLoginCounter.upsert.mockResolvedValue({ failures: 7 });
+
+      await service.recordFailure({
+        email: 'wina@email.com',
+        method: 'PASSWORD',
+        client: {},
+      });
+
+      const { lockedUntil } =
+        prisma.failedLoginCounter.update.mock.calls[0][0].data;
+      expect(lockedUntil.getTime() - Date.now()).toBeGreaterThan(3.9 * 60000);
+      expect(lockedUntil.getTime() - Date.now()).toBeLessThanOrEqual(4 * 60000);
+    });
+  });
+
+  describe('recordSuccess', () => {
+    it('should clear the failures of the account', async () => {
+      await service.recordSuccess({
+        userId: 'user-1',
+        email: 'wina@email.com',
+        method: 'GOOGLE',
+        client,
+      });
+
+      expect(prisma.loginEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ success: true, method: 'GOOGLE' }),
+      });
+      expect(prisma.failedLoginCounter.deleteMany).toHaveBeenCalledWith({
+        where: { key: 'account:wina@email.com' },
+      });
+    });
+
+    it('should keep the failures of the account while a second factor is pending', async () => {
+      await service.recordSuccess({
+        userId: 'user-1',
+        email: 'wina@email.com',
+        method: 'PASSWORD',
+        client,
+        secondFactorPending: true,
+      });
+
+      expect(prisma.loginEvent.create).toHaveBeenCalled();
+      expect(prisma.failedLoginCounter.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import {
+  BadRequestException,
+  HttpStatus,
+  Injectable,
+  InternalServerErrorException,
+} from '@nestjs/common';
+import { ThrottlerException } from '@nestjs/throttler';
+import { LoginMethod, Prisma } from '@prisma/client';
+import {
+  afterCursor,
+  decodeCursor,
+  encodeCursor,
+  toPage,
+} from 'src/common/pagination/cursor';
+import { DatabasesService } from 'src/databases/databases.service';
+import { ClientInfo } from './interfaces/client-info.interface';
+
+// Failures after which an account, or an IP address, is locked out
+const MAX_ACCOUNT_FAILURES = 5;
+const MAX_IP_FAILURES = 20; // higher, many users can share an address
+
+// The first lockout lasts a minute, each further failure doubles it, up to an hour
+const LOCKOUT_BASE = 60 * 1000; // 1 minute
+const LOCKOUT_MAX = 60 * 60 * 1000; // 1 hour
+
+// Failures are forgotten after a day without any
+const FAILURE_WINDOW = 24 * 60 * 60 * 1000; // 1 day
+
+// Fields of a login event shown to its user
+const LOGIN_EVENT_SELECT = {
+  id: true,
+  method: true,
+  success: true,
+  ip: true,
+  userAgent: true,
+  createdAt: true,
+};
+
+/**
+ * Brute-force protection and audit trail of logins.
+ * Failed logins are counted per account and per IP address, locking either out for longer and longer;
+ * every login, failed or not, is recorded for its user to review.
+ */
+@Injectable()
+export class LoginAttemptsService {
+  constructor(private prisma: DatabasesService) {}
+
+  /**
+   * Refuse a login for an account or from an IP address that is locked out.
+   * @param params - Parameters including the email address and the IP address of the login.
+   * @throws ThrottlerException if either is locked out.
+   */
+  async assertNotLocked(params: { email: string; ip?: string }) {
+    const { email, ip } = params;
+
+    const keys = [this.accountKey(email)];
+    if (ip) keys.push(this.ipKey(ip));
+    const counters = await this.prisma.failedLoginCounter.findMany({
+      where: {
+        key: { in: keys },
+        lockedUntil: { gt: new Date() },
+      },
+    });
+    if (!counters.length) return;
+
+    const lockedUntil = Math.max(
+      ...counters.map((counter) => counter.lockedUntil.getTime()),
+    );
+    const minutes = Math.ceil((lockedUntil - Date.now()) / 60000);
+    throw new ThrottlerException(
+      `Too many failed login attempts, try again in ${minutes} minute${minutes > 1 ? 's' : ''}`,
+    );
+  }
+
+  /**
+   * Record a failed login and count it against the account and the IP address.
+   * @param params - Parameters including the email address tried, its user if any, the method and the client.
+   */
+  async recordFailure(params: {
+    email?: string;
+    userId?: string;
+    method: LoginMethod;
+    client: ClientInfo;
+  }) {
+    const { email, userId, method, client } = params;
+
+    await this.prisma.loginEvent.create({
+      data: { email, userId, method, success: false, ...client },
+    });
+
+    if (email)
+      await this.countFailure(this.accountKey(email), MAX_ACCOUNT_FAILURES);
+    if (client.ip)
+      await this.countFailure(this.ipKey(client.ip), MAX_IP_FAILURES);
+  }
+
+  /**
+   * Record a successful login, clearing the failures of the account.
+   * Failures from the IP address are kept, a login to another account doesn't vouch for them.
+   * While a second factor is pending the failures are kept too, so wrong two-factor codes keep counting.
+   * @param params - Parameters including the user, their email address, the method, the client and whether a second factor is pending.
+   */
+  async recordSuccess(params: {
+    userId: string;
+    email: string;
+    method: LoginMethod;
+    client: ClientInfo;
+    secondFactorPending?: boolean;
+  }) {
+    const { email, userId, method, client, secondFactorPending } = params;
+
+    await this.prisma.loginEvent.create({
+      data: { email, userId, method, success: true, ...client },
+    });
+    if (secondFactorPending) return;
+
+    await this.prisma.failedLoginCounter.deleteMany({
+      where: { key: this.accountKey(email) },
+    });
+  }
+
+  /**
+   * Retrieve the login history of a user, most recent first.
+   * @param params - Parameters including the user ID and pagination.
+   * @returns A response containing the login events and the page metadata.
+   * @throws BadRequestException if the cursor is invalid.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async getEvents(params: {
+    userId: string;
+    take: number;
+    cursor?: string;
+    withTotal?: boolean;
+  }) {
+    const { userId, take, cursor, withTotal } = params;
+
+    try {
+      // Retrieve the events after the cursor, plus one to tell whether another page follows
+      const where: Prisma.LoginEventWhereInput = { userId };
+      const events = await this.prisma.loginEvent.findMany({
+        where: cursor
+          ? {
+              AND: [
+                where,
+                afterCursor(
+                  'createdAt',
+                  'desc',
+                  decodeCursor(cursor, 'createdAt', 'date'),
+                ),
+              ],
+            }
+          : where,
+        select: LOGIN_EVENT_SELECT,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: take + 1,
+      });
+      const total = withTotal
+        ? await this.prisma.loginEvent.count({ where })
+        : undefined;
+
+      // Cut the page
+      const { data, meta } = toPage(
+        events,
+        take,
+        (event) => encodeCursor('createdAt', event.createdAt, event.id),
+        total,
+      );
+
+      return {
+        message: 'Get login events successfully',
+        statusCode: HttpStatus.OK,
+        data,
+        meta,
+      };
+    } catch (error) {
+      // If the error is a BadRequestException, re-throw it
+      if (error instanceof BadRequestException) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to get login events.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Count a failure against a counter, locking it out once it reaches the limit.
+   * @param key - Key of the counter.
+   * @param maxFailures - Failures after which the counter locks out.
+   */
+  private async countFailure(key: string, maxFailures: number) {
+    const now = new Date();
+
+    // Start over when the last failure is old enough to be forgotten
+    await this.prisma.failedLoginCounter.updateMany({
+      where: {
+        key,
+        lastFailedAt: { lt: new Date(now.getTime() - FAILURE_WINDOW) },
+      },
+      data: { failures: 0, lockedUntil: null },
+    });
+
+    // Increment in the database, so concurrent failures all count
+    const { failures } = await this.prisma.failedLoginCounter.upsert({
+      where: { key },
+      create: { key, failures: 1, lastFailedAt: now },
+      update: { failures: { increment: 1 }, lastFailedAt: now },
+    });
+    if (failures < maxFailures) return;
+
+    const lockout = Math.min(
+      LOCKOUT_BASE * 2 ** (failures - maxFailures),
+      LOCKOUT_MAX,
+    );
+    await this.prisma.failedLoginCounter.update({
+      where: { key },
+      data: { lockedUntil: new Date(now.getTime() + lockout) },
+    });
+  }
+
+  /**
+   * Build the key of the counter of an account.
+   * @param email - Email address of the account.
+   * @returns The key of the counter.
+   */
+  private accountKey(email: string) {
+    return `account:${email.trim().toLowerCase()}`;
+  }
+
+  /**
+   * Build the key of the counter of an IP address.
+   * @param ip - The IP address.
+   * @returns The key of the counter.
+   */
+  private ipKey(ip: string) {
+    return `ip:${ip}`;
+  }
+}
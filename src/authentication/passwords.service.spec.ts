@@ -0,0 +1,147 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import * as bcrypt from 'bcrypt';
+import { createHash } from 'crypto';
+import { DatabasesService } from 'src/databases/databases.service';
+import { MailService } from 'src/mail/mail.service';
+import { PasswordsService } from './passwords.service';
+import { SessionsService } from './sessions.service';
+
+describe('PasswordsService', () => {
+  let service: PasswordsService;
+  const prisma = {
+    user: { findUnique: jest.fn(), update: jest.fn() },
+    passwordResetToken: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+  const mailService = { send: jest.fn() };
+  const sessionsService = { revokeAll: jest.fn() };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PasswordsService,
+        { provide: DatabasesService, useValue: prisma },
+        { provide: MailService, useValue: mailService },
+        { provide: SessionsService, useValue: sessionsService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<PasswordsService>(PasswordsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('forgotPassword', () => {
+    it('should store the hash of the token and mail the token itself', async () => {
+      prisma.user.findUnique.mockResolvedValue({
+        id: 'user-1',
+        email: 'wina@email.com',
+      });
+
+      await service.forgotPassword('wina@email.com');
+
+      const { tokenHash } = prisma.passwordResetToken.create.mock.calls[0][0]
+        .data as { tokenHash: string };
+      const { text } = mailService.send.mock.calls[0][0];
+      const token = new URL(text.match(/http\S+/)[0]).searchParams.get('token');
+      expect(text).toContain('http://localhost:3000/reset-password?token=');
+      expect(createHash('sha256').update(token).digest('hex')).toBe(tokenHash);
+    });
+
+    it('should answer the same for unknown email addresses', async () => {
+      prisma.user.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.forgotPassword('nobody@email.com'),
+      ).resolves.toMatchObject({ statusCode: 200 });
+      expect(prisma.passwordResetToken.create).not.toHaveBeenCalled();
+      expect(mailService.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    const resetToken = {
+      id: 'token-1',
+      userId: 'user-1',
+      usedAt: null,
+      expiresAt: new Date(Date.now() + 60_000),
+    };
+
+    it('should set the new password and revoke every session', async () => {
+      prisma.passwordResetToken.findUnique.mockResolvedValue(resetToken);
+      prisma.passwordResetToken.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.resetPassword({ token: 'token', password: 'new-secret' });
+
+      const { password } = prisma.user.update.mock.calls[0][0].data;
+      await expect(bcrypt.compare('new-secret', password)).resolves.toBe(true);
+      expect(sessionsService.revokeAll).toHaveBeenCalledWith('user-1');
+    });
+
+    it('should refuse a token that was used already', async () => {
+      prisma.passwordResetToken.findUnique.mockResolvedValue({
+        ...resetToken,
+        usedAt: new Date(),
+      });
+
+      await expect(
+        service.resetPassword({ token: 'token', password: 'new-secret' }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an expired token', async () => {
+      prisma.passwordResetToken.findUnique.mockResolvedValue({
+        ...resetToken,
+        expiresAt: new Date(Date.now() - 1),
+      });
+
+      await expect(
+        service.resetPassword({ token: 'token', password: 'new-secret' }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(sessionsService.revokeAll).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changePassword', () => {
+    it('should refuse a wrong current password', async () => {
+      prisma.user.findUnique.mockResolvedValue({
+        password: await bcrypt.hash('secret', 4),
+      });
+
+      await expect(
+        service.changePassword({
+          userId: 'user-1',
+          currentPassword: 'wrong',
+          password: 'new-secret',
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should store the new password', async () => {
+      prisma.user.findUnique.mockResolvedValue({
+        password: await bcrypt.hash('secret', 4),
+      });
+
+      await service.changePassword({
+        userId: 'user-1',
+        currentPassword: 'secret',
+        password: 'new-secret',
+      });
+
+      const { password } = prisma.user.update.mock.calls[0][0].data;
+      await expect(bcrypt.compare('new-secret', password)).resolves.toBe(true);
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import {
+  BadRequestException,
+  HttpStatus,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as bcrypt from 'bcrypt';
+import { createHash, randomBytes } from 'crypto';
+import { DatabasesService } from 'src/databases/databases.service';
+import { MailService } from 'src/mail/mail.service';
+import { SessionsService } from './sessions.service';
+
+// Lifetime of a password reset token
+const RESET_TOKEN_TTL = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Password resets for users who forgot their password, and password changes for signed-in users.
+ */
+@Injectable()
+export class PasswordsService {
+  constructor(
+    private prisma: DatabasesService,
+    private mailService: MailService,
+    private sessionsService: SessionsService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Mail a password reset link to the user with an email address.
+   * The response is the same whether or not the address belongs to a user, so it can't be used to find accounts.
+   * @param email - Email address of the user.
+   * @returns A response indicating the link was sent, if the user exists.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async forgotPassword(email: string) {
+    try {
+      // Find the user, without telling whether they exist
+      const user = await this.prisma.user.findUnique({ where: { email } });
+
+      if (user) {
+        // Store only the hash of the token, it works once and for an hour
+        const token = randomBytes(32).toString('base64url');
+        await this.prisma.passwordResetToken.create({
+          data: {
+            tokenHash: this.hash(token),
+            expiresAt: new Date(Date.now() + RESET_TOKEN_TTL),
+            user: { connect: { id: user.id } },
+          },
+        });
+
+        // Mail the link to the page of the application that resets the password
+        const appUrl = (
+          this.configService.get<string>('APP_URL') || 'http://localhost:3000'
+        ).replace(/\/+$/, '');
+        const resetUrl =
+          this.configService.get<string>('PASSWORD_RESET_URL') ||
+          `${appUrl}/reset-password`;
+        const link = `${resetUrl}?${new URLSearchParams({ token })}`;
+        await this.mailService.send({
+          to: user.email,
+          subject: 'Reset your password',
+          text: `Open this link within an hour to choose a new password:\n\n${link}\n\nIf you did not ask for it, ignore this email.`,
+          html: `<p>Open this link within an hour to choose a new password:</p><p><a href="${link}">Reset password</a></p><p>If you did not ask for it, ignore this email.</p>`,
+        });
+      }
+
+      // Return the same response for known and unknown addresses
+      return {
+        message: 'If the email belongs to an account, a reset link was sent',
+        statusCode: HttpStatus.OK,
+      };
+    } catch (error) {
+      // Log the error and throw an InternalServerErrorException
+      console.error(error);
+      throw new InternalServerErrorException(
+        'Something went wrong. Failed to send password reset email.',
+      );
+    }
+  }
+
+  /**
+   * Set a new password with a reset token, logging the user out everywhere.
+   * @param params - Parameters including the reset token and the new password.
+   * @returns A response indicating the success of the reset.
+   * @throws BadRequestException if the token is unknown, expired or already used.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async resetPassword(params: { token: string; password: string }) {
+    const { token, password } = params;
+
+    try {
+      // Find the token
+      const resetToken = await this.prisma.passwordResetToken.findUnique({
+        where: { tokenHash: this.hash(token) },
+      });
+      if (!resetToken || resetToken.usedAt || resetToken.expiresAt < new Date())
+        throw new BadRequestException('Invalid or expired reset token');
+
+      // Use up every pending token of the user; a concurrent reset with the same token finds none left
+      const { count } = await this.prisma.passwordResetToken.updateMany({
+        where: { userId: resetToken.userId, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+      if (!count)
+        throw new BadRequestException('Invalid or expired reset token');
+
+      // Store the new password
+      await this.prisma.user.update({
+        where: { id: resetToken.userId },
+        data: { password: await this.hashPassword(password) },
+      });
+
+      // Whoever knew the old password is logged out
+      await this.sessionsService.revokeAll(resetToken.userId);
+
+      // Return a response indicating successful reset
+      return {
+        message: 'Reset password successfully',
+        statusCode: HttpStatus.OK,
+      };
+    } catch (error) {
+      // If the error is a BadRequestException, re-throw it
+      if (error instanceof BadRequestException) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to reset password.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Change the password of a signed-in user.
+   * @param params - Parameters including the user ID, the current password and the new password.
+   * @returns A response indicating the success of the change.
+   * @throws NotFoundException if the user is not found.
+   * @throws BadRequestException if the user has no password yet, or the current password is wrong.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async changePassword(params: {
+    userId: string;
+    currentPassword: string;
+    password: string;
+  }) {
+    const { userId, currentPassword, password } = params;
+
+    try {
+      // Find the user
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { password: true },
+      });
+      if (!user) throw new NotFoundException('User not found');
+
+      // Users who only signed in with a provider set their first password through a reset
+      if (!user.password)
+        throw new BadRequestException(
+          'No password set, use forgot password to set one',
+        );
+
+      // Check the current password
+      const passwordMatch = await bcrypt.compare(
+        currentPassword,
+        user.password,
+      );
+      if (!passwordMatch)
+        throw new BadRequestException('Current password is incorrect');
+
+      // Store the new password
+      await this.prisma.user.update({
+        where: { id: userId },
+        data: { password: await this.hashPassword(password) },
+      });
+
+      // Return a response indicating successful change
+      return {
+        message: 'Change password successfully',
+        statusCode: HttpStatus.OK,
+      };
+    } catch (error) {
+      // If the error is a NotFoundException or BadRequestException, re-throw it
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to change password.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Hash a password for storage.
+   * @param password - The plain password.
+   * @returns The bcrypt hash of the password.
+   */
+  private async hashPassword(password: string) {
+    const salt = await bcrypt.genSalt();
+    return bcrypt.hash(password, salt);
+  }
+
+  /**
+   * Hash a reset token for storage and lookup.
+   * @param token - The reset token.
+   * @returns The SHA-256 hash of the token.
+   */
+  private hash(token: string) {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
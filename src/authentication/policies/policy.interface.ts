@@ -0,0 +1,10 @@
+import { Request } from 'express';
+import { AuthenticatedUser } from '../interfaces/authenticated-user.interface';
+
+/**
+ * A rule deciding whether the authenticated user may act on the resource a request targets.
+ * @param user - The authenticated user.
+ * @param request - The request, with the route parameters naming the resource.
+ * @returns True if the user is allowed.
+ */
+export type Policy = (user: AuthenticatedUser, request: Request) => boolean;
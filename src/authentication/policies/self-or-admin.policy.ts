@@ -0,0 +1,12 @@
+import { Role } from '@prisma/client';
+import { Policy } from './policy.interface';
+
+/**
+ * Allow users to act on their own account, and admins on any account.
+ * @param param - Name of the route parameter holding the ID of the targeted user.
+ * @returns The policy.
+ */
+export const isSelfOrAdmin =
+  (param = 'id'): Policy =>
+  (user, request) =>
+    user.role === Role.ADMIN || user.sub === request.params[param];
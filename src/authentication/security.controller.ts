@@ -0,0 +1,44 @@
+import {
+  Controller,
+  Get,
+  Query,
+  Request,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiInternalServerErrorResponse,
+  ApiOkResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CursorPaginationQuery } from 'src/common/pagination/cursor-pagination-query.dto';
+import { LoginAttemptsService } from './login-attempts.service';
+
+@Controller('users/me/security')
+@ApiTags('Security')
+@ApiBearerAuth()
+export class SecurityController {
+  constructor(private readonly loginAttemptsService: LoginAttemptsService) {}
+
+  /**
+   * Lists the logins to the authenticated user's account, failed or not, most recent first.
+   * @param req - The request object containing the authenticated user's information.
+   * @param query - Pagination parameters.
+   * @returns The login events, with their method, IP address and user agent.
+   */
+  @Get('events')
+  @ApiOkResponse({ description: 'Get login events successfully.' })
+  @ApiBadRequestResponse({ description: 'Invalid cursor.' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error.' })
+  async getEvents(
+    @Request() req,
+    @Query(new ValidationPipe({ transform: true }))
+    query: CursorPaginationQuery,
+  ) {
+    return this.loginAttemptsService.getEvents({
+      ...query,
+      userId: req.user.sub,
+    });
+  }
+}
@@ -0,0 +1,45 @@
+import { Controller, Delete, Get, Param, Request } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiInternalServerErrorResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { SessionsService } from './sessions.service';
+
+@Controller('users/me/sessions')
+@ApiTags('Security')
+@ApiBearerAuth()
+export class SessionsController {
+  constructor(private readonly sessionsService: SessionsService) {}
+
+  /**
+   * Lists the devices the authenticated user is logged in on.
+   * @param req - The request object containing the authenticated user's information.
+   * @returns The active sessions, with their device, IP address and when they were last seen.
+   */
+  @Get()
+  @ApiOkResponse({ description: 'Get sessions successfully.' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error.' })
+  async getSessions(@Request() req) {
+    return this.sessionsService.getSessions({
+      userId: req.user.sub,
+      currentSessionId: req.user.sid,
+    });
+  }
+
+  /**
+   * Logs the authenticated user out of one of their sessions; its tokens stop working right away.
+   * @param id - The ID of the session.
+   * @param req - The request object containing the authenticated user's information.
+   * @returns A message indicating the success of the revocation.
+   */
+  @Delete(':id')
+  @ApiOkResponse({ description: 'Revoke session successfully.' })
+  @ApiNotFoundResponse({ description: 'Session not found.' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error.' })
+  async remove(@Param('id') id: string, @Request() req) {
+    return this.sessionsService.remove({ userId: req.user.sub, id });
+  }
+}
@@ -0,0 +1,208 @@
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { Test, TestingModule } from '@nestjs/testing';
+import { createHash } from 'crypto';
+import { DatabasesService } from 'src/databases/databases.service';
+import { SessionsService } from './sessions.service';
+
+describe('SessionsService', () => {
+  let service: SessionsService;
+  const prisma = {
+    session: {
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    refreshToken: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+  const jwtService = { signAsync: jest.fn() };
+  const user = { id: 'user-1', email: 'wina@email.com', role: 'USER' as const };
+  const hash = (token: string) =>
+    createHash('sha256').update(token).digest('hex');
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionsService,
+        { provide: DatabasesService, useValue: prisma },
+        { provide: JwtService, useValue: jwtService },
+      ],
+    }).compile();
+
+    service = module.get<SessionsService>(SessionsService);
+    jwtService.signAsync.mockResolvedValue('access-token');
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should start a session and store only the hash of its refresh token', async () => {
+    prisma.session.create.mockResolvedValue({ id: 'session-1' });
+
+    const tokens = await service.start(user);
+
+    const { data } = prisma.refreshToken.create.mock.calls[0][0];
+    expect(data.tokenHash).toBe(hash(tokens.refreshToken));
+    expect(data.session).toEqual({ connect: { id: 'session-1' } });
+    expect(jwtService.signAsync).toHaveBeenCalledWith({
+      sub: 'user-1',
+      email: 'wina@email.com',
+      role: 'USER',
+      sid: 'session-1',
+    });
+    expect(tokens.accessToken).toBe('access-token');
+  });
+
+  it('should label the device of a session from its user agent', async () => {
+    prisma.session.create.mockResolvedValue({ id: 'session-1' });
+
+    await service.start(user, {
+      ip: '203.0.113.7',
+      userAgent:
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:128.0) Gecko/20100101 Firefox/128.0',
+    });
+    await service.start(user, { userAgent: 'curl/8.5.0' });
+
+    const [[first], [second]] = prisma.session.create.mock.calls;
+    expect(first.data).toMatchObject({
+      deviceLabel: 'Firefox on Windows',
+      ip: '203.0.113.7',
+    });
+    expect(second.data.deviceLabel).toBe('curl/8.5.0');
+  });
+
+  describe('refresh', () => {
+    const token = {
+      id: 'token-1',
+      sessionId: 'session-1',
+      expiresAt: new Date(Date.now() + 60000),
+      session: { id: 'session-1', revokedAt: null, user },
+    };
+
+    it('should rotate the refresh token', async () => {
+      prisma.refreshToken.findUnique.mockResolvedValue(token);
+      prisma.refreshToken.updateMany.mockResolvedValue({ count: 1 });
+
+      const tokens = await service.refresh('old-token');
+
+      expect(prisma.refreshToken.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { tokenHash: hash('old-token') } }),
+      );
+      expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 'token-1', usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+      expect(tokens.refreshToken).not.toBe('old-token');
+      expect(prisma.refreshToken.create.mock.calls[0][0].data.tokenHash).toBe(
+        hash(tokens.refreshToken),
+      );
+      expect(prisma.session.updateMany).not.toHaveBeenCalled();
+      expect(prisma.session.update).toHaveBeenCalledWith({
+        where: { id: 'session-1' },
+        data: { lastSeenAt: expect.any(Date) },
+      });
+    });
+
+    it('should revoke the whole session when a rotated token is reused', async () => {
+      prisma.refreshToken.findUnique.mockResolvedValue(token);
+      prisma.refreshToken.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.refresh('old-token')).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(prisma.refreshToken.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse tokens of a revoked session', async () => {
+      prisma.refreshToken.findUnique.mockResolvedValue({
+        ...token,
+        session: { ...token.session, revokedAt: new Date() },
+      });
+
+      await expect(service.refresh('old-token')).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+      expect(prisma.refreshToken.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should refuse expired tokens', async () => {
+      prisma.refreshToken.findUnique.mockResolvedValue({
+        ...token,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await expect(service.refresh('old-token')).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+    });
+  });
+
+  it('should treat unknown and revoked sessions as inactive', async () => {
+    prisma.session.findUnique
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ revokedAt: new Date(), lastSeenAt: new Date() })
+      .mockResolvedValueOnce({ revokedAt: null, lastSeenAt: new Date() });
+
+    expect(await service.touch('missing')).toBe(false);
+    expect(await service.touch('revoked')).toBe(false);
+    expect(await service.touch('active')).toBe(true);
+    expect(prisma.session.update).not.toHaveBeenCalled();
+  });
+
+  it('should record when a session was last seen, at most once a minute', async () => {
+    prisma.session.findUnique.mockResolvedValue({
+      revokedAt: null,
+      lastSeenAt: new Date(Date.now() - 5 * 60000),
+    });
+
+    expect(await service.touch('session-1')).toBe(true);
+    expect(prisma.session.update).toHaveBeenCalledWith({
+      where: { id: 'session-1' },
+      data: { lastSeenAt: expect.any(Date) },
+    });
+  });
+
+  it('should flag the current session among the active ones', async () => {
+    prisma.session.findMany.mockResolvedValue([
+      { id: 'session-1' },
+      { id: 'session-2' },
+    ]);
+
+    const { data } = await service.getSessions({
+      userId: 'user-1',
+      currentSessionId: 'session-2',
+    });
+
+    expect(prisma.session.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ userId: 'user-1', revokedAt: null }),
+      }),
+    );
+    expect(data.map((session) => session.current)).toEqual([false, true]);
+  });
+
+  it('should not revoke sessions of other users', async () => {
+    prisma.session.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      service.remove({ userId: 'user-2', id: 'session-1' }),
+    ).rejects.toBeInstanceOf(NotFoundException);
+    expect(prisma.session.updateMany).toHaveBeenCalledWith({
+      where: { id: 'session-1', userId: 'user-2', revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    });
+  });
+});
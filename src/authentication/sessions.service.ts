@@ -0,0 +1,286 @@
+import {
+  HttpStatus,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { User } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { DatabasesService } from 'src/databases/databases.service';
+import { ClientInfo } from './interfaces/client-info.interface';
+
+// Lifetime of a refresh token; every refresh issues a new one
+const REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// How often the last-seen time of a session is updated, rather than on every request
+const LAST_SEEN_INTERVAL = 60 * 1000; // 1 minute
+
+// Browsers and systems told apart in device labels, the first match wins
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+// Fields of a session shown to its user
+const SESSION_SELECT = {
+  id: true,
+  deviceLabel: true,
+  ip: true,
+  lastSeenAt: true,
+  createdAt: true,
+};
+
+/**
+ * Database-backed login sessions.
+ * A session holds a family of refresh tokens: each refresh rotates the token, and presenting a rotated token
+ * again revokes the whole session, since either the legitimate client or an attacker holds a stolen copy.
+ */
+@Injectable()
+export class SessionsService {
+  constructor(
+    private prisma: DatabasesService,
+    private jwtService: JwtService,
+  ) {}
+
+  /**
+   * Start a session for a user who just logged in.
+   * @param user - The authenticated user.
+   * @param client - The IP address and user agent of the device logging in.
+   * @returns A short-lived access token and the refresh token of the new session.
+   */
+  async start(
+    user: Pick<User, 'id' | 'email' | 'role'>,
+    client: ClientInfo = {},
+  ) {
+    const session = await this.prisma.session.create({
+      data: {
+        deviceLabel: this.labelDevice(client.userAgent),
+        ip: client.ip,
+        userAgent: client.userAgent,
+        user: { connect: { id: user.id } },
+      },
+    });
+
+    return this.issueTokens(user, session.id);
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and a new refresh token.
+   * @param refreshToken - The refresh token to exchange.
+   * @returns A short-lived access token and the next refresh token of the session.
+   * @throws UnauthorizedException if the token is unknown, expired, already used, or its session is revoked.
+   */
+  async refresh(refreshToken: string) {
+    // Find the token and its session
+    const token = await this.prisma.refreshToken.findUnique({
+      where: { tokenHash: this.hash(refreshToken) },
+      include: { session: { include: { user: true } } },
+    });
+    if (!token || token.session.revokedAt || token.expiresAt < new Date())
+      throw new UnauthorizedException('Invalid refresh token');
+
+    // Mark the token as used, unless it already was: a reused token revokes the session
+    const { count } = await this.prisma.refreshToken.updateMany({
+      where: { id: token.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    if (!count) {
+      await this.revoke(token.sessionId);
+      throw new UnauthorizedException('Refresh token reused, session revoked');
+    }
+
+    await this.prisma.session.update({
+      where: { id: token.sessionId },
+      data: { lastSeenAt: new Date() },
+    });
+
+    return this.issueTokens(token.session.user, token.sessionId);
+  }
+
+  /**
+   * Revoke a session, so neither its access tokens nor its refresh tokens are accepted anymore.
+   * @param sessionId - ID of the session.
+   */
+  async revoke(sessionId: string) {
+    await this.prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  /**
+   * Revoke every session of a user, logging them out on all devices.
+   * @param userId - ID of the user.
+   * @returns The number of sessions revoked.
+   */
+  async revokeAll(userId: string) {
+    const { count } = await this.prisma.session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    return count;
+  }
+
+  /**
+   * Check whether a session can still be used, recording that it was just seen.
+   * @param sessionId - ID of the session.
+   * @returns True if the session exists and has not been revoked.
+   */
+  async touch(sessionId: string) {
+    const session = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { revokedAt: true, lastSeenAt: true },
+    });
+    if (!session || session.revokedAt) return false;
+
+    if (session.lastSeenAt.getTime() < Date.now() - LAST_SEEN_INTERVAL)
+      await this.prisma.session.update({
+        where: { id: sessionId },
+        data: { lastSeenAt: new Date() },
+      });
+
+    return true;
+  }
+
+  /**
+   * Retrieve the sessions a user is logged in with, most recently seen first.
+   * @param params - Parameters including the user ID and the ID of the session making the request, if any.
+   * @returns A response containing the sessions, flagging the current one.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async getSessions(params: { userId: string; currentSessionId?: string }) {
+    const { userId, currentSessionId } = params;
+
+    try {
+      // Sessions unseen for longer than a refresh token lives cannot be resumed
+      const sessions = await this.prisma.session.findMany({
+        where: {
+          userId,
+          revokedAt: null,
+          lastSeenAt: { gt: new Date(Date.now() - REFRESH_TOKEN_TTL) },
+        },
+        select: SESSION_SELECT,
+        orderBy: { lastSeenAt: 'desc' },
+      });
+
+      return {
+        message: 'Get sessions successfully',
+        statusCode: HttpStatus.OK,
+        data: sessions.map((session) => ({
+          ...session,
+          current: session.id === currentSessionId,
+        })),
+      };
+    } catch (error) {
+      // Log the error and throw an InternalServerErrorException
+      console.error(error);
+      throw new InternalServerErrorException(
+        'Something went wrong. Failed to get sessions.',
+      );
+    }
+  }
+
+  /**
+   * Log a user out of one of their sessions, invalidating its tokens right away.
+   * @param params - Parameters including the user ID and the session ID.
+   * @returns A response indicating the success of the revocation.
+   * @throws NotFoundException if the user has no such active session.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async remove(params: { userId: string; id: string }) {
+    const { userId, id } = params;
+
+    try {
+      // Only the owner can revoke a session
+      const { count } = await this.prisma.session.updateMany({
+        where: { id, userId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+      if (!count) throw new NotFoundException('Session not found');
+
+      return {
+        message: 'Revoke session successfully',
+        statusCode: HttpStatus.OK,
+      };
+    } catch (error) {
+      // If the error is a NotFoundException, re-throw it
+      if (error instanceof NotFoundException) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to revoke session.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Sign an access token and store a new refresh token for a session.
+   * @param user - The user the tokens are for.
+   * @param sessionId - ID of the session.
+   * @returns The access token and the refresh token.
+   */
+  private async issueTokens(
+    user: Pick<User, 'id' | 'email' | 'role'>,
+    sessionId: string,
+  ) {
+    // Store only the hash of the refresh token
+    const refreshToken = randomBytes(32).toString('base64url');
+    await this.prisma.refreshToken.create({
+      data: {
+        tokenHash: this.hash(refreshToken),
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL),
+        session: { connect: { id: sessionId } },
+      },
+    });
+
+    // The access token names its session, so revoking the session revokes the token
+    const accessToken = await this.jwtService.signAsync({
+      sub: user.id,
+      email: user.email,
+      role: user.role,
+      sid: sessionId,
+    });
+
+    return { accessToken, refreshToken };
+  }
+
+  /**
+   * Describe the device of a session from its user agent, such as "Firefox on Windows".
+   * @param userAgent - The user agent of the device.
+   * @returns The label, the first product of the user agent for other clients, or undefined without a user agent.
+   */
+  private labelDevice(userAgent?: string) {
+    if (!userAgent) return undefined;
+
+    const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent));
+    const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent));
+    if (!browser) return userAgent.split(' ')[0];
+
+    return system ? `${browser[1]} on ${system[1]}` : browser[1];
+  }
+
+  /**
+   * Hash a refresh token for storage and lookup.
+   * @param token - The refresh token.
+   * @returns The SHA-256 hash of the token.
+   */
+  private hash(token: string) {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,104 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Profile } from 'passport-github2';
+import { AccountsService } from '../accounts.service';
+import { AuthenticationService } from '../authentication.service';
+import { GithubStrategy } from './github.strategy';
+
+describe('GithubStrategy', () => {
+  let strategy: GithubStrategy;
+  const authenticationService = { validateOAuthUser: jest.fn() };
+  const accountsService = { link: jest.fn() };
+  const req = { query: {} } as any;
+  // With allRawEmails, GitHub emails carry their primary and verified flags
+  const emails = [
+    { value: 'wina@work.com', primary: false, verified: true },
+    { value: 'Wina@Email.com', primary: true, verified: true },
+  ];
+  const profile = {
+    id: '42',
+    displayName: 'Wina Safitri',
+    username: 'wina',
+    emails,
+    photos: [{ value: 'https://example.com/wina.png' }],
+    profileUrl: 'https://github.com/wina',
+    provider: 'github',
+  } as Profile;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GithubStrategy,
+        { provide: AuthenticationService, useValue: authenticationService },
+        { provide: AccountsService, useValue: accountsService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => `test-${key}`) },
+        },
+      ],
+    }).compile();
+
+    strategy = module.get<GithubStrategy>(GithubStrategy);
+  });
+
+  it('should be defined', () => {
+    expect(strategy).toBeDefined();
+  });
+
+  it('should resolve the user from the primary GitHub email', async () => {
+    await strategy.validate(req, 'github-access', 'github-refresh', profile);
+
+    expect(authenticationService.validateOAuthUser).toHaveBeenCalledWith({
+      providerType: 'github',
+      providerId: '42',
+      email: 'wina@email.com',
+      emailVerified: true,
+      avatar: 'https://example.com/wina.png',
+      firstName: 'wina',
+      lastName: 'safitri',
+    });
+  });
+
+  it('should fall back to the username', async () => {
+    await strategy.validate(req, 'github-access', 'github-refresh', {
+      ...profile,
+      displayName: '',
+    });
+
+    expect(authenticationService.validateOAuthUser).toHaveBeenCalledWith(
+      expect.objectContaining({ firstName: 'wina', lastName: undefined }),
+    );
+  });
+
+  it('should refuse GitHub accounts without an email', async () => {
+    await expect(
+      strategy.validate(req, 'github-access', 'github-refresh', {
+        ...profile,
+        emails: undefined,
+      }),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('should link the GitHub account when the flow carries a link token', async () => {
+    await strategy.validate(
+      {
+        query: { state: 'link-token' },
+        cookies: { link_nonce: 'nonce' },
+      } as any,
+      'github-access',
+      'github-refresh',
+      profile,
+    );
+
+    expect(accountsService.link).toHaveBeenCalledWith({
+      linkToken: 'link-token',
+      nonce: 'nonce',
+      providerType: 'github',
+      providerId: '42',
+    });
+    expect(authenticationService.validateOAuthUser).not.toHaveBeenCalled();
+  });
+});
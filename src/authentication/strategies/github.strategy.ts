@@ -0,0 +1,88 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PassportStrategy } from '@nestjs/passport';
+import { Request } from 'express';
+import { Profile, Strategy } from 'passport-github2';
+import { AccountsService, LINK_NONCE_COOKIE } from '../accounts.service';
+import { AuthenticationService } from '../authentication.service';
+import { OAuthProvider } from '../enums/oauth-provider.enum';
+
+/**
+ * Strategy for handling authentication using GitHub OAuth.
+ * It signs users in with their GitHub account, or links it to the signed-in user who started the flow.
+ */
+@Injectable()
+export class GithubStrategy extends PassportStrategy(
+  Strategy,
+  OAuthProvider.GITHUB,
+) {
+  // Call the parent constructor to initialize the GitHub OAuth strategy.
+  constructor(
+    private authenticationService: AuthenticationService,
+    private accountsService: AccountsService,
+    private configService: ConfigService,
+  ) {
+    super({
+      clientID: configService.get<string>('GITHUB_CLIENT_ID'),
+      clientSecret: configService.get<string>('GITHUB_CLIENT_SECRET'),
+      callbackURL: configService.get<string>('GITHUB_CALLBACK_URL'),
+      scope: ['user:email'],
+      // Keep GitHub's verified flag on each email
+      allRawEmails: true,
+      passReqToCallback: true,
+    });
+  }
+
+  /**
+   * Validates the user profile retrieved from GitHub.
+   * When the flow links an account, links the GitHub account to the signed-in user.
+   * Otherwise finds the user linked to the GitHub account, links it to the user with the same email,
+   * or creates a new user in the system.
+   * @param req The callback request, carrying the link token as OAuth state and its nonce cookie when linking.
+   * @param _accessToken The access token provided by GitHub (not used).
+   * @param _refreshToken The refresh token provided by GitHub (not used).
+   * @param profile The user's profile retrieved from GitHub.
+   * @returns The user, attached to the request by Passport.
+   * @throws UnauthorizedException if the GitHub account has no email address.
+   */
+  async validate(
+    req: Request,
+    _accessToken: string,
+    _refreshToken: string,
+    profile: Profile,
+  ) {
+    // Link the GitHub account to the user who started the flow
+    const { state } = req.query;
+    if (typeof state === 'string')
+      return this.accountsService.link({
+        linkToken: state,
+        nonce: req.cookies?.[LINK_NONCE_COOKIE],
+        providerType: OAuthProvider.GITHUB,
+        providerId: profile.id,
+      });
+
+    // Use the primary email, GitHub lists every email of the account
+    const emails = (profile.emails ?? []) as {
+      value: string;
+      primary?: boolean;
+      verified?: boolean;
+    }[];
+    const email = emails.find((email) => email.primary) ?? emails.at(0);
+    if (!email) throw new UnauthorizedException('GitHub account has no email');
+
+    // GitHub names are free text, fall back to the username
+    const [firstName, ...lastName] = (
+      profile.displayName || profile.username
+    ).split(' ');
+
+    return this.authenticationService.validateOAuthUser({
+      providerType: OAuthProvider.GITHUB,
+      providerId: profile.id,
+      email: email.value.toLowerCase(),
+      emailVerified: email.verified === true,
+      avatar: profile.photos?.at(0)?.value,
+      firstName: firstName.toLowerCase(),
+      lastName: lastName.join(' ').toLowerCase() || undefined,
+    });
+  }
+}
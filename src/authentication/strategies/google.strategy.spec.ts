@@ -0,0 +1,112 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Profile } from 'passport-google-oauth20';
+import { AccountsService } from '../accounts.service';
+import { AuthenticationService } from '../authentication.service';
+import { GoogleStrategy } from './google.strategy';
+
+describe('GoogleStrategy', () => {
+  let strategy: GoogleStrategy;
+  const authenticationService = { validateOAuthUser: jest.fn() };
+  const accountsService = { link: jest.fn() };
+  const req = { query: {} } as any;
+  const profile = {
+    id: 'google-1',
+    displayName: 'Wina Safitri',
+    name: { givenName: 'Wina', familyName: 'Safitri' },
+    emails: [{ value: 'Wina@Email.com', verified: true }],
+    photos: [{ value: 'https://example.com/wina.png' }],
+    provider: 'google',
+  } as Profile;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GoogleStrategy,
+        { provide: AuthenticationService, useValue: authenticationService },
+        { provide: AccountsService, useValue: accountsService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => `test-${key}`) },
+        },
+      ],
+    }).compile();
+
+    strategy = module.get<GoogleStrategy>(GoogleStrategy);
+  });
+
+  it('should be defined', () => {
+    expect(strategy).toBeDefined();
+  });
+
+  it('should resolve the user from the Google profile', async () => {
+    const user = { id: 'user-1', email: 'wina@email.com' };
+    authenticationService.validateOAuthUser.mockResolvedValue(user);
+
+    await expect(
+      strategy.validate(req, 'google-access', 'google-refresh', profile),
+    ).resolves.toBe(user);
+    expect(authenticationService.validateOAuthUser).toHaveBeenCalledWith({
+      providerType: 'google',
+      providerId: 'google-1',
+      email: 'wina@email.com',
+      emailVerified: true,
+      avatar: 'https://example.com/wina.png',
+      firstName: 'wina',
+      lastName: 'safitri',
+    });
+  });
+
+  it('should fall back to the display name', async () => {
+    await strategy.validate(req, 'google-access', 'google-refresh', {
+      ...profile,
+      name: undefined,
+      photos: undefined,
+    });
+
+    expect(authenticationService.validateOAuthUser).toHaveBeenCalledWith(
+      expect.objectContaining({
+        avatar: undefined,
+        firstName: 'wina',
+        lastName: 'safitri',
+      }),
+    );
+  });
+
+  it('should refuse Google accounts without an email', async () => {
+    await expect(
+      strategy.validate(req, 'google-access', 'google-refresh', {
+        ...profile,
+        emails: [],
+      }),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+    expect(authenticationService.validateOAuthUser).not.toHaveBeenCalled();
+  });
+
+  it('should link the Google account when the flow carries a link token', async () => {
+    const user = { id: 'user-1' };
+    accountsService.link.mockResolvedValue(user);
+
+    await expect(
+      strategy.validate(
+        {
+          query: { state: 'link-token' },
+          cookies: { link_nonce: 'nonce' },
+        } as any,
+        'google-access',
+        'google-refresh',
+        profile,
+      ),
+    ).resolves.toBe(user);
+    expect(accountsService.link).toHaveBeenCalledWith({
+      linkToken: 'link-token',
+      nonce: 'nonce',
+      providerType: 'google',
+      providerId: 'google-1',
+    });
+    expect(authenticationService.validateOAuthUser).not.toHaveBeenCalled();
+  });
+});
@@ -1,21 +1,26 @@
-import { HttpStatus, Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { JwtService } from '@nestjs/jwt';
 import { PassportStrategy } from '@nestjs/passport';
-import { Profile, Strategy, VerifyCallback } from 'passport-google-oauth20';
-import { UsersService } from 'src/users/users.service';
+import { Request } from 'express';
+import { Profile, Strategy } from 'passport-google-oauth20';
+import { AccountsService, LINK_NONCE_COOKIE } from '../accounts.service';
+import { AuthenticationService } from '../authentication.service';
+import { OAuthProvider } from '../enums/oauth-provider.enum';
 
 /**
  * Strategy for handling authentication using Google OAuth 2.0.
- * It validates users using Google's OAuth authentication.
+ * It validates users using Google's OAuth authentication, or links the Google account to the signed-in user who started the flow.
  */
 @Injectable()
-export class GoogleStrategy extends PassportStrategy(Strategy, 'google') {
+export class GoogleStrategy extends PassportStrategy(
+  Strategy,
+  OAuthProvider.GOOGLE,
+) {
   // Call the parent constructor to initialize the Google OAuth 2.0 strategy.
   constructor(
-    private usersService: UsersService,
+    private authenticationService: AuthenticationService,
+    private accountsService: AccountsService,
     private configService: ConfigService,
-    private jwtService: JwtService,
   ) {
     super({
       clientID: configService.get<string>('GOOGLE_CLIENT_ID'),
@@ -23,70 +28,56 @@ export class GoogleStrategy extends PassportStrategy(Strategy, 'google') {
       callbackURL: configService.get<string>('CALLBACK_URL'),
       scope: ['profile', 'email'],
       prompt: 'select_account',
+      passReqToCallback: true,
     });
   }
 
   /**
    * Validates the user profile retrieved from Google OAuth.
-   * If the user does not exist, creates a new user in the system.
-   * Generates and returns a JWT access token for the authenticated user.
-   * @param profile The user's profile retrieved from Google OAuth.
+   * When the flow links an account, links the Google account to the signed-in user.
+   * Otherwise finds the user linked to the Google account, links it to the user with the same email,
+   * or creates a new user in the system.
+   * @param req The callback request, carrying the link token as OAuth state and its nonce cookie when linking.
    * @param _accessToken The access token provided by Google (not used).
    * @param _refreshToken The refresh token provided by Google (not used).
-   * @param done Callback function to indicate the completion of the authentication process.
+   * @param profile The user's profile retrieved from Google OAuth.
+   * @returns The user, attached to the request by Passport.
+   * @throws UnauthorizedException if the Google account has no email address.
    */
   async validate(
-    profile: Profile,
+    req: Request,
     _accessToken: string,
     _refreshToken: string,
-    done: VerifyCallback,
+    profile: Profile,
   ) {
-    // Initialize payload data for JWT token.
-    let payloadData: { id: string; email: string };
-
-    // Extract relevant data from the Google profile.
-    const { id, displayName, emails, photos } = profile;
-    const email = emails.at(0).value;
-    const avatar = photos.at(0).value;
-
-    // Split display name into first name and last name.
-    const splittedName = displayName.split(' ');
-    const firstName = splittedName.at(0);
-    const lastName = splittedName.at(1) ?? undefined;
-
-    // Check if the user exists in the database.
-    const user = await this.usersService.validateUser(email);
-    // If user does not exist, create a new user in the system.
-    if (!user) {
-      const newUser = await this.usersService.createUser({
-        userInputs: { email, avatar },
-        profileInputs: { firstName, lastName },
-        accountInputs: { providerId: id, providerType: 'google' },
+    // Link the Google account to the user who started the flow
+    const { state } = req.query;
+    if (typeof state === 'string')
+      return this.accountsService.link({
+        linkToken: state,
+        nonce: req.cookies?.[LINK_NONCE_COOKIE],
+        providerType: OAuthProvider.GOOGLE,
+        providerId: profile.id,
       });
 
-      // Assign new user's data to payload.
-      payloadData.id = newUser.id;
-      payloadData.email = newUser.email;
-    }
-    // If user already exists, use existing user's data.
-    else {
-      payloadData.id = user.id;
-      payloadData.email = user.email;
-    }
-
-    // Create payload for JWT token.
-    const payload = { sub: payloadData.id, email: payloadData.email };
-    // Generate JWT access token.
-    const accessToken = await this.jwtService.signAsync(payload);
+    // Extract relevant data from the Google profile.
+    const { id, displayName, name, emails, photos } = profile;
+    const email = emails?.at(0);
+    if (!email) throw new UnauthorizedException('Google account has no email');
 
-    // Prepare data to be sent back to the authentication process.
-    const userData = {
-      accessToken,
-      message: 'successfully logged-in using google',
-      statusCode: HttpStatus.OK,
-    };
+    // Prefer the structured name, falling back to splitting the display name.
+    const [firstName, lastName] = name?.givenName
+      ? [name.givenName, name.familyName]
+      : displayName.split(' ');
 
-    // Call the done callback to indicate successful authentication.
-    done(null, profile);
+    return this.authenticationService.validateOAuthUser({
+      providerType: OAuthProvider.GOOGLE,
+      providerId: id,
+      email: email.value.toLowerCase(),
+      emailVerified: email.verified === true,
+      avatar: photos?.at(0)?.value,
+      firstName: firstName.toLowerCase(),
+      lastName: lastName?.toLowerCase(),
+    });
   }
 }
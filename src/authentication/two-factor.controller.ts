@@ -0,0 +1,121 @@
+import {
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Ip,
+  Post,
+  Request,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiConflictResponse,
+  ApiInternalServerErrorResponse,
+  ApiOkResponse,
+  ApiTags,
+  ApiTooManyRequestsResponse,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { Public } from './decorators/public.decorator';
+import { TwoFactorCodeDto } from './dto/two-factor-code.dto';
+import { VerifyTwoFactorDto } from './dto/verify-two-factor.dto';
+import { TwoFactorService } from './two-factor.service';
+
+@Controller('auth/2fa')
+@ApiTags('Authentication')
+export class TwoFactorController {
+  constructor(private readonly twoFactorService: TwoFactorService) {}
+
+  /**
+   * Starts enrolling the authenticated user in two-factor authentication.
+   * @param req - The request object containing the authenticated user's information.
+   * @returns The secret, its otpauth URI and a QR code to scan with an authenticator app.
+   */
+  @ApiBearerAuth()
+  @Post('enroll')
+  @HttpCode(HttpStatus.OK)
+  @ApiOkResponse({ description: 'Enrollment started.' })
+  @ApiConflictResponse({ description: 'Two-factor authentication enabled.' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error.' })
+  async enroll(@Request() req) {
+    return this.twoFactorService.enroll(req.user.sub);
+  }
+
+  /**
+   * Enables two-factor authentication with a code from the authenticator app.
+   * @param req - The request object containing the authenticated user's information.
+   * @param twoFactorCodeDto - Object containing the code.
+   * @returns The recovery codes, shown only this once.
+   */
+  @ApiBearerAuth()
+  @Post('confirm')
+  @HttpCode(HttpStatus.OK)
+  @ApiOkResponse({ description: 'Two-factor authentication enabled.' })
+  @ApiBadRequestResponse({ description: 'Invalid two-factor code.' })
+  @ApiConflictResponse({ description: 'Two-factor authentication enabled.' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error.' })
+  async confirm(
+    @Request() req,
+    @Body(new ValidationPipe({ transform: true }))
+    twoFactorCodeDto: TwoFactorCodeDto,
+  ) {
+    return this.twoFactorService.confirm({
+      userId: req.user.sub,
+      code: twoFactorCodeDto.code,
+    });
+  }
+
+  /**
+   * Disables two-factor authentication with a code from the authenticator app or a recovery code.
+   * @param req - The request object containing the authenticated user's information.
+   * @param twoFactorCodeDto - Object containing the code.
+   * @returns A message indicating the success of the change.
+   */
+  @ApiBearerAuth()
+  @Post('disable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOkResponse({ description: 'Two-factor authentication disabled.' })
+  @ApiBadRequestResponse({ description: 'Invalid two-factor code.' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error.' })
+  async disable(
+    @Request() req,
+    @Body(new ValidationPipe({ transform: true }))
+    twoFactorCodeDto: TwoFactorCodeDto,
+  ) {
+    return this.twoFactorService.disable({
+      userId: req.user.sub,
+      code: twoFactorCodeDto.code,
+    });
+  }
+
+  /**
+   * Finishes a sign-in with the second factor, exchanging the challenge token for access and refresh tokens.
+   * A challenge token allows a few tries at the code; wrong codes count towards the account lockout.
+   * @param verifyTwoFactorDto - Object containing the challenge token and the code.
+   * @param ip - The IP address of the client.
+   * @param userAgent - The user agent of the client.
+   * @returns An object with access and refresh tokens.
+   */
+  @Public()
+  @Post('verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOkResponse({ description: 'Successfully logged in.' })
+  @ApiUnauthorizedResponse({
+    description: 'Unauthorized: Invalid challenge token or two-factor code.',
+  })
+  @ApiTooManyRequestsResponse({
+    description: 'Too many failed attempts, account or IP address locked out.',
+  })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error.' })
+  async verify(
+    @Body(new ValidationPipe({ transform: true }))
+    verifyTwoFactorDto: VerifyTwoFactorDto,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent: string,
+  ) {
+    return this.twoFactorService.verify(verifyTwoFactorDto, { ip, userAgent });
+  }
+}
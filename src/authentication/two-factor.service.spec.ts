@@ -0,0 +1,291 @@
+import {
+  BadRequestException,
+  ConflictException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ThrottlerException } from '@nestjs/throttler';
+import { createHash } from 'crypto';
+import { authenticator } from 'otplib';
+import { DatabasesService } from 'src/databases/databases.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { SessionsService } from './sessions.service';
+import { TwoFactorService } from './two-factor.service';
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+  const secret = authenticator.generateSecret();
+  const prisma = {
+    user: { findUnique: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    recoveryCode: {
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    twoFactorChallenge: {
+      create: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+  const jwtService = { signAsync: jest.fn(), verifyAsync: jest.fn() };
+  const sessionsService = { start: jest.fn() };
+  const loginAttemptsService = {
+    assertNotLocked: jest.fn(),
+    recordFailure: jest.fn(),
+    recordSuccess: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TwoFactorService,
+        { provide: DatabasesService, useValue: prisma },
+        { provide: JwtService, useValue: jwtService },
+        { provide: SessionsService, useValue: sessionsService },
+        { provide: LoginAttemptsService, useValue: loginAttemptsService },
+        { provide: ConfigService, useValue: { get: jest.fn(() => 'Blog') } },
+      ],
+    }).compile();
+
+    service = module.get<TwoFactorService>(TwoFactorService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('enroll', () => {
+    it('should return an otpauth URI and its QR code', async () => {
+      prisma.user.findUnique.mockResolvedValue({
+        email: 'wina@email.com',
+        twoFactorEnabledAt: null,
+      });
+
+      const { data } = await service.enroll('user-1');
+
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { twoFactorSecret: data.secret },
+      });
+      expect(data.otpauthUri).toMatch(
+        /^otpauth:\/\/totp\/Blog:wina%40email\.com\?secret=/,
+      );
+      expect(data.qrCode).toMatch(/^data:image\/png;base64,/);
+    });
+
+    it('should refuse users who already enabled it', async () => {
+      prisma.user.findUnique.mockResolvedValue({
+        email: 'wina@email.com',
+        twoFactorEnabledAt: new Date(),
+      });
+
+      await expect(service.enroll('user-1')).rejects.toBeInstanceOf(
+        ConflictException,
+      );
+    });
+  });
+
+  describe('confirm', () => {
+    it('should enable it and store hashed recovery codes', async () => {
+      prisma.user.findUnique.mockResolvedValue({
+        twoFactorSecret: secret,
+        twoFactorEnabledAt: null,
+      });
+
+      const { data } = await service.confirm({
+        userId: 'user-1',
+        code: authenticator.generate(secret),
+      });
+
+      expect(data.recoveryCodes).toHaveLength(10);
+      const { data: stored } = prisma.recoveryCode.createMany.mock.calls[0][0];
+      expect(stored[0]).toEqual({
+        userId: 'user-1',
+        codeHash: createHash('sha256')
+          .update(data.recoveryCodes[0])
+          .digest('hex'),
+      });
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { twoFactorEnabledAt: expect.any(Date) },
+      });
+    });
+
+    it('should refuse a wrong code', async () => {
+      prisma.user.findUnique.mockResolvedValue({
+        twoFactorSecret: secret,
+        twoFactorEnabledAt: null,
+      });
+
+      await expect(
+        service.confirm({ userId: 'user-1', code: 'nope' }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('challenge', () => {
+    it('should sign a token naming the challenge that counts the tries', async () => {
+      prisma.twoFactorChallenge.create.mockResolvedValue({ id: 'challenge-1' });
+      jwtService.signAsync.mockResolvedValue('challenge-token');
+
+      await expect(service.challenge({ id: 'user-1' })).resolves.toBe(
+        'challenge-token',
+      );
+      expect(prisma.twoFactorChallenge.create).toHaveBeenCalledWith({
+        data: { userId: 'user-1' },
+      });
+      expect(jwtService.signAsync).toHaveBeenCalledWith(
+        { sub: 'user-1', purpose: '2fa-pending' },
+        { expiresIn: 300, jwtid: 'challenge-1' },
+      );
+    });
+  });
+
+  describe('verify', () => {
+    const user = {
+      id: 'user-1',
+      email: 'wina@email.com',
+      twoFactorSecret: secret,
+      twoFactorEnabledAt: new Date(),
+    };
+
+    beforeEach(() => {
+      jwtService.verifyAsync.mockResolvedValue({
+        sub: 'user-1',
+        purpose: '2fa-pending',
+        jti: 'challenge-1',
+      });
+      prisma.user.findUnique.mockResolvedValue(user);
+      prisma.user.updateMany.mockResolvedValue({ count: 1 });
+      prisma.twoFactorChallenge.updateMany.mockResolvedValue({ count: 1 });
+      sessionsService.start.mockResolvedValue({
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+      });
+    });
+
+    it('should issue tokens for a code from the authenticator app', async () => {
+      const result = await service.verify({
+        challengeToken: 'challenge',
+        code: authenticator.generate(secret),
+      });
+
+      expect(sessionsService.start).toHaveBeenCalledWith(user, {});
+      expect(result).toMatchObject({ accessToken: 'access-token' });
+      expect(prisma.twoFactorChallenge.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'challenge-1' },
+      });
+      expect(loginAttemptsService.recordSuccess).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-1', method: 'TWO_FACTOR' }),
+      );
+    });
+
+    it('should refuse a code from the authenticator app already used', async () => {
+      prisma.user.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.verify({
+          challengeToken: 'challenge',
+          code: authenticator.generate(secret),
+        }),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'user-1',
+          OR: [
+            { twoFactorLastStep: null },
+            { twoFactorLastStep: { lt: expect.any(Number) } },
+          ],
+        },
+        data: { twoFactorLastStep: expect.any(Number) },
+      });
+      expect(sessionsService.start).not.toHaveBeenCalled();
+    });
+
+    it('should count a wrong code as a failed login of the account', async () => {
+      prisma.recoveryCode.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.verify(
+          { challengeToken: 'challenge', code: 'nope' },
+          { ip: '203.0.113.7' },
+        ),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      expect(loginAttemptsService.recordFailure).toHaveBeenCalledWith({
+        email: 'wina@email.com',
+        userId: 'user-1',
+        method: 'TWO_FACTOR',
+        client: { ip: '203.0.113.7' },
+      });
+    });
+
+    it('should refuse a challenge used up by wrong codes', async () => {
+      prisma.twoFactorChallenge.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.verify({
+          challengeToken: 'challenge',
+          code: authenticator.generate(secret),
+        }),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      expect(prisma.twoFactorChallenge.updateMany).toHaveBeenCalledWith({
+        where: { id: 'challenge-1', userId: 'user-1', attempts: { lt: 3 } },
+        data: { attempts: { increment: 1 } },
+      });
+      expect(prisma.user.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should refuse codes while the account is locked out', async () => {
+      loginAttemptsService.assertNotLocked.mockRejectedValue(
+        new ThrottlerException(),
+      );
+
+      await expect(
+        service.verify({
+          challengeToken: 'challenge',
+          code: authenticator.generate(secret),
+        }),
+      ).rejects.toBeInstanceOf(ThrottlerException);
+      expect(prisma.twoFactorChallenge.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should accept a recovery code only once', async () => {
+      prisma.recoveryCode.updateMany.mockResolvedValueOnce({ count: 1 });
+      prisma.recoveryCode.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await service.verify({ challengeToken: 'challenge', code: 'A1B2C3D4E5' });
+      await expect(
+        service.verify({ challengeToken: 'challenge', code: 'a1b2c3d4e5' }),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+
+      expect(prisma.recoveryCode.updateMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-1',
+          codeHash: createHash('sha256').update('a1b2c3d4e5').digest('hex'),
+          usedAt: null,
+        },
+        data: { usedAt: expect.any(Date) },
+      });
+      expect(sessionsService.start).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse tokens that are not login challenges', async () => {
+      jwtService.verifyAsync.mockResolvedValue({ sub: 'user-1', sid: 's-1' });
+
+      await expect(
+        service.verify({
+          challengeToken: 'access-token',
+          code: authenticator.generate(secret),
+        }),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      expect(sessionsService.start).not.toHaveBeenCalled();
+    });
+  });
+});
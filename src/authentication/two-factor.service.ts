@@ -0,0 +1,402 @@
+import {
+  BadRequestException,
+  ConflictException,
+  HttpStatus,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { ThrottlerException } from '@nestjs/throttler';
+import { LoginMethod, User } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { authenticator } from 'otplib';
+import { toDataURL } from 'qrcode';
+import { DatabasesService } from 'src/databases/databases.service';
+import { ClientInfo } from './interfaces/client-info.interface';
+import { LoginAttemptsService } from './login-attempts.service';
+import { SessionsService } from './sessions.service';
+
+// Purpose claim of the tokens standing for a login waiting for its second factor
+const CHALLENGE_PURPOSE = '2fa-pending';
+
+// A login challenge lasts a few minutes, for a few tries at the code
+const CHALLENGE_TTL = 5 * 60 * 1000; // 5 minutes
+const CHALLENGE_MAX_ATTEMPTS = 3;
+
+// Number of recovery codes handed out when two-factor authentication is enabled
+const RECOVERY_CODE_COUNT = 10;
+
+// Accept the codes of the previous and next 30-second steps, for clocks running a bit off
+const TOTP_STEP = 30; // seconds
+const totp = authenticator.clone({ step: TOTP_STEP, window: 1 });
+
+/**
+ * TOTP two-factor authentication: enrollment with an authenticator app, one-time recovery codes,
+ * and the second step of logins for users who enabled it.
+ */
+@Injectable()
+export class TwoFactorService {
+  constructor(
+    private prisma: DatabasesService,
+    private jwtService: JwtService,
+    private sessionsService: SessionsService,
+    private loginAttemptsService: LoginAttemptsService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Start enrolling a user: generate a new secret to add to an authenticator app.
+   * Two-factor authentication is only enabled once a code from the app is confirmed.
+   * @param userId - ID of the user.
+   * @returns A response containing the secret, its otpauth URI and a QR code of the URI.
+   * @throws NotFoundException if the user is not found.
+   * @throws ConflictException if two-factor authentication is already enabled.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async enroll(userId: string) {
+    try {
+      // Find the user
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { email: true, twoFactorEnabledAt: true },
+      });
+      if (!user) throw new NotFoundException('User not found');
+      if (user.twoFactorEnabledAt)
+        throw new ConflictException(
+          'Two-factor authentication already enabled',
+        );
+
+      // Replace any secret of an enrollment that was never confirmed
+      const secret = totp.generateSecret();
+      await this.prisma.user.update({
+        where: { id: userId },
+        data: { twoFactorSecret: secret },
+      });
+
+      // Authenticator apps add the account by scanning the URI as a QR code
+      const otpauthUri = totp.keyuri(
+        user.email,
+        this.configService.get<string>('TWO_FACTOR_ISSUER') || 'Blog',
+        secret,
+      );
+
+      return {
+        message:
+          'Scan the QR code and confirm a code to enable two-factor authentication',
+        statusCode: HttpStatus.OK,
+        data: { secret, otpauthUri, qrCode: await toDataURL(otpauthUri) },
+      };
+    } catch (error) {
+      // If the error is a NotFoundException or ConflictException, re-throw it
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ConflictException
+      ) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to enroll two-factor authentication.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Enable two-factor authentication with a code from the authenticator app, proving it was set up.
+   * @param params - Parameters including the user ID and the code.
+   * @returns A response containing the recovery codes, which are only shown this once.
+   * @throws BadRequestException if enrollment was not started or the code is wrong.
+   * @throws ConflictException if two-factor authentication is already enabled.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async confirm(params: { userId: string; code: string }) {
+    const { userId, code } = params;
+
+    try {
+      // Find the user with the secret of their enrollment
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { twoFactorSecret: true, twoFactorEnabledAt: true },
+      });
+      if (user?.twoFactorEnabledAt)
+        throw new ConflictException(
+          'Two-factor authentication already enabled',
+        );
+      if (!user?.twoFactorSecret)
+        throw new BadRequestException(
+          'Start two-factor authentication enrollment first',
+        );
+      if (!totp.check(code, user.twoFactorSecret))
+        throw new BadRequestException('Invalid two-factor code');
+
+      // Store only the hashes of the recovery codes
+      const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+        randomBytes(5).toString('hex'),
+      );
+      await this.prisma.$transaction([
+        this.prisma.recoveryCode.deleteMany({ where: { userId } }),
+        this.prisma.recoveryCode.createMany({
+          data: recoveryCodes.map((recoveryCode) => ({
+            userId,
+            codeHash: this.hash(recoveryCode),
+          })),
+        }),
+        this.prisma.user.update({
+          where: { id: userId },
+          data: { twoFactorEnabledAt: new Date() },
+        }),
+      ]);
+
+      return {
+        message: 'Enable two-factor authentication successfully',
+        statusCode: HttpStatus.OK,
+        data: { recoveryCodes },
+      };
+    } catch (error) {
+      // If the error is a BadRequestException or ConflictException, re-throw it
+      if (
+        error instanceof BadRequestException ||
+        error instanceof ConflictException
+      ) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to enable two-factor authentication.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Disable two-factor authentication, with a code from the authenticator app or a recovery code.
+   * @param params - Parameters including the user ID and the code.
+   * @returns A response indicating the success of the change.
+   * @throws BadRequestException if two-factor authentication is not enabled or the code is wrong.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async disable(params: { userId: string; code: string }) {
+    const { userId, code } = params;
+
+    try {
+      // Find the user
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+      });
+      if (!user?.twoFactorEnabledAt)
+        throw new BadRequestException('Two-factor authentication not enabled');
+      if (!(await this.checkCode(user, code)))
+        throw new BadRequestException('Invalid two-factor code');
+
+      // Forget the secret and the recovery codes
+      await this.prisma.$transaction([
+        this.prisma.recoveryCode.deleteMany({ where: { userId } }),
+        this.prisma.user.update({
+          where: { id: userId },
+          data: { twoFactorSecret: null, twoFactorEnabledAt: null },
+        }),
+      ]);
+
+      return {
+        message: 'Disable two-factor authentication successfully',
+        statusCode: HttpStatus.OK,
+      };
+    } catch (error) {
+      // If the error is a BadRequestException, re-throw it
+      if (error instanceof BadRequestException) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to disable two-factor authentication.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Sign the challenge token of a login waiting for its second factor.
+   * It is only good for `POST /auth/2fa/verify`, for a few minutes and a few tries at the code.
+   * @param user - The user who passed the first factor.
+   * @returns The challenge token.
+   */
+  async challenge(user: Pick<User, 'id'>) {
+    // Forget the challenges of the user that expired
+    await this.prisma.twoFactorChallenge.deleteMany({
+      where: {
+        userId: user.id,
+        createdAt: { lt: new Date(Date.now() - CHALLENGE_TTL) },
+      },
+    });
+
+    // Keep track of the tries at the code
+    const { id } = await this.prisma.twoFactorChallenge.create({
+      data: { userId: user.id },
+    });
+
+    return this.jwtService.signAsync(
+      { sub: user.id, purpose: CHALLENGE_PURPOSE },
+      { expiresIn: CHALLENGE_TTL / 1000, jwtid: id },
+    );
+  }
+
+  /**
+   * Finish a login with the second factor, starting a new session.
+   * Wrong codes count as failed logins of the account, and use up the challenge after a few tries.
+   * @param params - Parameters including the challenge token of the login and the code.
+   * @param client - The IP address and user agent of the device logging in.
+   * @returns An object with a short-lived accessToken and a refreshToken.
+   * @throws UnauthorizedException if the challenge token is invalid, expired or used up, or the code is wrong.
+   * @throws ThrottlerException if the account or the IP address is locked out.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async verify(
+    params: { challengeToken: string; code: string },
+    client: ClientInfo = {},
+  ) {
+    const { challengeToken, code } = params;
+
+    try {
+      // Find out whose login is waiting for the second factor
+      const payload = await this.jwtService
+        .verifyAsync(challengeToken)
+        .catch(() => undefined);
+      if (payload?.purpose !== CHALLENGE_PURPOSE)
+        throw new UnauthorizedException('Invalid challenge token');
+
+      // Find the user
+      const user = await this.prisma.user.findUnique({
+        where: { id: payload.sub },
+      });
+      if (!user?.twoFactorEnabledAt)
+        throw new UnauthorizedException('Invalid two-factor code');
+
+      // Refuse attempts while the account or the IP address is locked out
+      await this.loginAttemptsService.assertNotLocked({
+        email: user.email,
+        ip: client.ip,
+      });
+
+      // Take a try at the code from the challenge, in the database so concurrent tries all count
+      const { count } = await this.prisma.twoFactorChallenge.updateMany({
+        where: {
+          id: payload.jti,
+          userId: user.id,
+          attempts: { lt: CHALLENGE_MAX_ATTEMPTS },
+        },
+        data: { attempts: { increment: 1 } },
+      });
+      if (!count)
+        throw new UnauthorizedException(
+          'Two-factor challenge used up, log in again',
+        );
+
+      // Check the code, counting a wrong one as a failed login
+      if (!(await this.checkCode(user, code))) {
+        await this.loginAttemptsService.recordFailure({
+          email: user.email,
+          userId: user.id,
+          method: LoginMethod.TWO_FACTOR,
+          client,
+        });
+        throw new UnauthorizedException('Invalid two-factor code');
+      }
+
+      // The challenge is done with, and the login complete
+      await this.prisma.twoFactorChallenge.deleteMany({
+        where: { id: payload.jti },
+      });
+      await this.loginAttemptsService.recordSuccess({
+        userId: user.id,
+        email: user.email,
+        method: LoginMethod.TWO_FACTOR,
+        client,
+      });
+
+      // Start a session and issue its tokens
+      const { accessToken, refreshToken } = await this.sessionsService.start(
+        user,
+        client,
+      );
+
+      return {
+        accessToken,
+        refreshToken,
+        message: 'Login successfully',
+        statusCode: HttpStatus.OK,
+      };
+    } catch (error) {
+      // If the error is an UnauthorizedException or ThrottlerException, re-throw it
+      if (
+        error instanceof UnauthorizedException ||
+        error instanceof ThrottlerException
+      ) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to verify two-factor code.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Check a code from the authenticator app, or else use up a recovery code.
+   * A code from the app is accepted once: only codes of later time steps than the last accepted one are.
+   * @param user - The user with two-factor authentication enabled.
+   * @param code - The code.
+   * @returns True if the code is valid.
+   */
+  private async checkCode(
+    user: Pick<User, 'id' | 'twoFactorSecret'>,
+    code: string,
+  ) {
+    const delta = totp.checkDelta(code, user.twoFactorSecret);
+    if (delta !== null) {
+      // Moving the last accepted step forward fails for a code already used
+      const step = Math.floor(Date.now() / 1000 / TOTP_STEP) + delta;
+      const { count } = await this.prisma.user.updateMany({
+        where: {
+          id: user.id,
+          OR: [
+            { twoFactorLastStep: null },
+            { twoFactorLastStep: { lt: step } },
+          ],
+        },
+        data: { twoFactorLastStep: step },
+      });
+
+      return count > 0;
+    }
+
+    // A recovery code works once: marking it used fails for a code already used
+    const { count } = await this.prisma.recoveryCode.updateMany({
+      where: {
+        userId: user.id,
+        codeHash: this.hash(code.trim().toLowerCase()),
+        usedAt: null,
+      },
+      data: { usedAt: new Date() },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Hash a recovery code for storage and lookup.
+   * @param code - The recovery code.
+   * @returns The SHA-256 hash of the code.
+   */
+  private hash(code: string) {
+    return createHash('sha256').update(code).digest('hex');
+  }
+}
@@ -0,0 +1,20 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CommentsController } from './comments.controller';
+import { CommentsService } from './comments.service';
+
+describe('CommentsController', () => {
+  let controller: CommentsController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [CommentsController],
+      providers: [{ provide: CommentsService, useValue: {} }],
+    }).compile();
+
+    controller = module.get<CommentsController>(CommentsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,162 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Req,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiCreatedResponse,
+  ApiForbiddenResponse,
+  ApiInternalServerErrorResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Public } from 'src/authentication/decorators/public.decorator';
+import { CommentsService } from './comments.service';
+import { CreateCommentDto } from './dto/create-comment.dto';
+import { FindCommentsQuery } from './dto/find-comments-query.dto';
+import { UpdateCommentDto } from './dto/update-comment.dto';
+
+@Controller('posts/:slug/comments')
+@ApiTags('Comments')
+export class CommentsController {
+  constructor(private readonly commentsService: CommentsService) {}
+
+  /**
+   * Retrieves the top-level comment threads of a post.
+   * @param slug - The slug of the post.
+   * @param query - Pagination parameters.
+   * @param req - The request object containing the authenticated user's information, if any.
+   * @returns A response containing the threads with their reply counts.
+   */
+  @ApiOkResponse({ description: 'Get comments successfully' })
+  @ApiNotFoundResponse({ description: 'Post not found' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @Public()
+  @Get()
+  async getComments(
+    @Param('slug') slug: string,
+    @Query(new ValidationPipe({ transform: true })) query: FindCommentsQuery,
+    @Req() req,
+  ) {
+    return this.commentsService.getThreads({
+      slug,
+      userId: req.user?.sub,
+      take: query.take,
+      skip: query.skip,
+    });
+  }
+
+  /**
+   * Retrieves the direct replies to a comment.
+   * @param slug - The slug of the post.
+   * @param id - The ID of the comment.
+   * @param query - Pagination parameters.
+   * @param req - The request object containing the authenticated user's information, if any.
+   * @returns A response containing the replies with their own reply counts.
+   */
+  @ApiOkResponse({ description: 'Get replies successfully' })
+  @ApiNotFoundResponse({ description: 'Post or comment not found' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @Public()
+  @Get(':id/replies')
+  async getReplies(
+    @Param('slug') slug: string,
+    @Param('id') id: string,
+    @Query(new ValidationPipe({ transform: true })) query: FindCommentsQuery,
+    @Req() req,
+  ) {
+    return this.commentsService.getReplies({
+      slug,
+      commentId: id,
+      userId: req.user?.sub,
+      take: query.take,
+      skip: query.skip,
+    });
+  }
+
+  /**
+   * Creates a comment on a post, or a reply when a parent comment is given.
+   * @param slug - The slug of the post.
+   * @param req - The request object containing the authenticated user's information.
+   * @param createCommentDto - The DTO containing the comment content.
+   * @returns A response containing the new comment.
+   */
+  @ApiBearerAuth()
+  @ApiCreatedResponse({ description: 'Create comment successfully' })
+  @ApiBadRequestResponse({ description: 'Cannot reply to a deleted comment' })
+  @ApiNotFoundResponse({ description: 'Post or comment not found' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @Post()
+  async createComment(
+    @Param('slug') slug: string,
+    @Req() req,
+    @Body(new ValidationPipe({ transform: true }))
+    createCommentDto: CreateCommentDto,
+  ) {
+    return this.commentsService.create({
+      slug,
+      userId: req.user.sub,
+      createCommentDto,
+    });
+  }
+
+  /**
+   * Edits a comment written by the authenticated user.
+   * @param slug - The slug of the post.
+   * @param id - The ID of the comment.
+   * @param req - The request object containing the authenticated user's information.
+   * @param updateCommentDto - The DTO containing the new content.
+   * @returns A response containing the updated comment.
+   */
+  @ApiBearerAuth()
+  @ApiOkResponse({ description: 'Update comment successfully' })
+  @ApiForbiddenResponse({ description: 'Not the author of the comment' })
+  @ApiNotFoundResponse({ description: 'Post or comment not found' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @Patch(':id')
+  async updateComment(
+    @Param('slug') slug: string,
+    @Param('id') id: string,
+    @Req() req,
+    @Body(new ValidationPipe({ transform: true }))
+    updateCommentDto: UpdateCommentDto,
+  ) {
+    return this.commentsService.update({
+      slug,
+      id,
+      userId: req.user.sub,
+      updateCommentDto,
+    });
+  }
+
+  /**
+   * Soft-deletes a comment. The comment author and the post author may delete it.
+   * @param slug - The slug of the post.
+   * @param id - The ID of the comment.
+   * @param req - The request object containing the authenticated user's information.
+   * @returns A response indicating the success of the deletion.
+   */
+  @ApiBearerAuth()
+  @ApiOkResponse({ description: 'Delete comment successfully' })
+  @ApiForbiddenResponse({ description: 'Not allowed to delete the comment' })
+  @ApiNotFoundResponse({ description: 'Post or comment not found' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @Delete(':id')
+  async deleteComment(
+    @Param('slug') slug: string,
+    @Param('id') id: string,
+    @Req() req,
+  ) {
+    return this.commentsService.remove({ slug, id, userId: req.user.sub });
+  }
+}
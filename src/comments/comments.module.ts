@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { DatabasesModule } from 'src/databases/databases.module';
+import { PostsModule } from 'src/posts/posts.module';
+import { CommentsController } from './comments.controller';
+import { CommentsService } from './comments.service';
+
+@Module({
+  imports: [DatabasesModule, PostsModule],
+  controllers: [CommentsController],
+  providers: [CommentsService],
+})
+export class CommentsModule {}
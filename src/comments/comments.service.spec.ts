@@ -0,0 +1,123 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DatabasesService } from 'src/databases/databases.service';
+import { PostsService } from 'src/posts/services/posts.service';
+import { CommentsService } from './comments.service';
+
+describe('CommentsService', () => {
+  let service: CommentsService;
+  const prisma = {
+    comment: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+  const postsService = {
+    findOne: jest.fn(),
+    visibleTo: jest.fn(),
+  };
+  const post = { id: 'post-1', authorId: 'post-author', slug: 'a-post' };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    postsService.findOne.mockResolvedValue(post);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CommentsService,
+        { provide: DatabasesService, useValue: prisma },
+        { provide: PostsService, useValue: postsService },
+      ],
+    }).compile();
+
+    service = module.get<CommentsService>(CommentsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('getThreads', () => {
+    it('should hide the content of deleted comments', async () => {
+      prisma.$transaction.mockResolvedValue([
+        [
+          { id: 'c1', body: 'hello', authorId: 'u1', deletedAt: null },
+          { id: 'c2', body: 'gone', authorId: 'u2', deletedAt: new Date() },
+        ],
+        2,
+      ]);
+
+      const result = await service.getThreads({
+        slug: 'a-post',
+        take: 20,
+        skip: 0,
+      });
+
+      expect(result.data[0].body).toBe('hello');
+      expect(result.data[1]).toMatchObject({ body: null, authorId: null });
+      expect(result.meta).toEqual({ total: 2, take: 20, skip: 0 });
+    });
+
+    it('should throw NotFoundException for a post the reader cannot see', async () => {
+      postsService.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.getThreads({ slug: 'draft', take: 20, skip: 0 }),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+
+  describe('create', () => {
+    it('should refuse replies to deleted comments', async () => {
+      prisma.comment.findFirst.mockResolvedValue({
+        id: 'c1',
+        deletedAt: new Date(),
+      });
+
+      await expect(
+        service.create({
+          slug: 'a-post',
+          userId: 'u1',
+          createCommentDto: { body: 'reply', parentId: 'c1' },
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+
+  describe('remove', () => {
+    const comment = {
+      id: 'c1',
+      postId: 'post-1',
+      authorId: 'commenter',
+      deletedAt: null,
+    };
+
+    it('should let the post author delete any comment on their post', async () => {
+      prisma.comment.findFirst.mockResolvedValue(comment);
+
+      await service.remove({ slug: 'a-post', id: 'c1', userId: 'post-author' });
+
+      expect(prisma.comment.update).toHaveBeenCalledWith({
+        where: { id: 'c1' },
+        data: { deletedAt: expect.any(Date) },
+      });
+    });
+
+    it('should forbid other users from deleting the comment', async () => {
+      prisma.comment.findFirst.mockResolvedValue(comment);
+
+      await expect(
+        service.remove({ slug: 'a-post', id: 'c1', userId: 'someone-else' }),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(prisma.comment.update).not.toHaveBeenCalled();
+    });
+  });
+});
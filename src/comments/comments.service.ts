@@ -0,0 +1,355 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  HttpStatus,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Comment, Prisma } from '@prisma/client';
+import { DatabasesService } from 'src/databases/databases.service';
+import { PostsService } from 'src/posts/services/posts.service';
+import { CreateCommentDto } from './dto/create-comment.dto';
+import { UpdateCommentDto } from './dto/update-comment.dto';
+
+// Public fields of a comment author
+const authorSelect = {
+  id: true,
+  avatar: true,
+  profile: { select: { firstName: true, lastName: true } },
+} satisfies Prisma.UserSelect;
+
+// Relations returned with every comment
+const commentInclude = {
+  author: { select: authorSelect },
+  _count: { select: { replies: true } },
+} satisfies Prisma.CommentInclude;
+
+@Injectable()
+export class CommentsService {
+  constructor(
+    private prisma: DatabasesService,
+    private postsService: PostsService,
+  ) {}
+
+  /**
+   * Retrieve the top-level threads of a post, newest first, with their reply counts.
+   * @param params - Parameters including the post slug, reader ID, and pagination.
+   * @returns A response containing the threads and pagination details.
+   * @throws NotFoundException if the post is not found.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async getThreads(params: {
+    slug: string;
+    userId?: string;
+    take: number;
+    skip: number;
+  }) {
+    const { slug, userId, take, skip } = params;
+
+    try {
+      // Find the post visible to the reader
+      const post = await this.findVisiblePost(slug, userId);
+
+      // Retrieve a page of threads along with the total number of threads
+      const where = { postId: post.id, parentId: null };
+      const [comments, total] = await this.prisma.$transaction([
+        this.prisma.comment.findMany({
+          where,
+          include: commentInclude,
+          orderBy: { createdAt: 'desc' },
+          take,
+          skip,
+        }),
+        this.prisma.comment.count({ where }),
+      ]);
+
+      // Return a response containing the threads
+      return {
+        message: 'Get comments successfully',
+        statusCode: HttpStatus.OK,
+        data: comments.map((comment) => this.present(comment)),
+        meta: { total, take, skip },
+      };
+    } catch (error) {
+      // If the error is a NotFoundException, re-throw it
+      if (error instanceof NotFoundException) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to get comments.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Retrieve the direct replies to a comment, oldest first, with their own reply counts.
+   * @param params - Parameters including the post slug, comment ID, reader ID, and pagination.
+   * @returns A response containing the replies and pagination details.
+   * @throws NotFoundException if the post or comment is not found.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async getReplies(params: {
+    slug: string;
+    commentId: string;
+    userId?: string;
+    take: number;
+    skip: number;
+  }) {
+    const { slug, commentId, userId, take, skip } = params;
+
+    try {
+      // Find the post visible to the reader and the comment being replied to
+      const post = await this.findVisiblePost(slug, userId);
+      const parent = await this.findComment(post.id, commentId);
+
+      // Retrieve a page of replies along with the total number of replies
+      const where = { postId: post.id, parentId: parent.id };
+      const [comments, total] = await this.prisma.$transaction([
+        this.prisma.comment.findMany({
+          where,
+          include: commentInclude,
+          orderBy: { createdAt: 'asc' },
+          take,
+          skip,
+        }),
+        this.prisma.comment.count({ where }),
+      ]);
+
+      // Return a response containing the replies
+      return {
+        message: 'Get replies successfully',
+        statusCode: HttpStatus.OK,
+        data: comments.map((comment) => this.present(comment)),
+        meta: { total, take, skip },
+      };
+    } catch (error) {
+      // If the error is a NotFoundException, re-throw it
+      if (error instanceof NotFoundException) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to get replies.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Create a comment on a post, optionally as a reply to another comment.
+   * @param params - Parameters including the post slug, user ID, and comment data.
+   * @returns A response containing the new comment.
+   * @throws NotFoundException if the post or parent comment is not found.
+   * @throws BadRequestException if the parent comment has been deleted.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async create(params: {
+    slug: string;
+    userId: string;
+    createCommentDto: CreateCommentDto;
+  }) {
+    const {
+      slug,
+      userId,
+      createCommentDto: { body, parentId },
+    } = params;
+
+    try {
+      // Find the post visible to the user
+      const post = await this.findVisiblePost(slug, userId);
+
+      // Replies must target a live comment on the same post
+      if (parentId) {
+        const parent = await this.findComment(post.id, parentId);
+        if (parent.deletedAt)
+          throw new BadRequestException('cannot reply to a deleted comment');
+      }
+
+      // Create the comment
+      const comment = await this.prisma.comment.create({
+        data: {
+          body,
+          post: { connect: { id: post.id } },
+          author: { connect: { id: userId } },
+          parent: parentId ? { connect: { id: parentId } } : undefined,
+        },
+        include: commentInclude,
+      });
+
+      // Return a response containing the new comment
+      return {
+        message: 'Create comment successfully',
+        statusCode: HttpStatus.CREATED,
+        data: this.present(comment),
+      };
+    } catch (error) {
+      // If the error is a NotFoundException or BadRequestException, re-throw it
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to create comment.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Edit a comment written by the user.
+   * @param params - Parameters including the post slug, comment ID, user ID, and new content.
+   * @returns A response containing the updated comment.
+   * @throws NotFoundException if the post or comment is not found, or the comment is deleted.
+   * @throws ForbiddenException if the user did not write the comment.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async update(params: {
+    slug: string;
+    id: string;
+    userId: string;
+    updateCommentDto: UpdateCommentDto;
+  }) {
+    const { slug, id, userId, updateCommentDto } = params;
+
+    try {
+      // Find the post visible to the user and the comment to edit
+      const post = await this.findVisiblePost(slug, userId);
+      const comment = await this.findComment(post.id, id);
+
+      // Deleted comments cannot be edited, and only by their author
+      if (comment.deletedAt) throw new NotFoundException('Comment not found');
+      if (comment.authorId !== userId)
+        throw new ForbiddenException('you can only edit your own comments');
+
+      // Update the comment
+      const updatedComment = await this.prisma.comment.update({
+        where: { id: comment.id },
+        data: { body: updateCommentDto.body },
+        include: commentInclude,
+      });
+
+      // Return a response containing the updated comment
+      return {
+        message: 'Update comment successfully',
+        statusCode: HttpStatus.OK,
+        data: this.present(updatedComment),
+      };
+    } catch (error) {
+      // If the error is a NotFoundException or ForbiddenException, re-throw it
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException
+      ) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to update comment.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Soft-delete a comment. Allowed for the comment author and the author of the post.
+   * The comment stays in place so its replies keep their thread.
+   * @param params - Parameters including the post slug, comment ID, and user ID.
+   * @returns A response indicating the success of the deletion.
+   * @throws NotFoundException if the post or comment is not found, or the comment is already deleted.
+   * @throws ForbiddenException if the user may not delete the comment.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async remove(params: { slug: string; id: string; userId: string }) {
+    const { slug, id, userId } = params;
+
+    try {
+      // Find the post visible to the user and the comment to delete
+      const post = await this.findVisiblePost(slug, userId);
+      const comment = await this.findComment(post.id, id);
+      if (comment.deletedAt) throw new NotFoundException('Comment not found');
+
+      // Only the comment author or the post author may delete the comment
+      if (comment.authorId !== userId && post.authorId !== userId)
+        throw new ForbiddenException('you cannot delete this comment');
+
+      // Mark the comment as deleted
+      await this.prisma.comment.update({
+        where: { id: comment.id },
+        data: { deletedAt: new Date() },
+      });
+
+      // Return a response indicating successful deletion
+      return {
+        message: 'Delete comment successfully',
+        statusCode: HttpStatus.OK,
+      };
+    } catch (error) {
+      // If the error is a NotFoundException or ForbiddenException, re-throw it
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException
+      ) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to delete comment.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Find a post by slug that the reader is allowed to see.
+   * @param slug - The slug of the post.
+   * @param userId - ID of the reader, if authenticated.
+   * @returns The post.
+   * @throws NotFoundException if the post is not found.
+   */
+  private async findVisiblePost(slug: string, userId?: string) {
+    const post = await this.postsService.findOne({
+      AND: [{ slug }, this.postsService.visibleTo(userId)],
+    });
+    if (!post) throw new NotFoundException('Post not found');
+
+    return post;
+  }
+
+  /**
+   * Find a comment belonging to a post.
+   * @param postId - ID of the post.
+   * @param id - ID of the comment.
+   * @returns The comment.
+   * @throws NotFoundException if the comment is not found.
+   */
+  private async findComment(postId: string, id: string) {
+    const comment = await this.prisma.comment.findFirst({
+      where: { id, postId },
+    });
+    if (!comment) throw new NotFoundException('Comment not found');
+
+    return comment;
+  }
+
+  /**
+   * Hide the content and author of a deleted comment, keeping its place in the thread.
+   * @param comment - The comment to present.
+   * @returns The comment as returned to readers.
+   */
+  private present<T extends Comment>(comment: T) {
+    if (!comment.deletedAt) return comment;
+
+    return { ...comment, body: null, authorId: null, author: null };
+  }
+}
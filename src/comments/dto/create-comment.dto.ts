@@ -0,0 +1,24 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class CreateCommentDto {
+  @ApiProperty({
+    description: 'Content of the comment',
+    example: 'Great tips, the second one changed my mornings!',
+    type: String,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(5000)
+  body: string;
+
+  @ApiProperty({
+    description:
+      'ID of the comment being replied to. Omit to start a new thread.',
+    required: false,
+    type: String,
+  })
+  @IsString()
+  @IsOptional()
+  parentId?: string;
+}
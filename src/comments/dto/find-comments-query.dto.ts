@@ -0,0 +1,28 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class FindCommentsQuery {
+  @ApiProperty({
+    required: false,
+    description:
+      'Limit the number of threads returned. Must be between 1 and 100, defaults to 20.',
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  take: number = 20;
+
+  @ApiProperty({
+    required: false,
+    description:
+      'Skip a certain number of threads from the beginning. Must be a non-negative integer.',
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  skip: number = 0;
+}
@@ -0,0 +1,43 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class CursorPaginationQuery {
+  @ApiProperty({
+    required: false,
+    description:
+      'Opaque cursor returned as `meta.nextCursor` by the previous page. Omit it to get the first page.',
+  })
+  @IsString()
+  @IsOptional()
+  cursor?: string;
+
+  @ApiProperty({
+    required: false,
+    description:
+      'Limit the number of results returned. Must be between 1 and 100, defaults to 20.',
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  take: number = 20;
+
+  @ApiProperty({
+    required: false,
+    description:
+      'Also count all matching results and return the count as `meta.total`. Defaults to false.',
+  })
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  @IsOptional()
+  withTotal?: boolean;
+}
@@ -0,0 +1,76 @@
+import { BadRequestException } from '@nestjs/common';
+import { afterCursor, decodeCursor, encodeCursor, toPage } from './cursor';
+
+describe('cursor', () => {
+  it('should round-trip strings, numbers and dates', () => {
+    const date = new Date('2024-05-01T10:00:00.000Z');
+
+    expect(
+      decodeCursor(encodeCursor('title', 'A post', 'p1'), 'title', 'string'),
+    ).toEqual({ value: 'A post', id: 'p1' });
+    expect(
+      decodeCursor(encodeCursor('rank', 0.25, 'p1'), 'rank', 'number'),
+    ).toEqual({
+      value: 0.25,
+      id: 'p1',
+    });
+    expect(
+      decodeCursor(encodeCursor('createdAt', date, 'p1'), 'createdAt', 'date'),
+    ).toEqual({ value: date, id: 'p1' });
+  });
+
+  it('should reject malformed cursors and cursors of another sort key', () => {
+    expect(() => decodeCursor('not-a-cursor', 'title', 'string')).toThrow(
+      BadRequestException,
+    );
+    expect(() =>
+      decodeCursor(encodeCursor('title', 'A post', 'p1'), 'createdAt', 'date'),
+    ).toThrow(BadRequestException);
+  });
+
+  it('should reject cursors whose value is not of the kind of the sort key', () => {
+    const tampered = (payload: object) =>
+      Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+    expect(() =>
+      decodeCursor(
+        tampered({ k: 'createdAt', v: 'abc', id: 'p1' }),
+        'createdAt',
+        'date',
+      ),
+    ).toThrow(BadRequestException);
+    expect(() =>
+      decodeCursor(
+        tampered({ k: 'createdAt', d: 'abc', id: 'p1' }),
+        'createdAt',
+        'date',
+      ),
+    ).toThrow(BadRequestException);
+    expect(() =>
+      decodeCursor(encodeCursor('rank', 'abc', 'p1'), 'rank', 'number'),
+    ).toThrow(BadRequestException);
+    expect(() =>
+      decodeCursor(encodeCursor('title', 42, 'p1'), 'title', 'string'),
+    ).toThrow(BadRequestException);
+  });
+
+  it('should select the rows after the cursor, breaking ties by id', () => {
+    expect(afterCursor('title', 'asc', { value: 'b', id: 'p1' })).toEqual({
+      OR: [{ title: { gt: 'b' } }, { title: 'b', id: { gt: 'p1' } }],
+    });
+  });
+
+  it('should only return a next cursor when more rows follow', () => {
+    const rows = [{ id: 'p1' }, { id: 'p2' }, { id: 'p3' }];
+
+    expect(toPage(rows, 2, (row) => row.id)).toEqual({
+      data: rows.slice(0, 2),
+      meta: { nextCursor: 'p2', hasMore: true, total: undefined },
+    });
+    expect(toPage(rows, 3, (row) => row.id, 3).meta).toEqual({
+      nextCursor: null,
+      hasMore: false,
+      total: 3,
+    });
+  });
+});
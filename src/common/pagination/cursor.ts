@@ -0,0 +1,118 @@
+import { BadRequestException } from '@nestjs/common';
+
+export type CursorValue = string | number | Date;
+
+// Kind of value of a sort key, checked when a cursor comes back from the client
+export type CursorValueKind = 'string' | 'number' | 'date';
+
+export type Cursor = {
+  value: CursorValue;
+  id: string;
+};
+
+export type PageMeta = {
+  nextCursor: string | null;
+  hasMore: boolean;
+  total?: number;
+};
+
+/**
+ * Encodes the position after a row into an opaque cursor.
+ * @param key - Name of the sort key, so a cursor cannot be reused with another sort order.
+ * @param value - Value of the sort key of the row.
+ * @param id - ID of the row, breaking ties between equal sort keys.
+ * @returns The base64url-encoded cursor.
+ */
+export function encodeCursor(key: string, value: CursorValue, id: string) {
+  const payload =
+    value instanceof Date
+      ? { k: key, d: value.toISOString(), id }
+      : { k: key, v: value, id };
+
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decodes a cursor created by `encodeCursor`.
+ * @param cursor - The opaque cursor sent by the client.
+ * @param key - Name of the sort key the cursor must have been created for.
+ * @param kind - Kind of value of the sort key, so a tampered value never reaches the query.
+ * @returns The sort key value and ID of the row the page starts after.
+ * @throws BadRequestException if the cursor is malformed, belongs to another sort order or has a value of another kind.
+ */
+export function decodeCursor(
+  cursor: string,
+  key: string,
+  kind: CursorValueKind,
+): Cursor {
+  try {
+    const { k, d, v, id } = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString(),
+    );
+    const value = kind === 'date' ? new Date(d) : v;
+    const isValidValue =
+      kind === 'date'
+        ? typeof d === 'string' && !isNaN(value.getTime())
+        : kind === 'number'
+          ? Number.isFinite(value)
+          : typeof value === 'string';
+
+    if (k === key && typeof id === 'string' && isValidValue)
+      return { value, id };
+  } catch (error) {
+    // Fall through to the exception below
+  }
+
+  throw new BadRequestException('invalid cursor');
+}
+
+/**
+ * Builds the Prisma criteria selecting the rows after a cursor, for a sort on a field with the ID as tie-breaker.
+ * @param field - Name of the sort field.
+ * @param direction - Direction of the sort.
+ * @param cursor - The decoded cursor.
+ * @param idField - Name of the ID field, defaults to `id`.
+ * @returns The criteria matching the rows after the cursor.
+ */
+export function afterCursor(
+  field: string,
+  direction: 'asc' | 'desc',
+  cursor: Cursor,
+  idField = 'id',
+) {
+  const operator = direction === 'desc' ? 'lt' : 'gt';
+
+  return {
+    OR: [
+      { [field]: { [operator]: cursor.value } },
+      { [field]: cursor.value, [idField]: { [operator]: cursor.id } },
+    ],
+  };
+}
+
+/**
+ * Cuts the extra row fetched to detect further pages and builds the page metadata.
+ * @param rows - The rows fetched, at most `take + 1`.
+ * @param take - The page size.
+ * @param toCursor - Creates the cursor pointing after a row.
+ * @param total - The total number of rows, when requested.
+ * @returns The rows of the page and its metadata.
+ */
+export function toPage<T>(
+  rows: T[],
+  take: number,
+  toCursor: (row: T) => string,
+  total?: number,
+): { data: T[]; meta: PageMeta } {
+  const hasMore = rows.length > take;
+  const data = rows.slice(0, take);
+
+  return {
+    data,
+    meta: {
+      nextCursor: hasMore ? toCursor(data[data.length - 1]) : null,
+      hasMore,
+      total,
+    },
+  };
+}
@@ -0,0 +1,5 @@
+export enum FeedFormat {
+  RSS = 'rss',
+  ATOM = 'atom',
+  JSON = 'json',
+}
@@ -0,0 +1,68 @@
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import * as request from 'supertest';
+import { FeedsController } from './feeds.controller';
+import { FeedsService } from './feeds.service';
+
+describe('FeedsController', () => {
+  let app: INestApplication;
+  const feedsService = {
+    getPostsFeed: jest.fn(),
+    getAuthorFeed: jest.fn(),
+    getTagFeed: jest.fn(),
+  };
+  const feed = {
+    contentType: 'application/rss+xml; charset=utf-8',
+    etag: '"abc"',
+    lastModified: new Date('2024-05-03T08:30:00.000Z'),
+    body: '<rss></rss>',
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    feedsService.getPostsFeed.mockResolvedValue(feed);
+    feedsService.getTagFeed.mockResolvedValue(feed);
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [FeedsController],
+      providers: [{ provide: FeedsService, useValue: feedsService }],
+    }).compile();
+
+    app = module.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should serve the feed with its caching headers', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/feeds/posts.rss')
+      .expect(200);
+
+    expect(feedsService.getPostsFeed).toHaveBeenCalledWith('rss');
+    expect(response.headers['content-type']).toBe(feed.contentType);
+    expect(response.headers['etag']).toBe(feed.etag);
+    expect(response.headers['last-modified']).toBe(
+      'Fri, 03 May 2024 08:30:00 GMT',
+    );
+    expect(response.text).toBe(feed.body);
+  });
+
+  it('should answer 304 when the feed has not changed', async () => {
+    await request(app.getHttpServer())
+      .get('/feeds/tags/Focus/posts.atom')
+      .set('If-None-Match', feed.etag)
+      .expect(304);
+
+    expect(feedsService.getTagFeed).toHaveBeenCalledWith({
+      name: 'focus',
+      format: 'atom',
+    });
+  });
+
+  it('should reject unknown formats', async () => {
+    await request(app.getHttpServer()).get('/feeds/posts.xml').expect(400);
+  });
+});
@@ -0,0 +1,103 @@
+import { Controller, Get, Param, ParseEnumPipe, Res } from '@nestjs/common';
+import {
+  ApiInternalServerErrorResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Response } from 'express';
+import { Public } from 'src/authentication/decorators/public.decorator';
+import { FeedFormat } from './enums/feed-format.enum';
+import { FeedsService, RenderedFeed } from './feeds.service';
+
+@Controller('feeds')
+@ApiTags('Feeds')
+@ApiParam({ name: 'format', enum: FeedFormat })
+@ApiResponse({ status: 304, description: 'Feed not modified' })
+export class FeedsController {
+  constructor(private readonly feedsService: FeedsService) {}
+
+  /**
+   * Retrieves the feed of the latest published posts.
+   * @param format - The format of the feed: RSS, Atom or JSON Feed.
+   * @param res - The response, receiving the content type and caching headers.
+   * @returns The rendered feed.
+   */
+  @ApiOkResponse({ description: 'Get feed successfully' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @Public()
+  @Get('posts.:format')
+  async getPostsFeed(
+    @Param('format', new ParseEnumPipe(FeedFormat)) format: FeedFormat,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.send(res, await this.feedsService.getPostsFeed(format));
+  }
+
+  /**
+   * Retrieves the feed of an author's latest published posts.
+   * @param id - The ID of the author.
+   * @param format - The format of the feed: RSS, Atom or JSON Feed.
+   * @param res - The response, receiving the content type and caching headers.
+   * @returns The rendered feed.
+   */
+  @ApiOkResponse({ description: 'Get feed successfully' })
+  @ApiNotFoundResponse({ description: 'User not found' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @Public()
+  @Get('users/:id/posts.:format')
+  async getAuthorFeed(
+    @Param('id') id: string,
+    @Param('format', new ParseEnumPipe(FeedFormat)) format: FeedFormat,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.send(
+      res,
+      await this.feedsService.getAuthorFeed({ id, format }),
+    );
+  }
+
+  /**
+   * Retrieves the feed of the latest published posts using a tag.
+   * @param name - The name of the tag.
+   * @param format - The format of the feed: RSS, Atom or JSON Feed.
+   * @param res - The response, receiving the content type and caching headers.
+   * @returns The rendered feed.
+   */
+  @ApiOkResponse({ description: 'Get feed successfully' })
+  @ApiNotFoundResponse({ description: 'Tag not found' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @Public()
+  @Get('tags/:name/posts.:format')
+  async getTagFeed(
+    @Param('name') name: string,
+    @Param('format', new ParseEnumPipe(FeedFormat)) format: FeedFormat,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.send(
+      res,
+      await this.feedsService.getTagFeed({ name: name.toLowerCase(), format }),
+    );
+  }
+
+  /**
+   * Sets the content type and caching headers of a feed.
+   * Express answers 304 Not Modified by itself when the request's If-None-Match or If-Modified-Since match them.
+   * @param res - The response.
+   * @param feed - The rendered feed.
+   * @returns The body of the feed.
+   */
+  private send(res: Response, feed: RenderedFeed) {
+    res.set({
+      'Content-Type': feed.contentType,
+      'Cache-Control': 'public, max-age=300',
+      ETag: feed.etag,
+    });
+    if (feed.lastModified)
+      res.set('Last-Modified', feed.lastModified.toUTCString());
+
+    return feed.body;
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { DatabasesModule } from 'src/databases/databases.module';
+import { PostsModule } from 'src/posts/posts.module';
+import { FeedsController } from './feeds.controller';
+import { FeedsService } from './feeds.service';
+
+@Module({
+  imports: [DatabasesModule, PostsModule],
+  controllers: [FeedsController],
+  providers: [FeedsService],
+})
+export class FeedsModule {}
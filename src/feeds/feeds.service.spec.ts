@@ -0,0 +1,127 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DatabasesService } from 'src/databases/databases.service';
+import { CoverImagesService } from 'src/posts/services/cover-images.service';
+import { StorageService } from 'src/storage/storage.service';
+import { FeedFormat } from './enums/feed-format.enum';
+import { FeedsService } from './feeds.service';
+
+describe('FeedsService', () => {
+  let service: FeedsService;
+  const prisma = {
+    post: { findMany: jest.fn() },
+    user: { findUnique: jest.fn() },
+    tag: { findUnique: jest.fn() },
+  };
+  const config: Record<string, string> = {
+    APP_URL: 'https://api.example.com/',
+    SITE_URL: 'https://blog.example.com',
+  };
+  const post = {
+    id: 'p1',
+    slug: 'deep-work',
+    title: 'Deep work',
+    summary: 'Focus & flow',
+    cover: 'posts/deep-work-1a2b3c4d.jpg',
+    coverVariants: [
+      {
+        size: 'large',
+        format: 'webp',
+        width: 1280,
+        height: 720,
+        key: 'posts/deep-work-1a2b3c4d-large.webp',
+      },
+    ],
+    publishedAt: new Date('2024-05-01T10:00:00.000Z'),
+    updatedAt: new Date('2024-05-03T08:30:00.000Z'),
+    author: { id: 'u1', profile: { firstName: 'Ada', lastName: 'Lovelace' } },
+    tags: [{ tag: { id: 1, name: 'focus' } }],
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FeedsService,
+        { provide: DatabasesService, useValue: prisma },
+        CoverImagesService,
+        {
+          provide: StorageService,
+          useValue: {
+            getUrl: (key: string) => `https://cdn.example.com/${key}`,
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<FeedsService>(FeedsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should render published posts with absolute URLs, tags and updated dates', async () => {
+    prisma.post.findMany.mockResolvedValue([post]);
+
+    const feed = await service.getPostsFeed(FeedFormat.JSON);
+    const json = JSON.parse(feed.body);
+
+    expect(prisma.post.findMany.mock.calls[0][0].where).toEqual({
+      status: 'PUBLISHED',
+    });
+    expect(feed.contentType).toBe('application/feed+json; charset=utf-8');
+    expect(feed.lastModified).toEqual(post.updatedAt);
+    expect(json.feed_url).toBe('https://api.example.com/api/feeds/posts.json');
+    expect(json.items[0]).toMatchObject({
+      url: 'https://blog.example.com/posts/deep-work',
+      summary: 'Focus & flow',
+      image: 'https://cdn.example.com/posts/deep-work-1a2b3c4d-large.webp',
+      date_modified: post.updatedAt.toISOString(),
+      date_published: post.publishedAt.toISOString(),
+      tags: ['focus'],
+    });
+  });
+
+  it('should render RSS items with their tags and give equal feeds equal ETags', async () => {
+    prisma.post.findMany.mockResolvedValue([post]);
+
+    const first = await service.getPostsFeed(FeedFormat.RSS);
+    const second = await service.getPostsFeed(FeedFormat.RSS);
+
+    expect(first.body).toContain('<![CDATA[Focus & flow]]>');
+    expect(first.body).toContain(
+      '<category domain="https://blog.example.com/tags/focus">focus</category>',
+    );
+    expect(first.etag).toBe(second.etag);
+  });
+
+  it('should link the Atom feed of a tag to its own URL', async () => {
+    prisma.tag.findUnique.mockResolvedValue({ id: 1, name: 'focus' });
+    prisma.post.findMany.mockResolvedValue([]);
+
+    const feed = await service.getTagFeed({
+      name: 'focus',
+      format: FeedFormat.ATOM,
+    });
+
+    expect(feed.lastModified).toBeUndefined();
+    expect(feed.body).toContain(
+      '<id>https://api.example.com/api/feeds/tags/focus/posts.atom</id>',
+    );
+  });
+
+  it('should throw NotFoundException for an unknown author', async () => {
+    prisma.user.findUnique.mockResolvedValue(null);
+
+    await expect(
+      service.getAuthorFeed({ id: 'missing', format: FeedFormat.RSS }),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+});
@@ -0,0 +1,271 @@
+import {
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PostStatus, Prisma } from '@prisma/client';
+import { createHash } from 'crypto';
+import { Feed } from 'feed';
+import { DatabasesService } from 'src/databases/databases.service';
+import { CoverImagesService } from 'src/posts/services/cover-images.service';
+import { FeedFormat } from './enums/feed-format.enum';
+
+// Number of posts in a feed, newest first
+const FEED_SIZE = 20;
+
+// Content types of the feed formats
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  [FeedFormat.RSS]: 'application/rss+xml; charset=utf-8',
+  [FeedFormat.ATOM]: 'application/atom+xml; charset=utf-8',
+  [FeedFormat.JSON]: 'application/feed+json; charset=utf-8',
+};
+
+const feedPostInclude = {
+  author: { select: { id: true, profile: true } },
+  tags: { include: { tag: true } },
+} satisfies Prisma.PostInclude;
+
+type FeedPost = Prisma.PostGetPayload<{ include: typeof feedPostInclude }>;
+
+export type RenderedFeed = {
+  contentType: string;
+  etag: string;
+  lastModified?: Date;
+  body: string;
+};
+
+@Injectable()
+export class FeedsService {
+  private appUrl: string;
+  private siteUrl: string;
+  constructor(
+    private prisma: DatabasesService,
+    private configService: ConfigService,
+    private coverImagesService: CoverImagesService,
+  ) {
+    // Public URL of the API, serving feeds, and of the site showing posts to readers
+    this.appUrl = (
+      this.configService.get<string>('APP_URL') || 'http://localhost:3000'
+    ).replace(/\/+$/, '');
+    this.siteUrl = (
+      this.configService.get<string>('SITE_URL') || this.appUrl
+    ).replace(/\/+$/, '');
+  }
+
+  /**
+   * Build the feed of all published posts.
+   * @param format - Format of the feed.
+   * @returns The rendered feed with its caching validators.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async getPostsFeed(format: FeedFormat) {
+    try {
+      return await this.render({
+        format,
+        title: 'Blog Post',
+        description: 'Latest posts',
+        link: this.siteUrl,
+        path: '',
+        where: {},
+      });
+    } catch (error) {
+      // Log the error and throw an InternalServerErrorException
+      console.error(error);
+      throw new InternalServerErrorException(
+        'Something went wrong. Failed to build feed.',
+      );
+    }
+  }
+
+  /**
+   * Build the feed of an author's published posts.
+   * @param params - Parameters including the author's ID and the format of the feed.
+   * @returns The rendered feed with its caching validators.
+   * @throws NotFoundException if the author is not found.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async getAuthorFeed(params: { id: string; format: FeedFormat }) {
+    const { id, format } = params;
+
+    try {
+      // Find the author
+      const author = await this.prisma.user.findUnique({
+        where: { id },
+        include: { profile: true },
+      });
+      if (!author) throw new NotFoundException('User not found');
+
+      // Build the feed of the author's posts
+      const name = this.authorName(author) ?? 'an author';
+      return await this.render({
+        format,
+        title: `Posts by ${name}`,
+        description: `Latest posts by ${name}`,
+        link: `${this.siteUrl}/users/${id}`,
+        path: `/users/${id}`,
+        where: { authorId: id },
+      });
+    } catch (error) {
+      // If the error is a NotFoundException, re-throw it
+      if (error instanceof NotFoundException) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to build feed.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Build the feed of the published posts using a tag.
+   * @param params - Parameters including the tag name and the format of the feed.
+   * @returns The rendered feed with its caching validators.
+   * @throws NotFoundException if the tag is not found.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async getTagFeed(params: { name: string; format: FeedFormat }) {
+    const { name, format } = params;
+
+    try {
+      // Find the tag
+      const tag = await this.prisma.tag.findUnique({ where: { name } });
+      if (!tag) throw new NotFoundException('Tag not found');
+
+      // Build the feed of the posts using the tag
+      const encodedName = encodeURIComponent(tag.name);
+      return await this.render({
+        format,
+        title: `Posts tagged ${tag.name}`,
+        description: `Latest posts tagged ${tag.name}`,
+        link: `${this.siteUrl}/tags/${encodedName}`,
+        path: `/tags/${encodedName}`,
+        where: { tags: { some: { tagId: tag.id } } },
+      });
+    } catch (error) {
+      // If the error is a NotFoundException, re-throw it
+      if (error instanceof NotFoundException) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to build feed.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Render the latest published posts matching the criteria as a feed.
+   * @param params - Parameters including the format, the feed's title, description and page link, the path of its feed URLs, and the post criteria.
+   * @returns The rendered feed with its content type, ETag and last modification date.
+   */
+  private async render(params: {
+    format: FeedFormat;
+    title: string;
+    description: string;
+    link: string;
+    path: string;
+    where: Prisma.PostWhereInput;
+  }): Promise<RenderedFeed> {
+    const { format, title, description, link, path, where } = params;
+
+    // Retrieve the latest published posts
+    const posts = await this.prisma.post.findMany({
+      where: { ...where, status: PostStatus.PUBLISHED },
+      include: feedPostInclude,
+      orderBy: [{ publishedAt: 'desc' }, { id: 'desc' }],
+      take: FEED_SIZE,
+    });
+
+    // The feed changes whenever one of its posts does
+    const lastModified = posts.length
+      ? new Date(Math.max(...posts.map((post) => post.updatedAt.getTime())))
+      : undefined;
+
+    // Describe the feed and link to each of its formats
+    const feedUrl = (feedFormat: FeedFormat) =>
+      `${this.appUrl}/api/feeds${path}/posts.${feedFormat}`;
+    const feed = new Feed({
+      id: feedUrl(format),
+      title,
+      description,
+      link,
+      language: 'en',
+      updated: lastModified,
+      copyright: `All rights reserved ${new Date().getFullYear()}`,
+      feedLinks: {
+        rss: feedUrl(FeedFormat.RSS),
+        atom: feedUrl(FeedFormat.ATOM),
+        json: feedUrl(FeedFormat.JSON),
+      },
+    });
+
+    // Add each post with its summary, cover and tags
+    for (const post of posts) {
+      const postLink = `${this.siteUrl}/posts/${post.slug}`;
+      const name = this.authorName(post.author);
+      feed.addItem({
+        id: postLink,
+        title: post.title,
+        link: postLink,
+        description: post.summary,
+        image: this.coverUrl(post),
+        category: post.tags.map(({ tag }) => ({
+          name: tag.name,
+          domain: `${this.siteUrl}/tags/${encodeURIComponent(tag.name)}`,
+        })),
+        author: [{ name, link: `${this.siteUrl}/users/${post.author.id}` }],
+        date: post.updatedAt,
+        published: post.publishedAt,
+      });
+    }
+
+    // Render the requested format and fingerprint it
+    const body =
+      format === FeedFormat.RSS
+        ? feed.rss2()
+        : format === FeedFormat.ATOM
+          ? feed.atom1()
+          : feed.json1();
+    const etag = `"${createHash('sha1').update(body).digest('base64url')}"`;
+
+    return {
+      contentType: CONTENT_TYPES[format],
+      etag,
+      lastModified,
+      body,
+    };
+  }
+
+  /**
+   * Pick the cover image of a post shown by feed readers: its large WebP variant, or the original.
+   * @param post - The post.
+   * @returns The absolute URL of the cover, if the post has one.
+   */
+  private coverUrl(post: FeedPost) {
+    if (!post.cover) return undefined;
+
+    const { src, variants } = this.coverImagesService.toImage(post);
+    const large = variants.find(
+      (variant) => variant.size === 'large' && variant.format === 'webp',
+    );
+    return large?.url ?? src;
+  }
+
+  /**
+   * Build the display name of an author from their profile.
+   * @param author - The author with their profile.
+   * @returns The full name of the author, or undefined without a profile.
+   */
+  private authorName(author: FeedPost['author']) {
+    if (!author.profile) return undefined;
+
+    const { firstName, lastName } = author.profile;
+    return lastName ? `${firstName} ${lastName}` : firstName;
+  }
+}
@@ -0,0 +1,11 @@
+import { MailDriver, MailMessage } from './mail-driver.interface';
+
+/**
+ * Prints emails to the console instead of delivering them, for local development.
+ */
+export class ConsoleMailDriver implements MailDriver {
+  async send(message: MailMessage) {
+    const { from, to, subject, text } = message;
+    console.log(`From: ${from}\nTo: ${to}\nSubject: ${subject}\n\n${text}`);
+  }
+}
@@ -0,0 +1,39 @@
+import { mkdtemp, readFile, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileMailDriver } from './file-mail.driver';
+
+describe('FileMailDriver', () => {
+  let directory: string;
+  let driver: FileMailDriver;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'mails-'));
+    driver = new FileMailDriver({ directory: join(directory, 'outbox') });
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should write each email to its own file, creating the directory', async () => {
+    const message = {
+      from: 'no-reply@example.com',
+      to: 'wina@email.com',
+      subject: 'Hello',
+      text: 'Hi Wina',
+    };
+
+    await driver.send(message);
+    await driver.send({ ...message, subject: 'Again' });
+
+    const files = await readdir(join(directory, 'outbox'));
+    expect(files).toHaveLength(2);
+    const sent = await Promise.all(
+      files.map(async (file) =>
+        JSON.parse(await readFile(join(directory, 'outbox', file), 'utf8')),
+      ),
+    );
+    expect(sent.map((mail) => mail.subject).sort()).toEqual(['Again', 'Hello']);
+  });
+});
@@ -0,0 +1,22 @@
+import { randomBytes } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { MailDriver, MailMessage } from './mail-driver.interface';
+
+/**
+ * Writes each email as a JSON file into a directory instead of delivering it, for local testing.
+ */
+export class FileMailDriver implements MailDriver {
+  constructor(private options: { directory: string }) {}
+
+  async send(message: MailMessage) {
+    // Name the files so they sort by the time they were sent
+    const name = `${Date.now()}-${randomBytes(4).toString('hex')}.json`;
+
+    await mkdir(this.options.directory, { recursive: true });
+    await writeFile(
+      join(this.options.directory, name),
+      JSON.stringify(message, null, 2),
+    );
+  }
+}
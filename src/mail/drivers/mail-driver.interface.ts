@@ -0,0 +1,24 @@
+// Injection token of the mail driver chosen through `MAIL_DRIVER`
+export const MAIL_DRIVER = Symbol('MAIL_DRIVER');
+
+/**
+ * An email ready to be delivered.
+ */
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * A way of delivering emails, such as an SMTP server.
+ */
+export interface MailDriver {
+  /**
+   * Deliver an email.
+   * @param message - The email.
+   */
+  send(message: MailMessage): Promise<void>;
+}
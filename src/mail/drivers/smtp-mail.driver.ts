@@ -0,0 +1,30 @@
+import { Transporter, createTransport } from 'nodemailer';
+import { MailDriver, MailMessage } from './mail-driver.interface';
+
+/**
+ * Delivers emails through an SMTP server.
+ */
+export class SmtpMailDriver implements MailDriver {
+  private transporter: Transporter;
+  constructor(options: {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    password?: string;
+  }) {
+    const { host, port, secure, user, password } = options;
+
+    // Servers accepting mail from the API host need no credentials
+    this.transporter = createTransport({
+      host,
+      port,
+      secure,
+      auth: user ? { user, pass: password } : undefined,
+    });
+  }
+
+  async send(message: MailMessage) {
+    await this.transporter.sendMail(message);
+  }
+}
@@ -0,0 +1,44 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { ConsoleMailDriver } from './drivers/console-mail.driver';
+import { FileMailDriver } from './drivers/file-mail.driver';
+import { MAIL_DRIVER, MailDriver } from './drivers/mail-driver.interface';
+import { SmtpMailDriver } from './drivers/smtp-mail.driver';
+import { MailService } from './mail.service';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    MailService,
+    {
+      // Choose how emails are delivered: "console" (default), "file" or "smtp"
+      provide: MAIL_DRIVER,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): MailDriver => {
+        const driver = configService.get<string>('MAIL_DRIVER') || 'console';
+
+        switch (driver) {
+          case 'console':
+            return new ConsoleMailDriver();
+          case 'file':
+            return new FileMailDriver({
+              directory:
+                configService.get<string>('MAIL_FILE_DIR') || './mails',
+            });
+          case 'smtp':
+            return new SmtpMailDriver({
+              host: configService.get<string>('SMTP_HOST'),
+              port: Number(configService.get<string>('SMTP_PORT')) || 587,
+              secure: configService.get<string>('SMTP_SECURE') === 'true',
+              user: configService.get<string>('SMTP_USER'),
+              password: configService.get<string>('SMTP_PASSWORD'),
+            });
+          default:
+            throw new Error(`Unknown mail driver: ${driver}`);
+        }
+      },
+    },
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
@@ -0,0 +1,28 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  MAIL_DRIVER,
+  MailDriver,
+  MailMessage,
+} from './drivers/mail-driver.interface';
+
+@Injectable()
+export class MailService {
+  constructor(
+    @Inject(MAIL_DRIVER) private driver: MailDriver,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Send an email from the address configured in `MAIL_FROM`.
+   * @param message - The recipient, subject and content of the email.
+   */
+  async send(message: Omit<MailMessage, 'from'>) {
+    await this.driver.send({
+      from:
+        this.configService.get<string>('MAIL_FROM') ||
+        'Blog <no-reply@localhost>',
+      ...message,
+    });
+  }
+}
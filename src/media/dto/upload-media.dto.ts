@@ -0,0 +1,26 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  HasMimeType,
+  IsFile,
+  MaxFileSize,
+  MemoryStoredFile,
+} from 'nestjs-form-data';
+
+export class UploadMediaDto {
+  @ApiProperty({
+    type: String,
+    format: 'binary',
+    description:
+      'Image to add to your media library (JPEG, PNG, WEBP, AVIF), for use in post bodies or as a cover',
+  })
+  @IsFile()
+  @MaxFileSize(5000000) // 5mb
+  @HasMimeType([
+    'image/avif',
+    'image/jpeg',
+    'image/jpg',
+    'image/png',
+    'image/webp',
+  ])
+  file: MemoryStoredFile;
+}
@@ -0,0 +1,71 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DatabasesService } from 'src/databases/databases.service';
+import { CoverImagesService } from 'src/posts/services/cover-images.service';
+
+// Days an unused media is kept before its files are deleted, unless MEDIA_ORPHAN_RETENTION_DAYS says otherwise
+const DEFAULT_RETENTION_DAYS = 7;
+
+/**
+ * In-process job that garbage-collects orphaned media: uploads no post body or cover uses anymore.
+ * Recent uploads are kept for a while, so an author can upload images before saving the post using them.
+ */
+@Injectable()
+export class MediaCleanupService {
+  private running = false;
+
+  constructor(
+    private prisma: DatabasesService,
+    private coverImagesService: CoverImagesService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Deletes every orphaned media older than the retention period, along with its files.
+   * @returns The number of media deleted.
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async removeOrphans() {
+    // Skip this tick if the previous run is still going
+    if (this.running) return 0;
+    this.running = true;
+
+    try {
+      // Read the orphaned media past the retention period
+      const days =
+        Number(this.configService.get('MEDIA_ORPHAN_RETENTION_DAYS')) ||
+        DEFAULT_RETENTION_DAYS;
+      const orphans = await this.prisma.media.findMany({
+        where: {
+          posts: { none: {} },
+          covers: { none: {} },
+          createdAt: { lt: new Date(Date.now() - days * 24 * 60 * 60 * 1000) },
+        },
+      });
+
+      // Delete each media, guarding against a post having started to use it in the meantime, then its files
+      let removed = 0;
+      for (const media of orphans) {
+        const { count } = await this.prisma.media.deleteMany({
+          where: { id: media.id, posts: { none: {} }, covers: { none: {} } },
+        });
+        if (!count) continue;
+
+        await this.coverImagesService.remove({
+          cover: media.key,
+          coverVariants: media.variants,
+        });
+        removed += count;
+      }
+
+      return removed;
+    } catch (error) {
+      // Log the error, the next run will retry
+      console.error('Failed to remove orphaned media', error);
+      return 0;
+    } finally {
+      this.running = false;
+    }
+  }
+}
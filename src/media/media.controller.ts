@@ -0,0 +1,92 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Query,
+  Req,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiConflictResponse,
+  ApiConsumes,
+  ApiCreatedResponse,
+  ApiInternalServerErrorResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { FormDataRequest } from 'nestjs-form-data';
+import { Scopes } from 'src/authentication/decorators/scopes.decorator';
+import { ApiTokenScope } from 'src/authentication/enums/api-token-scope.enum';
+import { CursorPaginationQuery } from 'src/common/pagination/cursor-pagination-query.dto';
+import { UploadMediaDto } from './dto/upload-media.dto';
+import { MediaService } from './media.service';
+
+@Controller('media')
+@ApiTags('Media')
+@ApiBearerAuth()
+export class MediaController {
+  constructor(private readonly mediaService: MediaService) {}
+
+  /**
+   * Uploads an image to the authenticated user's media library.
+   * @param req - The request object containing the authenticated user's information.
+   * @param uploadMediaDto - The DTO containing the uploaded image.
+   * @returns A response containing the stored media, with the URL to use in a post body.
+   */
+  @ApiConsumes('multipart/form-data')
+  @ApiCreatedResponse({ description: 'Upload media successfully' })
+  @ApiBadRequestResponse({ description: 'Invalid file' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @Scopes(ApiTokenScope.MEDIA_WRITE)
+  @Post()
+  @FormDataRequest()
+  async upload(
+    @Req() req,
+    @Body(new ValidationPipe({ transform: true }))
+    uploadMediaDto: UploadMediaDto,
+  ) {
+    return this.mediaService.upload({
+      file: uploadMediaDto.file,
+      userId: req.user.sub,
+    });
+  }
+
+  /**
+   * Retrieves the authenticated user's media library.
+   * @param req - The request object containing the authenticated user's information.
+   * @param query - Pagination parameters.
+   * @returns A response containing the media, with how many posts use each one.
+   */
+  @ApiOkResponse({ description: 'Get media successfully' })
+  @ApiBadRequestResponse({ description: 'Invalid cursor' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @Get()
+  async getLibrary(
+    @Req() req,
+    @Query(new ValidationPipe({ transform: true }))
+    query: CursorPaginationQuery,
+  ) {
+    return this.mediaService.getLibrary({ ...query, userId: req.user.sub });
+  }
+
+  /**
+   * Deletes a media of the authenticated user's library.
+   * @param id - The ID of the media.
+   * @param req - The request object containing the authenticated user's information.
+   * @returns A response indicating the success of the deletion.
+   */
+  @ApiOkResponse({ description: 'Delete media successfully' })
+  @ApiNotFoundResponse({ description: 'Media not found' })
+  @ApiConflictResponse({ description: 'Media is still used by a post' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @Delete(':id')
+  async remove(@Param('id') id: string, @Req() req) {
+    return this.mediaService.remove({ id, userId: req.user.sub });
+  }
+}
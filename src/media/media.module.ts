@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { DatabasesModule } from 'src/databases/databases.module';
+import { PostsModule } from 'src/posts/posts.module';
+import { StorageModule } from 'src/storage/storage.module';
+import { MediaCleanupService } from './media-cleanup.service';
+import { MediaController } from './media.controller';
+import { MediaService } from './media.service';
+
+@Module({
+  imports: [DatabasesModule, StorageModule, PostsModule],
+  controllers: [MediaController],
+  providers: [MediaService, MediaCleanupService],
+})
+export class MediaModule {}
@@ -0,0 +1,166 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { DatabasesService } from 'src/databases/databases.service';
+import { CoverImagesService } from 'src/posts/services/cover-images.service';
+import { StorageService } from 'src/storage/storage.service';
+import { MediaService } from './media.service';
+
+describe('MediaService', () => {
+  let service: MediaService;
+  const prisma = {
+    media: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      delete: jest.fn(),
+    },
+  };
+  const coverImagesService = {
+    upload: jest.fn(),
+    remove: jest.fn(),
+    toImage: jest.fn(),
+  };
+  const media = {
+    id: 'media-1',
+    ownerId: 'user-1',
+    key: 'media/desk-1a2b3c4d.png',
+    variants: [],
+    originalName: 'Desk.png',
+    mimeType: 'image/png',
+    size: 2048,
+    width: 1000,
+    height: 500,
+    createdAt: new Date('2024-05-01T10:00:00.000Z'),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MediaService,
+        { provide: DatabasesService, useValue: prisma },
+        { provide: CoverImagesService, useValue: coverImagesService },
+        {
+          provide: StorageService,
+          useValue: { getUrl: jest.fn((key) => `/${key}`) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<MediaService>(MediaService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should store the image under the media prefix and record it', async () => {
+    coverImagesService.upload.mockResolvedValue({
+      cover: media.key,
+      coverVariants: [],
+      width: 1000,
+      height: 500,
+    });
+    prisma.media.create.mockResolvedValue(media);
+
+    const result = await service.upload({
+      file: {
+        originalName: 'Desk.png',
+        mimeType: 'image/png',
+        size: 2048,
+      } as any,
+      userId: 'user-1',
+    });
+
+    expect(coverImagesService.upload.mock.calls[0][1]).toEqual({
+      prefix: 'media',
+      name: 'desk',
+    });
+    expect(prisma.media.create.mock.calls[0][0].data).toMatchObject({
+      key: media.key,
+      width: 1000,
+      height: 500,
+      owner: { connect: { id: 'user-1' } },
+    });
+    expect(result.data).toMatchObject({
+      id: 'media-1',
+      url: '/media/desk-1a2b3c4d.png',
+    });
+    expect(result.data).not.toHaveProperty('key');
+  });
+
+  it('should report how many posts use each media', async () => {
+    prisma.media.findMany.mockResolvedValue([
+      { ...media, _count: { posts: 2, covers: 1 } },
+    ]);
+
+    const result = await service.getLibrary({ userId: 'user-1', take: 20 });
+
+    expect(prisma.media.findMany.mock.calls[0][0].where).toEqual({
+      ownerId: 'user-1',
+    });
+    expect(result.data[0].usage).toEqual({ posts: 2, covers: 1 });
+    expect(result.meta.hasMore).toBe(false);
+  });
+
+  describe('remove', () => {
+    it('should delete unused media and its files', async () => {
+      prisma.media.findFirst.mockResolvedValue({
+        ...media,
+        _count: { posts: 0, covers: 0 },
+      });
+
+      await service.remove({ id: 'media-1', userId: 'user-1' });
+
+      expect(prisma.media.delete).toHaveBeenCalledWith({
+        where: { id: 'media-1' },
+      });
+      expect(coverImagesService.remove).toHaveBeenCalledWith({
+        cover: media.key,
+        coverVariants: [],
+      });
+    });
+
+    it('should refuse to delete media used by a post', async () => {
+      prisma.media.findFirst.mockResolvedValue({
+        ...media,
+        _count: { posts: 1, covers: 0 },
+      });
+
+      await expect(
+        service.remove({ id: 'media-1', userId: 'user-1' }),
+      ).rejects.toBeInstanceOf(ConflictException);
+      expect(prisma.media.delete).not.toHaveBeenCalled();
+      expect(coverImagesService.remove).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to delete media a post started using in the meantime', async () => {
+      prisma.media.findFirst.mockResolvedValue({
+        ...media,
+        _count: { posts: 0, covers: 0 },
+      });
+      prisma.media.delete.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('fk', {
+          code: 'P2003',
+          clientVersion: 'test',
+        }),
+      );
+
+      await expect(
+        service.remove({ id: 'media-1', userId: 'user-1' }),
+      ).rejects.toBeInstanceOf(ConflictException);
+      expect(coverImagesService.remove).not.toHaveBeenCalled();
+    });
+
+    it("should throw NotFoundException for another user's media", async () => {
+      prisma.media.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.remove({ id: 'media-1', userId: 'user-2' }),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import {
+  BadRequestException,
+  ConflictException,
+  HttpStatus,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Media, Prisma } from '@prisma/client';
+import { MemoryStoredFile } from 'nestjs-form-data';
+import { extname } from 'path';
+import * as slug from 'slug';
+import {
+  afterCursor,
+  decodeCursor,
+  encodeCursor,
+  toPage,
+} from 'src/common/pagination/cursor';
+import { DatabasesService } from 'src/databases/databases.service';
+import { CoverImagesService } from 'src/posts/services/cover-images.service';
+import { StorageService } from 'src/storage/storage.service';
+
+/**
+ * The media library: images uploaded by a user for use in post bodies or as covers.
+ */
+@Injectable()
+export class MediaService {
+  constructor(
+    private prisma: DatabasesService,
+    private coverImagesService: CoverImagesService,
+    private storageService: StorageService,
+  ) {}
+
+  /**
+   * Add an image to the user's media library, along with its resized variants.
+   * @param params - Parameters including the uploaded file and the user ID.
+   * @returns A response containing the stored media.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async upload(params: { file: MemoryStoredFile; userId: string }) {
+    const { file, userId } = params;
+
+    try {
+      // Store the image and its variants under a readable name
+      const name =
+        slug(file.originalName.slice(0, -extname(file.originalName).length)) ||
+        'image';
+      const { cover, coverVariants, width, height } =
+        await this.coverImagesService.upload(file, { prefix: 'media', name });
+
+      // Record the media in the user's library
+      const media = await this.prisma.media.create({
+        data: {
+          key: cover,
+          variants: coverVariants,
+          originalName: file.originalName,
+          mimeType: file.mimeType,
+          size: file.size,
+          width,
+          height,
+          owner: { connect: { id: userId } },
+        },
+      });
+
+      // Return a response containing the stored media
+      return {
+        message: 'Upload media successfully',
+        statusCode: HttpStatus.CREATED,
+        data: this.present(media),
+      };
+    } catch (error) {
+      // Log the error and throw an InternalServerErrorException
+      console.error(error);
+      throw new InternalServerErrorException(
+        'Something went wrong. Failed to upload media.',
+      );
+    }
+  }
+
+  /**
+   * Retrieve the user's media library, most recent first, with how many posts use each media.
+   * @param params - Parameters including the user ID and pagination.
+   * @returns A response containing the media and the page metadata.
+   * @throws BadRequestException if the cursor is invalid.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async getLibrary(params: {
+    userId: string;
+    take: number;
+    cursor?: string;
+    withTotal?: boolean;
+  }) {
+    const { userId, take, cursor, withTotal } = params;
+
+    try {
+      // Retrieve the media after the cursor, plus one to tell whether another page follows
+      const where: Prisma.MediaWhereInput = { ownerId: userId };
+      const media = await this.prisma.media.findMany({
+        where: cursor
+          ? {
+              AND: [
+                where,
+                afterCursor(
+                  'createdAt',
+                  'desc',
+                  decodeCursor(cursor, 'createdAt', 'date'),
+                ),
+              ],
+            }
+          : where,
+        include: { _count: { select: { posts: true, covers: true } } },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: take + 1,
+      });
+      const total = withTotal
+        ? await this.prisma.media.count({ where })
+        : undefined;
+
+      // Cut the page
+      const { data, meta } = toPage(
+        media,
+        take,
+        (item) => encodeCursor('createdAt', item.createdAt, item.id),
+        total,
+      );
+
+      // Return a response containing the media
+      return {
+        message: 'Get media successfully',
+        statusCode: HttpStatus.OK,
+        data: data.map(({ _count, ...item }) => ({
+          ...this.present(item),
+          usage: { posts: _count.posts, covers: _count.covers },
+        })),
+        meta,
+      };
+    } catch (error) {
+      // If the error is a BadRequestException, re-throw it
+      if (error instanceof BadRequestException) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to get media.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Delete a media of the user's library and its files.
+   * Media still used by the body or the cover of a post cannot be deleted.
+   * @param params - Parameters including the media ID and the user ID.
+   * @returns A response indicating the success of the deletion.
+   * @throws NotFoundException if the media is not found.
+   * @throws ConflictException if the media is still used by a post.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async remove(params: { id: string; userId: string }) {
+    const { id, userId } = params;
+
+    try {
+      // Find the media owned by the user, with the posts using it
+      const media = await this.prisma.media.findFirst({
+        where: { id, ownerId: userId },
+        include: { _count: { select: { posts: true, covers: true } } },
+      });
+      if (!media) throw new NotFoundException('Media not found');
+      if (media._count.posts || media._count.covers)
+        throw new ConflictException('media is still used by a post');
+
+      // Delete the media, then its files
+      await this.prisma.media.delete({ where: { id } });
+      await this.coverImagesService.remove({
+        cover: media.key,
+        coverVariants: media.variants,
+      });
+
+      // Return a response indicating successful deletion
+      return {
+        message: 'Delete media successfully',
+        statusCode: HttpStatus.OK,
+      };
+    } catch (error) {
+      // A post started using the media in the meantime
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2003'
+      ) {
+        throw new ConflictException('media is still used by a post');
+      }
+
+      // If the error is a NotFoundException or ConflictException, re-throw it
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ConflictException
+      ) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to delete media.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Shape a media for responses, with the URL to use in a post body and its responsive image.
+   * @param media - The media to present.
+   * @returns The media without its storage details.
+   */
+  private present(media: Media) {
+    const { key, variants, ...rest } = media;
+
+    return {
+      ...rest,
+      url: this.storageService.getUrl(key),
+      image: this.coverImagesService.toImage({
+        cover: key,
+        coverVariants: variants,
+      }),
+    };
+  }
+}
@@ -3,10 +3,13 @@ import { Transform } from 'class-transformer';
 import {
   ArrayNotEmpty,
   IsArray,
+  IsDateString,
   IsNotEmpty,
+  IsOptional,
   IsString,
   Length,
   MinLength,
+  ValidateIf,
   isArray,
 } from 'class-validator';
 import {
@@ -65,8 +68,11 @@ export class CreatePostDto {
   @ApiProperty({
     type: String,
     format: 'binary',
-    description: 'Cover image for the blog post (JPEG, PNG, WEBP, AVIF)',
+    description:
+      'Cover image for the blog post (JPEG, PNG, WEBP, AVIF). Not needed when `coverMediaId` is given.',
+    required: false,
   })
+  @ValidateIf((dto: CreatePostDto) => !dto.coverMediaId)
   @IsFile()
   @MaxFileSize(2000000) // 2mb
   @HasMimeType([
@@ -77,4 +83,24 @@ export class CreatePostDto {
     'image/webp',
   ])
   cover: MemoryStoredFile;
+
+  @ApiProperty({
+    description:
+      'ID of an image of your media library to use as cover, instead of uploading one.',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  coverMediaId?: string;
+
+  @ApiProperty({
+    description:
+      'Date and time (ISO 8601) at which the post is published automatically. Must be in the future.',
+    example: '2024-06-01T08:00:00.000Z',
+    required: false,
+    type: String,
+  })
+  @IsDateString()
+  @IsOptional()
+  publishAt?: Date;
 }
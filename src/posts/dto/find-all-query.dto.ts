@@ -1,16 +1,13 @@
 import { ApiProperty } from '@nestjs/swagger';
-import {
-  IsEnum,
-  IsNumberString,
-  IsOptional,
-  IsPositive,
-  IsString,
-} from 'class-validator';
+import { Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, IsString, Min } from 'class-validator';
+import { CursorPaginationQuery } from 'src/common/pagination/cursor-pagination-query.dto';
 import { SortEnum } from '../enums/post-sort.enum';
 
-export class FindAllQuery {
+export class FindAllQuery extends CursorPaginationQuery {
   @ApiProperty({
-    description: 'Search posts by title. This parameter is optional.',
+    description:
+      'Full-text search over title, summary, body and tags. Use "quotes" for phrases and a trailing * for prefixes, e.g. `"time management" produc*`. This parameter is optional.',
     required: false,
   })
   @IsString()
@@ -21,7 +18,7 @@ export class FindAllQuery {
     enum: SortEnum,
     required: false,
     description:
-      'Specify the sorting order for the results. Options include "title-desc" (descending by title), "title-asc" (ascending by title), "date-desc" (descending by date), and "date-asc" (ascending by date).',
+      'Specify the sorting order for the results. Options include "title-desc" (descending by title), "title-asc" (ascending by title), "date-desc" (descending by date), "date-asc" (ascending by date), "reactions-desc" (most reacted first), and "relevance" (best search match first, the default when searching).',
   })
   @IsOptional()
   @IsEnum(SortEnum)
@@ -29,21 +26,13 @@ export class FindAllQuery {
 
   @ApiProperty({
     required: false,
+    deprecated: true,
     description:
-      'Limit the number of results returned. Must be a positive integer.',
-  })
-  @IsNumberString()
-  @IsPositive()
-  @IsOptional()
-  take: number;
-
-  @ApiProperty({
-    required: false,
-    description:
-      'Skip a certain number of results from the beginning. Must be a positive integer.',
+      'Skip a certain number of results from the beginning. Must be a non-negative integer. Prefer `cursor`, which stays stable while posts are published.',
   })
-  @IsNumberString()
-  @IsPositive()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
   @IsOptional()
-  skip: number;
+  skip?: number;
 }
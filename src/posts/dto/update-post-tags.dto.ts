@@ -0,0 +1,37 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsArray, IsOptional, IsString } from 'class-validator';
+
+export class UpdatePostTagsDto {
+  @ApiProperty({
+    description: 'Tags to attach to the post',
+    example: ['focus'],
+    required: false,
+    type: [String],
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  @Transform(({ value }) =>
+    Array.isArray(value)
+      ? value.map((tag: string) => tag.toLocaleLowerCase())
+      : value,
+  )
+  add?: string[];
+
+  @ApiProperty({
+    description: 'Tags to detach from the post',
+    example: ['organization'],
+    required: false,
+    type: [String],
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  @Transform(({ value }) =>
+    Array.isArray(value)
+      ? value.map((tag: string) => tag.toLocaleLowerCase())
+      : value,
+  )
+  remove?: string[];
+}
@@ -3,4 +3,6 @@ export enum SortEnum {
   TITLE_ASC = 'title-asc',
   DATE_DESC = 'date-desc',
   DATE_ASC = 'date-asc',
+  REACTIONS_DESC = 'reactions-desc',
+  RELEVANCE = 'relevance',
 }
@@ -0,0 +1,20 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PostRevisionsController } from './post-revisions.controller';
+import { PostRevisionsService } from './services/post-revisions.service';
+
+describe('PostRevisionsController', () => {
+  let controller: PostRevisionsController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [PostRevisionsController],
+      providers: [{ provide: PostRevisionsService, useValue: {} }],
+    }).compile();
+
+    controller = module.get<PostRevisionsController>(PostRevisionsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
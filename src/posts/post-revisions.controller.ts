@@ -0,0 +1,99 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Req,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiConflictResponse,
+  ApiInternalServerErrorResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Scopes } from 'src/authentication/decorators/scopes.decorator';
+import { ApiTokenScope } from 'src/authentication/enums/api-token-scope.enum';
+import { PostRevisionsService } from './services/post-revisions.service';
+
+@Controller('posts/:slug/revisions')
+export class PostRevisionsController {
+  constructor(private readonly postRevisionsService: PostRevisionsService) {}
+
+  /**
+   * Retrieves the revision history of a post owned by the authenticated user.
+   * @param slug - The slug of the post.
+   * @param req - The request object containing the authenticated user's information.
+   * @returns A response containing the revisions of the post.
+   */
+  @ApiTags('Revisions')
+  @ApiBearerAuth()
+  @ApiOkResponse({ description: 'Get post revisions successfully' })
+  @ApiNotFoundResponse({ description: 'Post not found' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @Scopes(ApiTokenScope.POSTS_READ)
+  @Get()
+  async getRevisions(@Param('slug') slug: string, @Req() req) {
+    return this.postRevisionsService.getRevisions({
+      slug,
+      userId: req.user.sub,
+    });
+  }
+
+  /**
+   * Compares a revision against the current body of the post.
+   * @param slug - The slug of the post.
+   * @param revisionId - The ID of the revision to compare.
+   * @param req - The request object containing the authenticated user's information.
+   * @returns A response containing the line-level diff.
+   */
+  @ApiTags('Revisions')
+  @ApiBearerAuth()
+  @ApiOkResponse({ description: 'Get revision diff successfully' })
+  @ApiNotFoundResponse({ description: 'Post or revision not found' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @Scopes(ApiTokenScope.POSTS_READ)
+  @Get(':revisionId/diff')
+  async diffRevision(
+    @Param('slug') slug: string,
+    @Param('revisionId') revisionId: string,
+    @Req() req,
+  ) {
+    return this.postRevisionsService.diffRevision({
+      slug,
+      revisionId,
+      userId: req.user.sub,
+    });
+  }
+
+  /**
+   * Restores a post to the content of one of its revisions.
+   * @param slug - The slug of the post.
+   * @param revisionId - The ID of the revision to restore.
+   * @param req - The request object containing the authenticated user's information.
+   * @returns A response containing the restored post.
+   */
+  @ApiTags('Revisions')
+  @ApiBearerAuth()
+  @ApiOkResponse({ description: 'Restore post revision successfully' })
+  @ApiNotFoundResponse({ description: 'Post or revision not found' })
+  @ApiConflictResponse({ description: 'Post changed in the meantime' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @HttpCode(HttpStatus.OK)
+  @Scopes(ApiTokenScope.POSTS_WRITE)
+  @Post(':revisionId/restore')
+  async restoreRevision(
+    @Param('slug') slug: string,
+    @Param('revisionId') revisionId: string,
+    @Req() req,
+  ) {
+    return this.postRevisionsService.restoreRevision({
+      slug,
+      revisionId,
+      userId: req.user.sub,
+    });
+  }
+}
@@ -1,14 +1,34 @@
+import { HttpStatus, NotFoundException } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
+import { NestjsFormDataModule } from 'nestjs-form-data';
 import { PostsController } from './posts.controller';
+import { PostSlugsService } from './services/post-slugs.service';
+import { PostsSearchService } from './services/posts-search.service';
 import { PostsService } from './services/posts.service';
+import { ReactionsService } from './services/reactions.service';
 
 describe('PostsController', () => {
   let controller: PostsController;
+  const postsService = {
+    findOne: jest.fn(),
+    visibleTo: jest.fn(() => ({})),
+    present: jest.fn(),
+  };
+  const postsSearchService = { search: jest.fn() };
+  const postSlugsService = { resolve: jest.fn() };
 
   beforeEach(async () => {
+    jest.clearAllMocks();
+
     const module: TestingModule = await Test.createTestingModule({
+      imports: [NestjsFormDataModule],
       controllers: [PostsController],
-      providers: [PostsService],
+      providers: [
+        { provide: PostsService, useValue: postsService },
+        { provide: ReactionsService, useValue: {} },
+        { provide: PostsSearchService, useValue: postsSearchService },
+        { provide: PostSlugsService, useValue: postSlugsService },
+      ],
     }).compile();
 
     controller = module.get<PostsController>(PostsController);
@@ -17,4 +37,82 @@ describe('PostsController', () => {
   it('should be defined', () => {
     expect(controller).toBeDefined();
   });
+
+  describe('getAll', () => {
+    it('should present search results like other post lists', async () => {
+      const meta = { nextCursor: null, hasMore: false };
+      postsSearchService.search.mockResolvedValue({
+        message: 'get posts successfully',
+        data: [{ id: 'post-1', search: { rank: 0.9 } }],
+        meta,
+      });
+      postsService.present.mockResolvedValue([
+        { id: 'post-1', search: { rank: 0.9 }, readingTimeMinutes: 3 },
+      ]);
+
+      const result = await controller.getAll({ q: 'time', take: 20 } as any, {
+        user: { sub: 'user-1' },
+      });
+
+      expect(postsSearchService.search).toHaveBeenCalledWith({
+        q: 'time',
+        sortBy: undefined,
+        take: 20,
+      });
+      expect(postsService.present).toHaveBeenCalledWith(
+        [{ id: 'post-1', search: { rank: 0.9 } }],
+        'user-1',
+      );
+      expect(result).toMatchObject({
+        data: [{ readingTimeMinutes: 3 }],
+        meta,
+      });
+    });
+  });
+
+  describe('getPost', () => {
+    const res = { status: jest.fn(), location: jest.fn() };
+
+    beforeEach(() => {
+      res.status.mockReturnValue(res);
+      res.location.mockReturnValue(res);
+    });
+
+    it('should redirect a previous slug to the current one', async () => {
+      postsService.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ id: 'post-1' });
+      postSlugsService.resolve.mockResolvedValue({
+        id: 'post-1',
+        slug: 'new-title',
+      });
+
+      const result = await controller.getPost(
+        'old-title',
+        { user: undefined },
+        res as any,
+      );
+
+      expect(res.status).toHaveBeenCalledWith(HttpStatus.MOVED_PERMANENTLY);
+      expect(res.location).toHaveBeenCalledWith('new-title');
+      expect(result).toEqual({
+        message: 'Post moved permanently',
+        statusCode: HttpStatus.MOVED_PERMANENTLY,
+        data: { slug: 'new-title' },
+      });
+    });
+
+    it('should not reveal the new slug of a post the reader cannot see', async () => {
+      postsService.findOne.mockResolvedValue(null);
+      postSlugsService.resolve.mockResolvedValue({
+        id: 'post-1',
+        slug: 'new-title',
+      });
+
+      await expect(
+        controller.getPost('old-title', { user: undefined }, res as any),
+      ).rejects.toBeInstanceOf(NotFoundException);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
 });
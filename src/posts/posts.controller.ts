@@ -3,37 +3,59 @@ import {
   Controller,
   Delete,
   Get,
+  HttpCode,
   HttpStatus,
   InternalServerErrorException,
   NotFoundException,
   Param,
+  ParseEnumPipe,
   Patch,
   Post,
   Query,
   Req,
+  Res,
   ValidationPipe,
 } from '@nestjs/common';
 import {
+  ApiBadRequestResponse,
   ApiBearerAuth,
   ApiBody,
   ApiConflictResponse,
   ApiConsumes,
   ApiCreatedResponse,
+  ApiForbiddenResponse,
   ApiInternalServerErrorResponse,
   ApiNotFoundResponse,
   ApiOkResponse,
+  ApiParam,
+  ApiResponse,
   ApiTags,
 } from '@nestjs/swagger';
+import { PostStatus, ReactionType } from '@prisma/client';
+import { Response } from 'express';
 import { FormDataRequest } from 'nestjs-form-data';
 import { Public } from 'src/authentication/decorators/public.decorator';
+import { Scopes } from 'src/authentication/decorators/scopes.decorator';
+import { ApiTokenScope } from 'src/authentication/enums/api-token-scope.enum';
+import { CursorPaginationQuery } from 'src/common/pagination/cursor-pagination-query.dto';
 import { CreatePostDto } from './dto/create-post.dto';
 import { FindAllQuery } from './dto/find-all-query.dto';
 import { UpdatePostDto } from './dto/update-post.dto';
-import { PostsService } from './services/posts.service';
+import { UpdatePostTagsDto } from './dto/update-post-tags.dto';
+import { SortEnum } from './enums/post-sort.enum';
+import { PostSlugsService } from './services/post-slugs.service';
+import { PostsSearchService } from './services/posts-search.service';
+import { POST_SORTS, PostsService } from './services/posts.service';
+import { ReactionsService } from './services/reactions.service';
 
 @Controller('posts')
 export class PostsController {
-  constructor(private readonly postsService: PostsService) {}
+  constructor(
+    private readonly postsService: PostsService,
+    private readonly reactionsService: ReactionsService,
+    private readonly postsSearchService: PostsSearchService,
+    private readonly postSlugsService: PostSlugsService,
+  ) {}
 
   /**
    * Endpoint for creating a post.
@@ -45,8 +67,10 @@ export class PostsController {
   @ApiBearerAuth()
   @ApiConsumes('multipart/form-data')
   @ApiCreatedResponse({ description: 'Post created successfully' })
-  @ApiConflictResponse({ description: 'Post already exists' })
+  @ApiBadRequestResponse({ description: 'Publish date must be in the future' })
+  @ApiForbiddenResponse({ description: 'Email address not verified' })
   @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @Scopes(ApiTokenScope.POSTS_WRITE)
   @Post()
   @FormDataRequest()
   async createPost(
@@ -59,52 +83,71 @@ export class PostsController {
   /**
    * Retrieves posts based on specified criteria.
    * @param query - Query parameters including sorting, pagination, and search.
-   * @returns A response containing the posts based on the provided criteria.
+   * @param req - The request object containing the authenticated user's information, if any.
+   * @returns A response containing the posts based on the provided criteria, ranked by relevance when searching.
    */
   @ApiTags('Posts')
   @ApiOkResponse({ description: 'Get posts successfully' })
+  @ApiBadRequestResponse({ description: 'Invalid query or cursor' })
   @ApiInternalServerErrorResponse({ description: 'Internal server error' })
   @Public()
+  @Scopes(ApiTokenScope.POSTS_READ)
   @Get()
-  async getAll(@Query() query: FindAllQuery) {
+  async getAll(
+    @Query(new ValidationPipe({ transform: true })) query: FindAllQuery,
+    @Req() req,
+  ) {
     // Extract query parameters
-    const { sortBy, skip, take, q } = query;
-    const [field, sort] = sortBy ? sortBy.split('-') : ['date', 'desc'];
+    const { sortBy, q, ...pagination } = query;
+
+    // Run a full-text search when a search string is given
+    if (q) {
+      const result = await this.postsSearchService.search({
+        q,
+        sortBy,
+        ...pagination,
+      });
+
+      // Add the cover image, the reading time and the reactions of the results, as in other post lists
+      return {
+        ...result,
+        data: await this.postsService.present(result.data, req.user?.sub),
+      };
+    }
 
     // Retrieve posts based on provided criteria
     return this.postsService.getPosts({
       where: {
-        title: {
-          contains: q,
-        },
+        status: PostStatus.PUBLISHED,
       },
-      take: take ?? undefined,
-      skip: skip ?? undefined,
-      orderBy:
-        field === 'title'
-          ? {
-              title: sort === 'desc' ? 'desc' : 'asc',
-            }
-          : field === 'date'
-            ? { createdAt: sort === 'desc' ? 'desc' : 'asc' }
-            : { createdAt: 'desc' },
+      sort: POST_SORTS[sortBy ?? SortEnum.DATE_DESC],
+      ...pagination,
+      userId: req.user?.sub,
     });
   }
 
   /**
-   * Retrieves posts from users followed by the authenticated user.
+   * Retrieves posts from users followed by the authenticated user, newest first.
+   * @param query - Pagination parameters.
    * @param req - The request object containing the authenticated user's information.
    * @returns A response containing the posts from users followed by the authenticated user.
    */
   @ApiTags('Posts')
   @ApiBearerAuth()
   @ApiOkResponse({ description: 'Get following post successfully' })
+  @ApiBadRequestResponse({ description: 'Invalid cursor' })
   @ApiInternalServerErrorResponse({ description: 'Internal server error' })
   @Get('following')
-  async followingPosts(@Req() req) {
+  async followingPosts(
+    @Query(new ValidationPipe({ transform: true }))
+    query: CursorPaginationQuery,
+    @Req() req,
+  ) {
     // Retrieve posts from users followed by the authenticated user
     return this.postsService.getFollowingPosts({
+      ...query,
       where: {
+        status: PostStatus.PUBLISHED,
         author: {
           followers: {
             some: {
@@ -126,9 +169,62 @@ export class PostsController {
           },
         },
       },
+      userId: req.user.sub,
     });
   }
 
+  /**
+   * Retrieves the authenticated user's drafts that are queued for publishing.
+   * @param req - The request object containing the authenticated user's information.
+   * @returns A response containing the scheduled posts.
+   */
+  @ApiTags('Posts')
+  @ApiBearerAuth()
+  @ApiOkResponse({ description: 'Get scheduled posts successfully' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @Scopes(ApiTokenScope.POSTS_READ)
+  @Get('scheduled')
+  async scheduledPosts(@Req() req) {
+    return this.postsService.getScheduledPosts(req.user.sub);
+  }
+
+  /**
+   * Cancels the scheduled publishing of a draft, keeping it as a draft.
+   * @param id - The ID of the scheduled post.
+   * @param req - The request object containing the authenticated user's information.
+   * @returns A response indicating the success of the cancellation.
+   */
+  @ApiTags('Posts')
+  @ApiBearerAuth()
+  @ApiOkResponse({ description: 'Cancel scheduled post successfully' })
+  @ApiNotFoundResponse({ description: 'Scheduled post not found' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @Scopes(ApiTokenScope.POSTS_WRITE)
+  @Delete('scheduled/:id')
+  async cancelScheduledPost(@Param('id') id: string, @Req() req) {
+    return this.postsService.cancelSchedule({ id, userId: req.user.sub });
+  }
+
+  /**
+   * Retrieves the posts bookmarked by the authenticated user.
+   * @param query - Pagination parameters.
+   * @param req - The request object containing the authenticated user's information.
+   * @returns A response containing the bookmarked posts, most recently bookmarked first.
+   */
+  @ApiTags('Bookmark')
+  @ApiBearerAuth()
+  @ApiOkResponse({ description: 'Get bookmarks successfully' })
+  @ApiBadRequestResponse({ description: 'Invalid cursor' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @Get('bookmarks')
+  async bookmarks(
+    @Query(new ValidationPipe({ transform: true }))
+    query: CursorPaginationQuery,
+    @Req() req,
+  ) {
+    return this.postsService.getBookmarks({ ...query, userId: req.user.sub });
+  }
+
   /**
    * Adds a post to the user's bookmarks.
    * @param id - The ID of the post to be bookmarked.
@@ -177,29 +273,190 @@ export class PostsController {
     });
   }
 
+  /**
+   * Adds a reaction of the authenticated user to a post.
+   * @param id - The ID of the post.
+   * @param type - The reaction type.
+   * @param req - The request object containing the authenticated user's information.
+   * @returns A response containing the updated reaction counts of the post.
+   */
+  @ApiTags('Reactions')
+  @ApiBearerAuth()
+  @ApiParam({ name: 'type', enum: ReactionType })
+  @ApiCreatedResponse({ description: 'Add reaction successfully' })
+  @ApiNotFoundResponse({ description: 'Post not found' })
+  @ApiConflictResponse({ description: 'Already reacted to post' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @Post(':id/reactions/:type')
+  async addReaction(
+    @Param('id') id: string,
+    @Param('type', new ParseEnumPipe(ReactionType)) type: ReactionType,
+    @Req() req,
+  ) {
+    return this.reactionsService.add({
+      postId: id,
+      userId: req.user.sub,
+      type,
+    });
+  }
+
+  /**
+   * Removes a reaction of the authenticated user from a post.
+   * @param id - The ID of the post.
+   * @param type - The reaction type.
+   * @param req - The request object containing the authenticated user's information.
+   * @returns A response containing the updated reaction counts of the post.
+   */
+  @ApiTags('Reactions')
+  @ApiBearerAuth()
+  @ApiParam({ name: 'type', enum: ReactionType })
+  @ApiOkResponse({ description: 'Remove reaction successfully' })
+  @ApiNotFoundResponse({ description: 'Reaction not found' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @Delete(':id/reactions/:type')
+  async deleteReaction(
+    @Param('id') id: string,
+    @Param('type', new ParseEnumPipe(ReactionType)) type: ReactionType,
+    @Req() req,
+  ) {
+    return this.reactionsService.remove({
+      postId: id,
+      userId: req.user.sub,
+      type,
+    });
+  }
+
+  /**
+   * Publishes a post owned by the authenticated user.
+   * @param id - The ID of the post to publish.
+   * @param req - The request object containing the authenticated user's information.
+   * @returns A response containing the published post.
+   */
+  @ApiTags('Posts')
+  @ApiBearerAuth()
+  @ApiOkResponse({ description: 'Post published successfully' })
+  @ApiNotFoundResponse({ description: 'Post not found' })
+  @ApiConflictResponse({ description: 'Post already published' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @HttpCode(HttpStatus.OK)
+  @Scopes(ApiTokenScope.POSTS_WRITE)
+  @Post(':id/publish')
+  async publishPost(@Param('id') id: string, @Req() req) {
+    return this.postsService.changeStatus({
+      id,
+      userId: req.user.sub,
+      status: PostStatus.PUBLISHED,
+    });
+  }
+
+  /**
+   * Moves a post owned by the authenticated user back to draft.
+   * @param id - The ID of the post to unpublish.
+   * @param req - The request object containing the authenticated user's information.
+   * @returns A response containing the unpublished post.
+   */
+  @ApiTags('Posts')
+  @ApiBearerAuth()
+  @ApiOkResponse({ description: 'Post unpublished successfully' })
+  @ApiNotFoundResponse({ description: 'Post not found' })
+  @ApiConflictResponse({ description: 'Post already a draft' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @HttpCode(HttpStatus.OK)
+  @Scopes(ApiTokenScope.POSTS_WRITE)
+  @Post(':id/unpublish')
+  async unpublishPost(@Param('id') id: string, @Req() req) {
+    return this.postsService.changeStatus({
+      id,
+      userId: req.user.sub,
+      status: PostStatus.DRAFT,
+    });
+  }
+
+  /**
+   * Archives a post owned by the authenticated user, hiding it from readers.
+   * @param id - The ID of the post to archive.
+   * @param req - The request object containing the authenticated user's information.
+   * @returns A response containing the archived post.
+   */
+  @ApiTags('Posts')
+  @ApiBearerAuth()
+  @ApiOkResponse({ description: 'Post archived successfully' })
+  @ApiNotFoundResponse({ description: 'Post not found' })
+  @ApiConflictResponse({ description: 'Post already archived' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @HttpCode(HttpStatus.OK)
+  @Scopes(ApiTokenScope.POSTS_WRITE)
+  @Post(':id/archive')
+  async archivePost(@Param('id') id: string, @Req() req) {
+    return this.postsService.changeStatus({
+      id,
+      userId: req.user.sub,
+      status: PostStatus.ARCHIVED,
+    });
+  }
+
   /**
    * Endpoint for retrieving a post by its slug.
+   * Drafts and archived posts are only visible to their author.
+   * The post comes with its Markdown source as well as the rendered `bodyHtml`, its `toc` and `readingTimeMinutes`.
+   * A previous slug of the post answers with a 301 pointing at the current slug.
    * @param slug - The slug of the post to retrieve.
-   * @returns A response containing the retrieved post.
+   * @param req - The request object containing the authenticated user's information, if any.
+   * @param res - The response object, used to redirect previous slugs.
+   * @returns A response containing the retrieved post, or the canonical slug of a renamed post.
    */
   @ApiTags('Posts')
   @ApiOkResponse({ description: 'Get post successfully' })
+  @ApiResponse({
+    status: HttpStatus.MOVED_PERMANENTLY,
+    description: 'Post moved to a new slug',
+  })
   @ApiNotFoundResponse({ description: 'Post not found' })
   @ApiInternalServerErrorResponse({ description: 'Internal server error' })
   @Public()
+  @Scopes(ApiTokenScope.POSTS_READ)
   @Get(':slug')
-  async getPost(@Param('slug') slug: string) {
+  async getPost(
+    @Param('slug') slug: string,
+    @Req() req,
+    @Res({ passthrough: true }) res: Response,
+  ) {
     try {
-      // Retrieve the post from the service based on the provided slug
-      const post = await this.postsService.findOne({ slug });
-      // If the post is not found, throw a NotFoundExceptio
-      if (!post) throw new NotFoundException('post not found');
+      // Retrieve the post visible to the reader based on the provided slug
+      const post = await this.postsService.findOne({
+        AND: [{ slug }, this.postsService.visibleTo(req.user?.sub)],
+      });
+
+      // If the post is not found, look for a post that used to have this slug
+      if (!post) {
+        const moved = await this.postSlugsService.resolve(slug);
+        const visible =
+          moved &&
+          (await this.postsService.findOne({
+            AND: [{ id: moved.id }, this.postsService.visibleTo(req.user?.sub)],
+          }));
+        // If no visible post used the slug either, throw a NotFoundException
+        if (!visible) throw new NotFoundException('post not found');
+
+        // Point the reader at the current slug
+        res
+          .status(HttpStatus.MOVED_PERMANENTLY)
+          .location(encodeURIComponent(moved.slug));
+        return {
+          message: 'Post moved permanently',
+          statusCode: HttpStatus.MOVED_PERMANENTLY,
+          data: { slug: moved.slug },
+        };
+      }
+
+      // Add the cover image, the reading time and the reactions of the post
+      const [data] = await this.postsService.present([post], req.user?.sub);
 
       // Return a response indicating successful post retrieval
       return {
         message: 'Get post successfully',
         statusCode: HttpStatus.OK,
-        data: post,
+        data,
       };
     } catch (error) {
       // If the error is a NotFoundException, re-throw it
@@ -226,6 +483,7 @@ export class PostsController {
   @ApiOkResponse({ description: 'Delete post successfully' })
   @ApiNotFoundResponse({ description: 'Post not found' })
   @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @Scopes(ApiTokenScope.POSTS_WRITE)
   @Delete(':id')
   async deletePost(@Param('id') id: string, @Req() req) {
     return this.postsService.remove({
@@ -233,6 +491,34 @@ export class PostsController {
     });
   }
 
+  /**
+   * Adds and removes tags of a post owned by the authenticated user.
+   * @param req - The request object containing the authenticated user's information.
+   * @param slug - The slug of the post.
+   * @param updatePostTagsDto - The DTO containing the tags to add and remove.
+   * @returns A response containing the post with its tags.
+   */
+  @ApiTags('Posts')
+  @ApiBearerAuth()
+  @ApiOkResponse({ description: 'Update post tags successfully' })
+  @ApiBadRequestResponse({ description: 'A post needs at least one tag' })
+  @ApiNotFoundResponse({ description: 'Post not found' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @Scopes(ApiTokenScope.POSTS_WRITE)
+  @Patch(':slug/tags')
+  async updatePostTags(
+    @Req() req,
+    @Param('slug') slug: string,
+    @Body(new ValidationPipe({ transform: true }))
+    updatePostTagsDto: UpdatePostTagsDto,
+  ) {
+    return this.postsService.updateTags({
+      slug,
+      userId: req.user.sub,
+      updatePostTagsDto,
+    });
+  }
+
   @ApiTags('Posts')
   @ApiBearerAuth()
   @ApiConsumes('multipart/form-data')
@@ -244,6 +530,7 @@ export class PostsController {
     type: UpdatePostDto,
     description: 'Update post schema DTO',
   })
+  @Scopes(ApiTokenScope.POSTS_WRITE)
   @Patch(':slug')
   @FormDataRequest()
   async updatePost(
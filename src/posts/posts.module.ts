@@ -2,12 +2,31 @@ import { Module } from '@nestjs/common';
 import { PostsService } from './services/posts.service';
 import { PostsController } from './posts.controller';
 import { DatabasesModule } from 'src/databases/databases.module';
-import { StorageService } from './services/storage.service';
+import { StorageModule } from 'src/storage/storage.module';
+import { PostsSchedulerService } from './services/posts-scheduler.service';
+import { PostRevisionsService } from './services/post-revisions.service';
+import { PostRevisionsController } from './post-revisions.controller';
+import { ReactionsService } from './services/reactions.service';
+import { PostsSearchService } from './services/posts-search.service';
+import { CoverImagesService } from './services/cover-images.service';
+import { MediaReferencesService } from './services/media-references.service';
+import { MarkdownService } from './services/markdown.service';
+import { PostSlugsService } from './services/post-slugs.service';
 
 @Module({
-  imports: [DatabasesModule],
-  controllers: [PostsController],
-  providers: [PostsService, StorageService],
-  exports: [PostsService],
+  imports: [DatabasesModule, StorageModule],
+  controllers: [PostsController, PostRevisionsController],
+  providers: [
+    PostsService,
+    PostsSchedulerService,
+    PostRevisionsService,
+    ReactionsService,
+    PostsSearchService,
+    CoverImagesService,
+    MediaReferencesService,
+    MarkdownService,
+    PostSlugsService,
+  ],
+  exports: [PostsService, PostsSearchService, CoverImagesService],
 })
 export class PostsModule {}
@@ -0,0 +1,141 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MemoryStoredFile } from 'nestjs-form-data';
+import * as sharp from 'sharp';
+import { StorageService } from 'src/storage/storage.service';
+import { CoverImagesService } from './cover-images.service';
+
+describe('CoverImagesService', () => {
+  let service: CoverImagesService;
+  const storageService = {
+    createKey: jest.fn(() => 'posts/deep-work-1a2b3c4d'),
+    upload: jest.fn(),
+    removeFile: jest.fn(),
+    getUrl: jest.fn((key: string) => `https://cdn.example.com/${key}`),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CoverImagesService,
+        { provide: StorageService, useValue: storageService },
+      ],
+    }).compile();
+
+    service = module.get<CoverImagesService>(CoverImagesService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('upload', () => {
+    let file: MemoryStoredFile;
+
+    beforeAll(async () => {
+      // A 1000x500 JPEG carrying EXIF metadata
+      const buffer = await sharp({
+        create: {
+          width: 1000,
+          height: 500,
+          channels: 3,
+          background: '#3366cc',
+        },
+      })
+        .jpeg()
+        .withMetadata({ exif: { IFD0: { Copyright: 'Someone' } } })
+        .toBuffer();
+      file = {
+        buffer,
+        extension: 'jpg',
+        mimeType: 'image/jpeg',
+        originalName: 'cover.jpg',
+      } as MemoryStoredFile;
+    });
+
+    it('should store resized AVIF and WebP variants without enlarging', async () => {
+      const { cover, coverVariants, width, height } = await service.upload(
+        file,
+        { name: 'deep-work' },
+      );
+
+      expect(cover).toBe('posts/deep-work-1a2b3c4d.jpg');
+      expect([width, height]).toEqual([1000, 500]);
+      expect(
+        coverVariants.map(({ size, format, width }) => [size, format, width]),
+      ).toEqual([
+        ['thumbnail', 'avif', 320],
+        ['thumbnail', 'webp', 320],
+        ['medium', 'avif', 768],
+        ['medium', 'webp', 768],
+        ['large', 'avif', 1000],
+        ['large', 'webp', 1000],
+      ]);
+      expect(coverVariants[0]).toMatchObject({
+        height: 160,
+        key: 'posts/deep-work-1a2b3c4d-thumbnail.avif',
+      });
+      expect(storageService.upload).toHaveBeenCalledTimes(7);
+      expect(storageService.upload).toHaveBeenCalledWith(
+        'posts/deep-work-1a2b3c4d-medium.webp',
+        expect.any(Buffer),
+        'image/webp',
+      );
+    });
+
+    it('should strip EXIF metadata from every stored file', async () => {
+      await service.upload(file, { name: 'deep-work' });
+
+      for (const [, body] of storageService.upload.mock.calls) {
+        expect((await sharp(body).metadata()).exif).toBeUndefined();
+      }
+    });
+  });
+
+  describe('toImage', () => {
+    it('should build one srcset per format', () => {
+      const image = service.toImage({
+        cover: 'posts/a.jpg',
+        coverVariants: [
+          {
+            size: 'thumbnail',
+            format: 'webp',
+            width: 320,
+            height: 160,
+            key: 'posts/a-thumbnail.webp',
+          },
+          {
+            size: 'large',
+            format: 'webp',
+            width: 1280,
+            height: 640,
+            key: 'posts/a-large.webp',
+          },
+        ],
+      });
+
+      expect(image.src).toBe('https://cdn.example.com/posts/a.jpg');
+      expect(image.sources).toEqual([
+        {
+          type: 'image/webp',
+          srcset:
+            'https://cdn.example.com/posts/a-thumbnail.webp 320w, https://cdn.example.com/posts/a-large.webp 1280w',
+        },
+      ]);
+    });
+
+    it('should fall back to the original for covers without variants', () => {
+      const image = service.toImage({
+        cover: 'posts/legacy.jpg',
+        coverVariants: null,
+      });
+
+      expect(image).toEqual({
+        src: 'https://cdn.example.com/posts/legacy.jpg',
+        sources: [],
+        variants: [],
+      });
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { Injectable } from '@nestjs/common';
+import { Post, Prisma } from '@prisma/client';
+import { MemoryStoredFile } from 'nestjs-form-data';
+import * as sharp from 'sharp';
+import { StorageService } from 'src/storage/storage.service';
+
+// Widths of the resized cover variants, in pixels
+export const COVER_SIZES = {
+  thumbnail: 320,
+  medium: 768,
+  large: 1280,
+} as const;
+
+// Formats of the resized cover variants, most efficient first
+export const COVER_FORMATS = ['avif', 'webp'] as const;
+
+export type CoverSize = keyof typeof COVER_SIZES;
+export type CoverFormat = (typeof COVER_FORMATS)[number];
+
+export type CoverVariant = {
+  size: CoverSize;
+  format: CoverFormat;
+  width: number;
+  height: number;
+  key: string;
+};
+
+export type CoverImage = {
+  src: string;
+  sources: { type: string; srcset: string }[];
+  variants: (Omit<CoverVariant, 'key'> & { url: string })[];
+};
+
+/**
+ * Turns uploaded covers into responsive images: a clean original plus resized AVIF and WebP variants.
+ */
+@Injectable()
+export class CoverImagesService {
+  constructor(private storageService: StorageService) {}
+
+  /**
+   * Store an image and its resized variants, such as a post cover or an image of the media library.
+   * The image is rotated according to its EXIF orientation, and every stored file is stripped of metadata.
+   * @param file - The uploaded image.
+   * @param params - Parameters including the key prefix, defaulting to `posts`, and a readable name such as the post slug.
+   * @returns The object key of the original, the recorded variants, and the dimensions of the original.
+   */
+  async upload(
+    file: MemoryStoredFile,
+    params: { prefix?: string; name: string },
+  ) {
+    const { prefix = 'posts', name } = params;
+    const key = this.storageService.createKey({ prefix, name });
+    const image = sharp(file.buffer).rotate();
+
+    // Re-encode the original without its metadata, keeping its format
+    const cover = `${key}.${file.extension || file.originalName.split('.').pop()}`;
+    const { data: original, info } = await image
+      .clone()
+      .toBuffer({ resolveWithObject: true });
+
+    // Resize the image to every size and format, never enlarging it
+    const variants = await Promise.all(
+      Object.entries(COVER_SIZES).flatMap(([size, width]) =>
+        COVER_FORMATS.map(async (format) => {
+          const { data, info } = await image
+            .clone()
+            .resize({ width, withoutEnlargement: true })
+            .toFormat(format)
+            .toBuffer({ resolveWithObject: true });
+
+          return {
+            data,
+            variant: {
+              size: size as CoverSize,
+              format,
+              width: info.width,
+              height: info.height,
+              key: `${key}-${size}.${format}`,
+            },
+          };
+        }),
+      ),
+    );
+
+    // Store the original and the variants
+    await Promise.all([
+      this.storageService.upload(cover, original, file.mimeType),
+      ...variants.map(({ data, variant }) =>
+        this.storageService.upload(
+          variant.key,
+          data,
+          `image/${variant.format}`,
+        ),
+      ),
+    ]);
+
+    return {
+      cover,
+      coverVariants: variants.map(({ variant }) => variant),
+      width: info.width,
+      height: info.height,
+    };
+  }
+
+  /**
+   * Remove a cover and its variants from storage.
+   * @param post - The post whose cover is removed.
+   */
+  async remove(post: Pick<Post, 'cover' | 'coverVariants'>) {
+    const variants = (post.coverVariants ?? []) as CoverVariant[];
+
+    await Promise.all(
+      [post.cover, ...variants.map((variant) => variant.key)].map((key) =>
+        this.storageService.removeFile(key),
+      ),
+    );
+  }
+
+  /**
+   * Build the responsive image of a cover, ready for a `<picture>` element or an `srcset` attribute.
+   * Covers uploaded before variants existed only have a `src`.
+   * @param post - The post with its cover and recorded variants.
+   * @returns The URL of the original, one `srcset` per format and the individual variants.
+   */
+  toImage(post: { cover: string; coverVariants: Prisma.JsonValue }) {
+    const variants = ((post.coverVariants ?? []) as CoverVariant[]).map(
+      ({ key, ...variant }) => ({
+        ...variant,
+        url: this.storageService.getUrl(key),
+      }),
+    );
+
+    return {
+      src: this.storageService.getUrl(post.cover),
+      sources: COVER_FORMATS.map((format) => ({
+        type: `image/${format}`,
+        srcset: variants
+          .filter((variant) => variant.format === format)
+          .map((variant) => `${variant.url} ${variant.width}w`)
+          .join(', '),
+      })).filter((source) => source.srcset),
+      variants,
+    } satisfies CoverImage;
+  }
+
+  /**
+   * Add the responsive cover image to each post.
+   * @param posts - The posts to extend.
+   * @returns The posts with a `coverImage` field.
+   */
+  attach<T extends { cover: string; coverVariants: Prisma.JsonValue }>(
+    posts: T[],
+  ) {
+    return posts.map((post) => ({ ...post, coverImage: this.toImage(post) }));
+  }
+}
@@ -0,0 +1,90 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DatabasesService } from 'src/databases/databases.service';
+import { MarkdownService } from './markdown.service';
+
+describe('MarkdownService', () => {
+  let service: MarkdownService;
+  const prisma = { post: { findMany: jest.fn(), update: jest.fn() } };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MarkdownService,
+        { provide: DatabasesService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<MarkdownService>(MarkdownService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('render', () => {
+    it('should give headings unique anchors and list them in the table of contents', () => {
+      const { html, toc } = service.render(
+        '# Deep *work*\n\n## Setup\n\ntext\n\n## Setup\n\n### The `cron` job',
+      );
+
+      expect(html).toContain('<h1 id="deep-work">Deep <em>work</em></h1>');
+      expect(html).toContain('<h2 id="setup">Setup</h2>');
+      expect(html).toContain('<h2 id="setup-1">Setup</h2>');
+      expect(toc).toEqual([
+        { level: 1, text: 'Deep work', id: 'deep-work' },
+        { level: 2, text: 'Setup', id: 'setup' },
+        { level: 2, text: 'Setup', id: 'setup-1' },
+        { level: 3, text: 'The cron job', id: 'the-cron-job' },
+      ]);
+    });
+
+    it('should highlight fenced code of known languages', () => {
+      const { html } = service.render('```js\nconst answer = 42;\n```');
+
+      expect(html).toContain('<code class="language-js">');
+      expect(html).toContain('<span class="hljs-keyword">const</span>');
+    });
+
+    it('should strip scripts, event handlers and unsafe links', () => {
+      const { html } = service.render(
+        [
+          '<script>alert(1)</script>',
+          '<img src="/media/desk-1a2b3c4d.png" onerror="alert(1)">',
+          '<a href="javascript:alert(1)">click</a> <a href="https://example.com" style="color:red">ok</a>',
+        ].join('\n\n'),
+      );
+
+      expect(html).not.toContain('<script');
+      expect(html).not.toContain('onerror');
+      expect(html).not.toContain('javascript:');
+      expect(html).not.toContain('style=');
+      expect(html).toContain('<img src="/media/desk-1a2b3c4d.png" />');
+      expect(html).toContain(
+        '<a href="https://example.com" rel="nofollow noopener">ok</a>',
+      );
+    });
+  });
+
+  describe('readingTime', () => {
+    it('should round up to whole minutes, with at least one minute', () => {
+      expect(service.readingTime('')).toBe(1);
+      expect(service.readingTime('word '.repeat(201))).toBe(2);
+    });
+  });
+
+  it('should render the posts missing HTML on bootstrap', async () => {
+    prisma.post.findMany.mockResolvedValue([{ id: 'post-1', body: '# Hi' }]);
+
+    await service.onApplicationBootstrap();
+
+    expect(prisma.post.update).toHaveBeenCalledWith({
+      where: { id: 'post-1' },
+      data: {
+        bodyHtml: '<h1 id="hi">Hi</h1>\n',
+        toc: [{ level: 1, text: 'Hi', id: 'hi' }],
+      },
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { Injectable, OnApplicationBootstrap } from '@nestjs/common';
+import hljs from 'highlight.js/lib/common';
+import * as MarkdownIt from 'markdown-it';
+import * as sanitizeHtml from 'sanitize-html';
+import * as slug from 'slug';
+import { DatabasesService } from 'src/databases/databases.service';
+
+export type TocEntry = { level: number; text: string; id: string };
+
+// Average reading speed used for reading time estimates, in words per minute
+const WORDS_PER_MINUTE = 200;
+
+// Number of posts rendered at once when filling in missing HTML
+const BACKFILL_BATCH_SIZE = 100;
+
+// Allow-list applied to the rendered HTML: everything not listed here is stripped
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: [
+    ...sanitizeHtml.defaults.allowedTags,
+    'img',
+    'del',
+    'ins',
+    'sup',
+    'sub',
+  ],
+  allowedAttributes: {
+    a: ['href', 'title', 'rel'],
+    img: ['src', 'alt', 'title', 'width', 'height'],
+    h1: ['id'],
+    h2: ['id'],
+    h3: ['id'],
+    h4: ['id'],
+    h5: ['id'],
+    h6: ['id'],
+    th: ['align'],
+    td: ['align'],
+  },
+  allowedClasses: {
+    code: ['language-*'],
+    span: ['hljs-*'],
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  transformTags: {
+    a: sanitizeHtml.simpleTransform('a', { rel: 'nofollow noopener' }),
+  },
+};
+
+/**
+ * Markdown-it plugin giving every heading a unique `id` and collecting the table of contents in `env.toc`.
+ * @param md - The Markdown-it instance.
+ */
+function headingAnchors(md: MarkdownIt) {
+  md.core.ruler.push('heading_anchors', (state) => {
+    const toc: TocEntry[] = (state.env.toc = []);
+    const used = new Map<string, number>();
+
+    state.tokens.forEach((token, index) => {
+      if (token.type !== 'heading_open') return;
+
+      // Use the plain text of the heading, without its inline markup
+      const text = state.tokens[index + 1].children
+        .filter((child) => ['text', 'code_inline'].includes(child.type))
+        .map((child) => child.content)
+        .join('');
+
+      // Repeated headings get a numeric suffix, like `setup`, `setup-1`
+      const base = slug(text) || 'section';
+      const count = used.get(base) ?? 0;
+      used.set(base, count + 1);
+      const id = count ? `${base}-${count}` : base;
+
+      token.attrSet('id', id);
+      toc.push({ level: Number(token.tag.slice(1)), text, id });
+    });
+  });
+}
+
+/**
+ * Renders post bodies from Markdown to sanitized HTML, so clients do not have to render them themselves.
+ */
+@Injectable()
+export class MarkdownService implements OnApplicationBootstrap {
+  private markdown = new MarkdownIt({
+    html: true,
+    linkify: true,
+    highlight: (code, language) =>
+      language && hljs.getLanguage(language)
+        ? hljs.highlight(code, { language, ignoreIllegals: true }).value
+        : '',
+  }).use(headingAnchors);
+
+  constructor(private prisma: DatabasesService) {}
+
+  /**
+   * Renders the posts that have no HTML yet, such as posts created before rendering existed.
+   */
+  async onApplicationBootstrap() {
+    try {
+      let posts: { id: string; body: string }[];
+      do {
+        posts = await this.prisma.post.findMany({
+          where: { bodyHtml: null },
+          select: { id: true, body: true },
+          take: BACKFILL_BATCH_SIZE,
+        });
+        for (const post of posts) {
+          const { html, toc } = this.render(post.body);
+          await this.prisma.post.update({
+            where: { id: post.id },
+            data: { bodyHtml: html, toc },
+          });
+        }
+      } while (posts.length === BACKFILL_BATCH_SIZE);
+    } catch (error) {
+      console.error('Failed to render post bodies', error);
+    }
+  }
+
+  /**
+   * Render a Markdown body to HTML.
+   * Fenced code gets syntax-highlight classes and headings get anchors; the HTML is then sanitized with an allow-list.
+   * @param body - The Markdown source.
+   * @returns The sanitized HTML and the table of contents built from the headings.
+   */
+  render(body: string) {
+    const env: { toc?: TocEntry[] } = {};
+    const html = this.markdown.render(body, env);
+
+    return { html: sanitizeHtml(html, SANITIZE_OPTIONS), toc: env.toc ?? [] };
+  }
+
+  /**
+   * Estimate how long reading a body takes.
+   * @param body - The Markdown source.
+   * @returns The reading time in minutes, at least one.
+   */
+  readingTime(body: string) {
+    const words = body.match(/\S+/g)?.length ?? 0;
+
+    return Math.max(1, Math.ceil(words / WORDS_PER_MINUTE));
+  }
+}
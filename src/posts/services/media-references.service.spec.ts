@@ -0,0 +1,57 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DatabasesService } from 'src/databases/databases.service';
+import { MediaReferencesService } from './media-references.service';
+
+describe('MediaReferencesService', () => {
+  let service: MediaReferencesService;
+  const prisma = { media: { findMany: jest.fn() } };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MediaReferencesService,
+        { provide: DatabasesService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<MediaReferencesService>(MediaReferencesService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it("should reference the author's media mentioned in the body, once each", async () => {
+    prisma.media.findMany.mockResolvedValue([{ id: 'media-1' }]);
+
+    const references = await service.build({
+      authorId: 'user-1',
+      body: [
+        '![desk](https://cdn.example.com/media/desk-1a2b3c4d-medium.webp)',
+        '<img src="/media/desk-1a2b3c4d.png">',
+        '![chart](/media/chart-00ff00ff-large.avif)',
+      ].join('\n'),
+    });
+
+    expect(prisma.media.findMany.mock.calls[0][0].where).toEqual({
+      ownerId: 'user-1',
+      OR: [
+        { key: { startsWith: 'media/desk-1a2b3c4d.' } },
+        { key: { startsWith: 'media/chart-00ff00ff.' } },
+      ],
+    });
+    expect(references).toEqual([{ media: { connect: { id: 'media-1' } } }]);
+  });
+
+  it('should not query anything when the body uses no media', async () => {
+    const references = await service.build({
+      authorId: 'user-1',
+      body: '![elsewhere](https://example.com/posts/cover-1a2b3c4d.png)',
+    });
+
+    expect(references).toEqual([]);
+    expect(prisma.media.findMany).not.toHaveBeenCalled();
+  });
+});
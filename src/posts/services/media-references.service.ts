@@ -0,0 +1,43 @@
+import { Injectable } from '@nestjs/common';
+import { DatabasesService } from 'src/databases/databases.service';
+
+// Media library files mentioned in a body, e.g. `![](https://cdn.example.com/media/photo-1a2b3c4d-medium.webp)`
+const MEDIA_KEY =
+  /\bmedia\/([a-z0-9-]+-[0-9a-f]{8})(?:-(?:thumbnail|medium|large))?\.[a-z0-9]+/gi;
+
+/**
+ * Tracks which media of the library a post body uses, so media in use cannot be deleted.
+ */
+@Injectable()
+export class MediaReferencesService {
+  constructor(private prisma: DatabasesService) {}
+
+  /**
+   * Build the references from a post to the media its body uses.
+   * Only media of the post's author count, other users' media are not tracked.
+   * @param params - Parameters including the author's ID and the body of the post.
+   * @returns The references to create, for a nested write on the post's `media` relation.
+   */
+  async build(params: { authorId: string; body: string }) {
+    const { authorId, body } = params;
+
+    // Collect the object keys mentioned in the body, without size suffix or extension
+    const keys = [
+      ...new Set(
+        [...body.matchAll(MEDIA_KEY)].map(([, key]) => `media/${key}`),
+      ),
+    ];
+    if (!keys.length) return [];
+
+    // Find the author's media stored under those keys
+    const media = await this.prisma.media.findMany({
+      where: {
+        ownerId: authorId,
+        OR: keys.map((key) => ({ key: { startsWith: `${key}.` } })),
+      },
+      select: { id: true },
+    });
+
+    return media.map(({ id }) => ({ media: { connect: { id } } }));
+  }
+}
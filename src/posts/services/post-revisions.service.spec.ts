@@ -0,0 +1,162 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { DatabasesService } from 'src/databases/databases.service';
+import { MarkdownService } from './markdown.service';
+import { MediaReferencesService } from './media-references.service';
+import { PostRevisionsService } from './post-revisions.service';
+import { PostSlugsService } from './post-slugs.service';
+import { PostsSearchService } from './posts-search.service';
+
+describe('PostRevisionsService', () => {
+  let service: PostRevisionsService;
+  const prisma = {
+    post: { findFirst: jest.fn(), update: jest.fn() },
+    postRevision: { create: jest.fn(), findFirst: jest.fn() },
+    $transaction: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PostRevisionsService,
+        { provide: DatabasesService, useValue: prisma },
+        { provide: PostsSearchService, useValue: { refresh: jest.fn() } },
+        {
+          provide: PostSlugsService,
+          useValue: {
+            generate: jest.fn().mockResolvedValue('old-title'),
+            rename: jest.fn().mockReturnValue([]),
+          },
+        },
+        {
+          provide: MediaReferencesService,
+          useValue: { build: jest.fn().mockResolvedValue([]) },
+        },
+        {
+          provide: MarkdownService,
+          useValue: {
+            render: jest
+              .fn()
+              .mockReturnValue({ html: '<p>old body</p>', toc: [] }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PostRevisionsService>(PostRevisionsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('diff', () => {
+    it('should report added, removed and unchanged lines', () => {
+      const result = service.diff('one\ntwo\nthree\n', 'one\n2\nthree\nfour\n');
+
+      expect(result).toEqual({
+        added: 2,
+        removed: 1,
+        changes: [
+          { type: 'unchanged', lines: ['one'] },
+          { type: 'removed', lines: ['two'] },
+          { type: 'added', lines: ['2'] },
+          { type: 'unchanged', lines: ['three'] },
+          { type: 'added', lines: ['four'] },
+        ],
+      });
+    });
+
+    it('should report no changes for identical bodies', () => {
+      const result = service.diff('same\nbody', 'same\nbody');
+
+      expect(result.added).toBe(0);
+      expect(result.removed).toBe(0);
+    });
+  });
+
+  describe('restoreRevision', () => {
+    const post = {
+      id: 'post-1',
+      title: 'current title',
+      summary: 'current summary',
+      body: 'current body',
+    };
+    const revision = {
+      id: 'revision-1',
+      postId: 'post-1',
+      title: 'old title',
+      summary: 'old summary',
+      body: 'old body',
+    };
+
+    it('should snapshot the current content and restore the revision', async () => {
+      prisma.post.findFirst.mockResolvedValue(post);
+      prisma.postRevision.findFirst.mockResolvedValue(revision);
+      prisma.$transaction.mockResolvedValue([{}, { ...post, ...revision }]);
+
+      const result = await service.restoreRevision({
+        slug: 'current-title',
+        revisionId: 'revision-1',
+        userId: 'user-1',
+      });
+
+      expect(prisma.postRevision.create).toHaveBeenCalledWith({
+        data: {
+          title: post.title,
+          summary: post.summary,
+          body: post.body,
+          post: { connect: { id: post.id } },
+        },
+      });
+      expect(prisma.post.update).toHaveBeenCalledWith({
+        where: { id: post.id },
+        data: {
+          title: revision.title,
+          summary: revision.summary,
+          body: revision.body,
+          bodyHtml: '<p>old body</p>',
+          toc: [],
+          slug: 'old-title',
+          media: { deleteMany: {}, create: [] },
+        },
+      });
+      expect(result.data.body).toBe('old body');
+    });
+
+    it('should throw ConflictException when a concurrent update took the slug', async () => {
+      prisma.post.findFirst.mockResolvedValue(post);
+      prisma.postRevision.findFirst.mockResolvedValue(revision);
+      prisma.$transaction.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('x', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+
+      await expect(
+        service.restoreRevision({
+          slug: 'current-title',
+          revisionId: 'revision-1',
+          userId: 'user-1',
+        }),
+      ).rejects.toBeInstanceOf(ConflictException);
+    });
+
+    it('should throw NotFoundException for a revision of another post', async () => {
+      prisma.post.findFirst.mockResolvedValue(post);
+      prisma.postRevision.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.restoreRevision({
+          slug: 'current-title',
+          revisionId: 'revision-2',
+          userId: 'user-1',
+        }),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+});
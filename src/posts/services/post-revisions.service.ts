@@ -0,0 +1,253 @@
+import {
+  ConflictException,
+  HttpStatus,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Post, Prisma } from '@prisma/client';
+import { diffLines } from 'diff';
+import { DatabasesService } from 'src/databases/databases.service';
+import { MarkdownService } from './markdown.service';
+import { MediaReferencesService } from './media-references.service';
+import { PostSlugsService } from './post-slugs.service';
+import { PostsSearchService } from './posts-search.service';
+
+@Injectable()
+export class PostRevisionsService {
+  constructor(
+    private prisma: DatabasesService,
+    private postsSearchService: PostsSearchService,
+    private mediaReferencesService: MediaReferencesService,
+    private markdownService: MarkdownService,
+    private postSlugsService: PostSlugsService,
+  ) {}
+
+  /**
+   * Build the query storing a snapshot of the post's current content.
+   * The query is not executed, so it can be part of a transaction.
+   * @param post - The post to snapshot.
+   * @returns The pending create query for the revision.
+   */
+  snapshot(post: Pick<Post, 'id' | 'title' | 'summary' | 'body'>) {
+    return this.prisma.postRevision.create({
+      data: {
+        title: post.title,
+        summary: post.summary,
+        body: post.body,
+        post: { connect: { id: post.id } },
+      },
+    });
+  }
+
+  /**
+   * Compute a line-level diff between two versions of a body.
+   * @param from - The older body.
+   * @param to - The newer body.
+   * @returns The changed and unchanged chunks, in order, with totals of added and removed lines.
+   */
+  diff(from: string, to: string) {
+    const changes = diffLines(from, to).map((change) => ({
+      type: change.added ? 'added' : change.removed ? 'removed' : 'unchanged',
+      lines: change.value.replace(/\n$/, '').split('\n'),
+    }));
+
+    // Count the lines on each side of the diff
+    const count = (type: string) =>
+      changes
+        .filter((change) => change.type === type)
+        .reduce((total, change) => total + change.lines.length, 0);
+
+    return { added: count('added'), removed: count('removed'), changes };
+  }
+
+  /**
+   * Retrieve the revision history of a post owned by the user.
+   * @param params - Parameters including the post slug and user ID.
+   * @returns A response containing the revisions, newest first, without their body.
+   * @throws NotFoundException if the post is not found.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async getRevisions(params: { slug: string; userId: string }) {
+    try {
+      // Find the post owned by the user
+      const post = await this.findOwnPost(params);
+
+      // Retrieve the revisions of the post
+      const revisions = await this.prisma.postRevision.findMany({
+        where: { postId: post.id },
+        select: { id: true, title: true, summary: true, createdAt: true },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      // Return a response containing the revisions
+      return {
+        message: 'Get post revisions successfully',
+        statusCode: HttpStatus.OK,
+        data: revisions,
+      };
+    } catch (error) {
+      // If the error is a NotFoundException, re-throw it
+      if (error instanceof NotFoundException) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to get post revisions.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Compare a revision's body against the current body of the post.
+   * @param params - Parameters including the post slug, revision ID, and user ID.
+   * @returns A response containing the line-level diff from the revision to the current body.
+   * @throws NotFoundException if the post or revision is not found.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async diffRevision(params: {
+    slug: string;
+    revisionId: string;
+    userId: string;
+  }) {
+    try {
+      // Find the post and the requested revision
+      const post = await this.findOwnPost(params);
+      const revision = await this.findRevision(post.id, params.revisionId);
+
+      // Return a response containing the diff
+      return {
+        message: 'Get revision diff successfully',
+        statusCode: HttpStatus.OK,
+        data: {
+          revisionId: revision.id,
+          createdAt: revision.createdAt,
+          ...this.diff(revision.body, post.body),
+        },
+      };
+    } catch (error) {
+      // If the error is a NotFoundException, re-throw it
+      if (error instanceof NotFoundException) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to get revision diff.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Restore a post to the content of one of its revisions.
+   * The current content is stored as a new revision first, so a restore can be undone.
+   * @param params - Parameters including the post slug, revision ID, and user ID.
+   * @returns A response containing the restored post.
+   * @throws NotFoundException if the post or revision is not found.
+   * @throws ConflictException if a concurrent update took the restored slug in the meantime.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async restoreRevision(params: {
+    slug: string;
+    revisionId: string;
+    userId: string;
+  }) {
+    try {
+      // Find the post and the revision to restore
+      const post = await this.findOwnPost(params);
+      const revision = await this.findRevision(post.id, params.revisionId);
+
+      // Generate a free slug for the restored title
+      const newSlug = await this.postSlugsService.generate({
+        title: revision.title,
+        postId: post.id,
+      });
+
+      // Render the restored body and track the media it uses
+      const { html, toc } = this.markdownService.render(revision.body);
+      const media = await this.mediaReferencesService.build({
+        authorId: post.authorId,
+        body: revision.body,
+      });
+
+      // Snapshot the current content and restore the revision atomically
+      const [, restoredPost] = await this.prisma.$transaction([
+        this.snapshot(post),
+        this.prisma.post.update({
+          where: { id: post.id },
+          data: {
+            title: revision.title,
+            summary: revision.summary,
+            body: revision.body,
+            bodyHtml: html,
+            toc,
+            slug: newSlug,
+            media: { deleteMany: {}, create: media },
+          },
+        }),
+        ...this.postSlugsService.rename(post, newSlug),
+        this.postsSearchService.refresh(post.id),
+      ]);
+
+      // Return a response containing the restored post
+      return {
+        message: 'Restore post revision successfully',
+        statusCode: HttpStatus.OK,
+        data: restoredPost,
+      };
+    } catch (error) {
+      // A concurrent update took the same slug in the meantime
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException('post changed in the meantime, try again');
+      }
+
+      // If the error is a NotFoundException, re-throw it
+      if (error instanceof NotFoundException) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to restore post revision.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Find a post by slug that is owned by the user.
+   * @param params - Parameters including the post slug and user ID.
+   * @returns The post.
+   * @throws NotFoundException if the post is not found.
+   */
+  private async findOwnPost(params: { slug: string; userId: string }) {
+    const post = await this.prisma.post.findFirst({
+      where: { slug: params.slug, authorId: params.userId },
+    });
+    if (!post) throw new NotFoundException('Post not found');
+
+    return post;
+  }
+
+  /**
+   * Find a revision belonging to a post.
+   * @param postId - ID of the post.
+   * @param revisionId - ID of the revision.
+   * @returns The revision.
+   * @throws NotFoundException if the revision is not found.
+   */
+  private async findRevision(postId: string, revisionId: string) {
+    const revision = await this.prisma.postRevision.findFirst({
+      where: { id: revisionId, postId },
+    });
+    if (!revision) throw new NotFoundException('Revision not found');
+
+    return revision;
+  }
+}
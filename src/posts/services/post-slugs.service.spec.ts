@@ -0,0 +1,86 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DatabasesService } from 'src/databases/databases.service';
+import { PostSlugsService } from './post-slugs.service';
+
+describe('PostSlugsService', () => {
+  let service: PostSlugsService;
+  const prisma = {
+    post: { findMany: jest.fn() },
+    postSlugHistory: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      deleteMany: jest.fn(),
+      create: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PostSlugsService,
+        { provide: DatabasesService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<PostSlugsService>(PostSlugsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('generate', () => {
+    it('should use the slug of the title when it is free', async () => {
+      prisma.post.findMany.mockResolvedValue([{ slug: 'deep-work-tips' }]);
+      prisma.postSlugHistory.findMany.mockResolvedValue([]);
+
+      await expect(service.generate({ title: 'Deep Work' })).resolves.toBe(
+        'deep-work',
+      );
+    });
+
+    it('should add a numeric suffix to slugs used by other posts, now or before', async () => {
+      prisma.post.findMany.mockResolvedValue([{ slug: 'deep-work' }]);
+      prisma.postSlugHistory.findMany.mockResolvedValue([
+        { slug: 'deep-work-2' },
+      ]);
+
+      await expect(
+        service.generate({ title: 'Deep Work', postId: 'post-1' }),
+      ).resolves.toBe('deep-work-3');
+      expect(prisma.post.findMany.mock.calls[0][0].where).toEqual({
+        slug: { startsWith: 'deep-work' },
+        id: { not: 'post-1' },
+      });
+      expect(prisma.postSlugHistory.findMany.mock.calls[0][0].where).toEqual({
+        slug: { startsWith: 'deep-work' },
+        postId: { not: 'post-1' },
+      });
+    });
+  });
+
+  describe('rename', () => {
+    it('should remember the previous slug and release the new one from the history', () => {
+      prisma.postSlugHistory.deleteMany.mockReturnValue('delete');
+      prisma.postSlugHistory.create.mockReturnValue('create');
+
+      const queries = service.rename({ id: 'post-1', slug: 'old' }, 'new');
+
+      expect(queries).toEqual(['delete', 'create']);
+      expect(prisma.postSlugHistory.deleteMany).toHaveBeenCalledWith({
+        where: { slug: 'new', postId: 'post-1' },
+      });
+      expect(prisma.postSlugHistory.create).toHaveBeenCalledWith({
+        data: { slug: 'old', post: { connect: { id: 'post-1' } } },
+      });
+    });
+
+    it('should do nothing when the slug does not change', () => {
+      expect(service.rename({ id: 'post-1', slug: 'same' }, 'same')).toEqual(
+        [],
+      );
+    });
+  });
+});
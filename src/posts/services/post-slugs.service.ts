@@ -0,0 +1,78 @@
+import { Injectable } from '@nestjs/common';
+import { Post } from '@prisma/client';
+import * as slug from 'slug';
+import { DatabasesService } from 'src/databases/databases.service';
+
+/**
+ * Generates unique post slugs and remembers the previous slugs of each post, so old links keep working.
+ */
+@Injectable()
+export class PostSlugsService {
+  constructor(private prisma: DatabasesService) {}
+
+  /**
+   * Generate a free slug for a title.
+   * Slugs used by another post, now or in the past, are taken: a numeric suffix is added instead, like `my-post-2`.
+   * @param params - Parameters including the title and, when renaming, the ID of the post.
+   * @returns The slug.
+   */
+  async generate(params: { title: string; postId?: string }) {
+    const { title, postId } = params;
+    const base = slug(title);
+
+    // Collect the slugs starting like this one that belong to other posts
+    const [posts, history] = await Promise.all([
+      this.prisma.post.findMany({
+        where: { slug: { startsWith: base }, id: { not: postId } },
+        select: { slug: true },
+      }),
+      this.prisma.postSlugHistory.findMany({
+        where: { slug: { startsWith: base }, postId: { not: postId } },
+        select: { slug: true },
+      }),
+    ]);
+    const taken = new Set([...posts, ...history].map((entry) => entry.slug));
+
+    // Use the first free slug
+    let candidate = base;
+    for (let suffix = 2; taken.has(candidate); suffix++)
+      candidate = `${base}-${suffix}`;
+
+    return candidate;
+  }
+
+  /**
+   * Build the queries remembering the current slug of a post when it changes.
+   * A post going back to one of its previous slugs takes it out of the history.
+   * The queries are not executed, so they can be part of a transaction.
+   * @param post - The post being renamed.
+   * @param newSlug - The new slug of the post.
+   * @returns The pending queries, none if the slug does not change.
+   */
+  rename(post: Pick<Post, 'id' | 'slug'>, newSlug: string) {
+    if (newSlug === post.slug) return [];
+
+    return [
+      this.prisma.postSlugHistory.deleteMany({
+        where: { slug: newSlug, postId: post.id },
+      }),
+      this.prisma.postSlugHistory.create({
+        data: { slug: post.slug, post: { connect: { id: post.id } } },
+      }),
+    ];
+  }
+
+  /**
+   * Find the post a previous slug belongs to.
+   * @param oldSlug - The previous slug.
+   * @returns The current slug and ID of the post, if the slug was ever used.
+   */
+  async resolve(oldSlug: string) {
+    const entry = await this.prisma.postSlugHistory.findUnique({
+      where: { slug: oldSlug },
+      select: { post: { select: { id: true, slug: true } } },
+    });
+
+    return entry?.post;
+  }
+}
@@ -0,0 +1,64 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PostStatus } from '@prisma/client';
+import { DatabasesService } from 'src/databases/databases.service';
+import { PostsSchedulerService } from './posts-scheduler.service';
+
+describe('PostsSchedulerService', () => {
+  let service: PostsSchedulerService;
+  const prisma = {
+    post: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PostsSchedulerService,
+        { provide: DatabasesService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<PostsSchedulerService>(PostsSchedulerService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should publish due drafts with their scheduled date', async () => {
+    const publishAt = new Date('2024-01-01T08:00:00.000Z');
+    prisma.post.findMany.mockResolvedValue([{ id: 'post-1', publishAt }]);
+    prisma.post.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(service.publishDuePosts()).resolves.toBe(1);
+    expect(prisma.post.updateMany).toHaveBeenCalledWith({
+      where: { id: 'post-1', status: PostStatus.DRAFT, publishAt },
+      data: {
+        status: PostStatus.PUBLISHED,
+        publishedAt: publishAt,
+        publishAt: null,
+      },
+    });
+  });
+
+  it('should not count posts changed since they were read', async () => {
+    prisma.post.findMany.mockResolvedValue([
+      { id: 'post-1', publishAt: new Date() },
+    ]);
+    prisma.post.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.publishDuePosts()).resolves.toBe(0);
+  });
+
+  it('should catch up on due schedules when the application starts', async () => {
+    prisma.post.findMany.mockResolvedValue([]);
+
+    await service.onApplicationBootstrap();
+
+    expect(prisma.post.findMany).toHaveBeenCalledTimes(1);
+  });
+});
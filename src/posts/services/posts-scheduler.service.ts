@@ -0,0 +1,68 @@
+import { Injectable, OnApplicationBootstrap } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PostStatus } from '@prisma/client';
+import { DatabasesService } from 'src/databases/databases.service';
+
+/**
+ * In-process job runner that publishes scheduled drafts once their publish date is reached.
+ * Pending schedules live in the database, so nothing is lost when the application restarts.
+ */
+@Injectable()
+export class PostsSchedulerService implements OnApplicationBootstrap {
+  private running = false;
+
+  constructor(private prisma: DatabasesService) {}
+
+  /**
+   * Catches up on schedules that became due while the application was down.
+   */
+  async onApplicationBootstrap() {
+    await this.publishDuePosts();
+  }
+
+  /**
+   * Publishes every draft whose publish date has passed.
+   * The post keeps its scheduled date as `publishedAt`.
+   * @returns The number of posts published.
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async publishDuePosts() {
+    // Skip this tick if the previous run is still going
+    if (this.running) return 0;
+    this.running = true;
+
+    try {
+      // Read the pending schedules that are due
+      const duePosts = await this.prisma.post.findMany({
+        where: { status: PostStatus.DRAFT, publishAt: { lte: new Date() } },
+        select: { id: true, publishAt: true },
+      });
+
+      // Publish each post, guarding against it being changed in the meantime
+      let published = 0;
+      for (const post of duePosts) {
+        const { count } = await this.prisma.post.updateMany({
+          where: {
+            id: post.id,
+            status: PostStatus.DRAFT,
+            publishAt: post.publishAt,
+          },
+          data: {
+            status: PostStatus.PUBLISHED,
+            publishedAt: post.publishAt,
+            publishAt: null,
+          },
+        });
+        published += count;
+      }
+
+      return published;
+    } catch (error) {
+      // Log the error, the next tick will retry
+      console.error('Failed to publish scheduled posts', error);
+      return 0;
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { encodeCursor } from 'src/common/pagination/cursor';
+import { DatabasesService } from 'src/databases/databases.service';
+import { PostsSearchService, toTsQuery } from './posts-search.service';
+
+describe('toTsQuery', () => {
+  it('should require every word', () => {
+    expect(toTsQuery('time management')).toBe('time & management');
+  });
+
+  it('should turn quoted text into a phrase', () => {
+    expect(toTsQuery('"time management" tips')).toBe(
+      '(time <-> management) & tips',
+    );
+  });
+
+  it('should turn a trailing star into a prefix match', () => {
+    expect(toTsQuery('produc*')).toBe('produc:*');
+  });
+
+  it('should drop tsquery operators and punctuation', () => {
+    expect(toTsQuery("it's & (fast) | !slow:*")).toBe('it & s & fast & slow:*');
+  });
+
+  it('should return undefined without any words', () => {
+    expect(toTsQuery(' "" & * ')).toBeUndefined();
+  });
+});
+
+describe('PostsSearchService', () => {
+  let service: PostsSearchService;
+  const prisma = {
+    $queryRaw: jest.fn(),
+    post: { findMany: jest.fn() },
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PostsSearchService,
+        { provide: DatabasesService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<PostsSearchService>(PostsSearchService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should keep the ranked order and attach highlights', async () => {
+    prisma.$queryRaw.mockResolvedValue([
+      {
+        id: 'p2',
+        rank: 0.9,
+        title: '<mark>Time</mark>',
+        summary: '',
+        body: '',
+      },
+      { id: 'p1', rank: 0.1, title: 'Other', summary: '', body: '' },
+    ]);
+    prisma.post.findMany.mockResolvedValue([{ id: 'p1' }, { id: 'p2' }]);
+
+    const result = await service.search({ q: 'time', take: 20 });
+
+    expect(result.data.map((post) => post.id)).toEqual(['p2', 'p1']);
+    expect(result.meta).toEqual({ nextCursor: null, hasMore: false });
+    expect(result.data[0].search).toEqual({
+      rank: 0.9,
+      highlights: { title: '<mark>Time</mark>', summary: '', body: '' },
+    });
+  });
+
+  it('should only keep the mark tags in highlights', async () => {
+    prisma.$queryRaw.mockResolvedValue([
+      {
+        id: 'p1',
+        rank: 0.9,
+        title: '<mark>Time</mark> <b onclick="steal()">tips</b>',
+        summary: '1 < 2 & <mark onmouseover="steal()">time</mark>',
+        body: '<script>steal()</script><img src=x onerror="steal()"><mark>time</mark>',
+      },
+    ]);
+    prisma.post.findMany.mockResolvedValue([{ id: 'p1' }]);
+
+    const result = await service.search({ q: 'time', take: 20 });
+
+    expect(result.data[0].search.highlights).toEqual({
+      title: '<mark>Time</mark> tips',
+      summary: '1 &lt; 2 &amp; <mark>time</mark>',
+      body: '<mark>time</mark>',
+    });
+  });
+
+  it('should not query the database for an empty search', async () => {
+    const result = await service.search({ q: '""', take: 20 });
+
+    expect(result.data).toEqual([]);
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it('should return a cursor to the row after the page', async () => {
+    prisma.$queryRaw.mockResolvedValue([
+      { id: 'p2', rank: 0.9, sortKey: 0.9, title: '', summary: '', body: '' },
+      { id: 'p1', rank: 0.1, sortKey: 0.1, title: '', summary: '', body: '' },
+    ]);
+    prisma.post.findMany.mockResolvedValue([{ id: 'p1' }, { id: 'p2' }]);
+
+    const result = await service.search({ q: 'time', take: 1 });
+
+    expect(result.data.map((post) => post.id)).toEqual(['p2']);
+    expect(result.meta).toEqual({
+      nextCursor: encodeCursor('rank', 0.9, 'p2'),
+      hasMore: true,
+    });
+  });
+
+  it('should refuse a cursor from another sort order', async () => {
+    await expect(
+      service.search({
+        q: 'time',
+        take: 20,
+        cursor: encodeCursor('title', 'Time', 'p2'),
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,295 @@
+import {
+  BadRequestException,
+  HttpStatus,
+  Injectable,
+  InternalServerErrorException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import * as sanitizeHtml from 'sanitize-html';
+import {
+  CursorValue,
+  CursorValueKind,
+  decodeCursor,
+  encodeCursor,
+  toPage,
+} from 'src/common/pagination/cursor';
+import { DatabasesService } from 'src/databases/databases.service';
+import { SortEnum } from '../enums/post-sort.enum';
+
+type SearchRow = {
+  id: string;
+  rank: number;
+  sortKey: CursorValue;
+  title: string;
+  summary: string;
+  body: string;
+};
+
+// Options for the highlighted snippets returned with search results
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2';
+const TITLE_HEADLINE_OPTIONS =
+  'StartSel=<mark>, StopSel=</mark>, HighlightAll=true';
+
+// Snippets are built from the raw title, summary and Markdown body: keep only the <mark> tags of the matches
+const HIGHLIGHT_SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: ['mark'],
+  allowedAttributes: {},
+};
+
+// Weighted document: title first, then tag names, summary and body
+const SEARCH_DOCUMENT = Prisma.sql`
+  setweight(to_tsvector('english', p.title), 'A') ||
+  setweight(to_tsvector('english', coalesce((
+    SELECT string_agg(t.name, ' ')
+    FROM "TagsOnPosts" tp JOIN "Tag" t ON t.id = tp."tagId"
+    WHERE tp."postId" = p.id
+  ), '')), 'B') ||
+  setweight(to_tsvector('english', p.summary), 'C') ||
+  setweight(to_tsvector('english', p.body), 'D')`;
+
+// Rank of a post for the search query, as a double so it survives being sent back in a cursor
+const RANK = Prisma.sql`ts_rank_cd(p."searchVector", query)::float8`;
+
+// Sort keys of search results, by sort option; the post ID breaks ties
+const SORT_KEYS: Record<
+  SortEnum,
+  {
+    key: string;
+    kind: CursorValueKind;
+    column: Prisma.Sql;
+    descending: boolean;
+  }
+> = {
+  [SortEnum.RELEVANCE]: {
+    key: 'rank',
+    kind: 'number',
+    column: RANK,
+    descending: true,
+  },
+  [SortEnum.TITLE_ASC]: {
+    key: 'title',
+    kind: 'string',
+    column: Prisma.sql`p.title`,
+    descending: false,
+  },
+  [SortEnum.TITLE_DESC]: {
+    key: 'title',
+    kind: 'string',
+    column: Prisma.sql`p.title`,
+    descending: true,
+  },
+  [SortEnum.DATE_ASC]: {
+    key: 'createdAt',
+    kind: 'date',
+    column: Prisma.sql`p."createdAt"`,
+    descending: false,
+  },
+  [SortEnum.DATE_DESC]: {
+    key: 'createdAt',
+    kind: 'date',
+    column: Prisma.sql`p."createdAt"`,
+    descending: true,
+  },
+  [SortEnum.REACTIONS_DESC]: {
+    key: 'reactionCount',
+    kind: 'number',
+    column: Prisma.sql`p."reactionCount"`,
+    descending: true,
+  },
+};
+
+/**
+ * Splits text into lowercase words, dropping anything that is not a letter or digit.
+ * @param text - The text to split.
+ * @returns The words of the text.
+ */
+const toWords = (text: string): string[] =>
+  text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+/**
+ * Converts a search string into a Postgres `to_tsquery` expression.
+ * Quoted text becomes a phrase query and a trailing `*` makes a prefix query, all terms must match.
+ * @example toTsQuery('"time management" produc*') // '(time <-> management) & produc:*'
+ * @param q - The search string entered by the user.
+ * @returns The tsquery expression, or undefined if the search string has no words.
+ */
+export function toTsQuery(q: string) {
+  const terms: string[] = [];
+
+  for (const [, phrase, word] of q.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    if (phrase !== undefined) {
+      // Words of a phrase must follow each other
+      const words = toWords(phrase);
+      if (words.length > 1) terms.push(`(${words.join(' <-> ')})`);
+      else terms.push(...words);
+    } else {
+      // The prefix marker applies to the last word of the token
+      const words = toWords(word);
+      if (word.endsWith('*') && words.length) words.push(`${words.pop()}:*`);
+      terms.push(...words);
+    }
+  }
+
+  return terms.length ? terms.join(' & ') : undefined;
+}
+
+/**
+ * Full-text search over published posts, backed by the weighted `searchVector` column of `Post`.
+ */
+@Injectable()
+export class PostsSearchService implements OnApplicationBootstrap {
+  constructor(private prisma: DatabasesService) {}
+
+  /**
+   * Indexes posts that have never been indexed, such as posts created before search existed.
+   */
+  async onApplicationBootstrap() {
+    try {
+      await this.prisma.$executeRaw`
+        UPDATE "Post" p SET "searchVector" = ${SEARCH_DOCUMENT}
+        WHERE p."searchVector" IS NULL`;
+    } catch (error) {
+      console.error('Failed to index posts for search', error);
+    }
+  }
+
+  /**
+   * Build the query recomputing the search document of a post.
+   * Run it after the title, summary, body or tags of a post change; it can be part of a transaction.
+   * @param postId - ID of the post.
+   * @returns The pending update query.
+   */
+  refresh(postId: string) {
+    return this.prisma.$executeRaw`
+      UPDATE "Post" p SET "searchVector" = ${SEARCH_DOCUMENT}
+      WHERE p.id = ${postId}`;
+  }
+
+  /**
+   * Build the query recomputing the search document of several posts, e.g. after one of their tags changed.
+   * @param postIds - IDs of the posts.
+   * @returns The pending update query.
+   */
+  refreshMany(postIds: string[]) {
+    return this.prisma.$executeRaw`
+      UPDATE "Post" p SET "searchVector" = ${SEARCH_DOCUMENT}
+      WHERE p.id = ANY(${postIds})`;
+  }
+
+  /**
+   * Search published posts, a page at a time.
+   * The posts come as stored, prepare them for the response like other post lists with `PostsService.present`.
+   * @param params - Parameters including the search string, sort option and pagination.
+   * @returns A response containing the matching posts, each with its rank and highlighted snippets, and the page metadata.
+   * The snippets are HTML whose only tags are the `<mark>` tags around the matches.
+   * @throws BadRequestException if the cursor is invalid.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async search(params: {
+    q: string;
+    sortBy?: SortEnum;
+    take: number;
+    skip?: number;
+    cursor?: string;
+    withTotal?: boolean;
+  }) {
+    const { q, sortBy, take, skip, cursor, withTotal } = params;
+
+    try {
+      // A search string without any words matches nothing
+      const tsQuery = toTsQuery(q);
+      if (!tsQuery)
+        return {
+          message: 'get posts successfully',
+          statusCode: HttpStatus.OK,
+          data: [],
+          meta: {
+            nextCursor: null,
+            hasMore: false,
+            total: withTotal ? 0 : undefined,
+          },
+        };
+
+      // Only keep the results after the cursor
+      const { key, kind, column, descending } =
+        SORT_KEYS[sortBy ?? SortEnum.RELEVANCE];
+      const direction = Prisma.raw(descending ? 'DESC' : 'ASC');
+      let after = Prisma.sql`TRUE`;
+      if (cursor) {
+        const { value, id } = decodeCursor(cursor, key, kind);
+        after = Prisma.sql`(s."sortKey", s.id) ${Prisma.raw(descending ? '<' : '>')} (${value}, ${id})`;
+      }
+
+      // Find a page of matching posts, plus one to tell whether another page follows, with their rank and snippets
+      const rows = await this.prisma.$queryRaw<SearchRow[]>`
+        SELECT s.id, s.rank, s."sortKey",
+          ts_headline('english', s.title, s.query, ${TITLE_HEADLINE_OPTIONS}) AS title,
+          ts_headline('english', s.summary, s.query, ${HEADLINE_OPTIONS}) AS summary,
+          ts_headline('english', s.body, s.query, ${HEADLINE_OPTIONS}) AS body
+        FROM (
+          SELECT p.id, p.title, p.summary, p.body, query,
+            ${RANK} AS rank, ${column} AS "sortKey"
+          FROM "Post" p, to_tsquery('english', ${tsQuery}) query
+          WHERE p.status = 'PUBLISHED' AND p."searchVector" @@ query
+        ) s
+        WHERE ${after}
+        ORDER BY s."sortKey" ${direction}, s.id ${direction}
+        LIMIT ${take + 1} OFFSET ${skip ?? 0}`;
+
+      // Count every match when asked to
+      let total: number;
+      if (withTotal) {
+        const [{ count }] = await this.prisma.$queryRaw<{ count: number }[]>`
+          SELECT COUNT(*)::int AS count FROM "Post" p
+          WHERE p.status = 'PUBLISHED'
+            AND p."searchVector" @@ to_tsquery('english', ${tsQuery})`;
+        total = count;
+      }
+
+      // Cut the page, then load the posts and keep the order of the search results
+      const { data: page, meta } = toPage(
+        rows,
+        take,
+        (row) => encodeCursor(key, row.sortKey, row.id),
+        total,
+      );
+      const posts = await this.prisma.post.findMany({
+        where: { id: { in: page.map((row) => row.id) } },
+      });
+      const postsById = new Map(posts.map((post) => [post.id, post]));
+      const results = page
+        .filter((row) => postsById.has(row.id))
+        .map(({ id, rank, title, summary, body }) => ({
+          ...postsById.get(id),
+          search: {
+            rank,
+            highlights: {
+              title: sanitizeHtml(title, HIGHLIGHT_SANITIZE_OPTIONS),
+              summary: sanitizeHtml(summary, HIGHLIGHT_SANITIZE_OPTIONS),
+              body: sanitizeHtml(body, HIGHLIGHT_SANITIZE_OPTIONS),
+            },
+          },
+        }));
+
+      // Return a response containing the search results
+      return {
+        message: 'get posts successfully',
+        statusCode: HttpStatus.OK,
+        data: results,
+        meta,
+      };
+    } catch (error) {
+      // If the error is a BadRequestException, re-throw it
+      if (error instanceof BadRequestException) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Failed to search posts. something went wrong',
+        );
+      }
+    }
+  }
+}
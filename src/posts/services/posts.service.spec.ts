@@ -1,18 +1,236 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { encodeCursor } from 'src/common/pagination/cursor';
+import { DatabasesService } from 'src/databases/databases.service';
+import { CoverImagesService } from './cover-images.service';
+import { MarkdownService } from './markdown.service';
+import { MediaReferencesService } from './media-references.service';
+import { PostRevisionsService } from './post-revisions.service';
+import { PostSlugsService } from './post-slugs.service';
+import { PostsSearchService } from './posts-search.service';
 import { PostsService } from './posts.service';
+import { ReactionsService } from './reactions.service';
 
 describe('PostsService', () => {
   let service: PostsService;
+  let reactionsService: { attach: jest.Mock };
+  let postSlugsService: { generate: jest.Mock; rename: jest.Mock };
+  const prisma = {
+    post: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      count: jest.fn(),
+    },
+    tagsOnPosts: { findMany: jest.fn() },
+    user: { findUnique: jest.fn() },
+    $transaction: jest.fn(),
+  };
 
   beforeEach(async () => {
+    jest.resetAllMocks();
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [PostsService],
+      providers: [
+        PostsService,
+        { provide: DatabasesService, useValue: prisma },
+        {
+          provide: CoverImagesService,
+          useValue: { attach: jest.fn((posts) => posts) },
+        },
+        { provide: PostRevisionsService, useValue: { snapshot: jest.fn() } },
+        {
+          provide: ReactionsService,
+          useValue: { attach: jest.fn() },
+        },
+        { provide: PostsSearchService, useValue: { refresh: jest.fn() } },
+        { provide: MediaReferencesService, useValue: { build: jest.fn() } },
+        { provide: MarkdownService, useValue: { readingTime: jest.fn() } },
+        {
+          provide: PostSlugsService,
+          useValue: { generate: jest.fn(), rename: jest.fn() },
+        },
+      ],
     }).compile();
 
     service = module.get<PostsService>(PostsService);
+    reactionsService = module.get(ReactionsService);
+    postSlugsService = module.get(PostSlugsService);
+    reactionsService.attach.mockImplementation(async (posts) => posts);
   });
 
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('should not let authors with an unverified email create posts', async () => {
+    prisma.user.findUnique.mockResolvedValue({ emailVerifiedAt: null });
+
+    await expect(
+      service.create({
+        createPostDto: { title: 'Deep Work', body: 'Focus.' } as any,
+        userId: 'user-1',
+      }),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    expect(postSlugsService.generate).not.toHaveBeenCalled();
+  });
+
+  describe('pagination', () => {
+    const sort = { field: 'createdAt', direction: 'desc' } as const;
+    const createdAt = new Date('2024-05-01T10:00:00.000Z');
+
+    it('should fetch one extra post and point the cursor at the last post of the page', async () => {
+      prisma.post.findMany.mockResolvedValue([
+        { id: 'p3', createdAt },
+        { id: 'p2', createdAt },
+      ]);
+
+      const page = await service.paginate({ where: {}, sort, take: 1 });
+
+      expect(prisma.post.findMany.mock.calls[0][0]).toMatchObject({
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: 2,
+      });
+      expect(page.data).toEqual([{ id: 'p3', createdAt }]);
+      expect(page.meta).toEqual({
+        nextCursor: encodeCursor('createdAt', createdAt, 'p3'),
+        hasMore: true,
+        total: undefined,
+      });
+      expect(prisma.post.count).not.toHaveBeenCalled();
+    });
+
+    it('should continue after the cursor and count when asked to', async () => {
+      prisma.post.findMany.mockResolvedValue([]);
+      prisma.post.count.mockResolvedValue(7);
+
+      const page = await service.paginate({
+        where: { status: 'PUBLISHED' },
+        sort,
+        take: 10,
+        cursor: encodeCursor('createdAt', createdAt, 'p3'),
+        withTotal: true,
+      });
+
+      expect(prisma.post.findMany.mock.calls[0][0].where).toEqual({
+        AND: [
+          { status: 'PUBLISHED' },
+          {
+            OR: [
+              { createdAt: { lt: createdAt } },
+              { createdAt, id: { lt: 'p3' } },
+            ],
+          },
+        ],
+      });
+      expect(page.meta).toEqual({ nextCursor: null, hasMore: false, total: 7 });
+    });
+  });
+
+  describe('renaming', () => {
+    it('should move to a free slug and remember the previous one', async () => {
+      const post = { id: 'post-1', slug: 'a-post', authorId: 'user-1' };
+      const rename = [{ query: 'history' }];
+      prisma.post.findFirst.mockResolvedValue(post);
+      prisma.$transaction.mockResolvedValue([post]);
+      postSlugsService.generate.mockResolvedValue('a-new-title-2');
+      postSlugsService.rename.mockReturnValue(rename);
+
+      await service.updatePost({
+        slug: 'a-post',
+        userId: 'user-1',
+        updatePostDto: { title: 'a new title' },
+      });
+
+      expect(postSlugsService.generate).toHaveBeenCalledWith({
+        title: 'a new title',
+        postId: 'post-1',
+      });
+      expect(postSlugsService.rename).toHaveBeenCalledWith(
+        post,
+        'a-new-title-2',
+      );
+      expect(prisma.post.update.mock.calls[0][0].data.slug).toBe(
+        'a-new-title-2',
+      );
+      expect(prisma.$transaction.mock.calls[0][0]).toEqual(
+        expect.arrayContaining(rename),
+      );
+    });
+  });
+
+  describe('tag editing', () => {
+    const post = { id: 'post-1', slug: 'a-post', authorId: 'user-1' };
+    const connectOrCreate = (name: string) => ({
+      tag: { connectOrCreate: { where: { name }, create: { name } } },
+    });
+
+    beforeEach(() => {
+      prisma.post.findFirst.mockResolvedValue(post);
+      prisma.$transaction.mockResolvedValue([post]);
+      prisma.tagsOnPosts.findMany.mockResolvedValue([
+        { postId: 'post-1', tagId: 1, tag: { id: 1, name: 'focus' } },
+        { postId: 'post-1', tagId: 2, tag: { id: 2, name: 'habits' } },
+      ]);
+    });
+
+    it('should replace the tags on update, leaving unchanged ones alone', async () => {
+      await service.updatePost({
+        slug: 'a-post',
+        userId: 'user-1',
+        updatePostDto: { tags: ['habits', 'sleep', 'sleep'] },
+      });
+
+      expect(prisma.post.update.mock.calls[0][0].data.tags).toEqual({
+        deleteMany: { tagId: { in: [1] } },
+        create: [connectOrCreate('sleep')],
+      });
+    });
+
+    it('should add and remove tags', async () => {
+      await service.updateTags({
+        slug: 'a-post',
+        userId: 'user-1',
+        updatePostTagsDto: { add: ['focus', 'sleep'], remove: ['habits'] },
+      });
+
+      expect(prisma.post.update.mock.calls[0][0].data.tags).toEqual({
+        deleteMany: { tagId: { in: [2] } },
+        create: [connectOrCreate('sleep')],
+      });
+    });
+
+    it('should refuse to remove every tag', async () => {
+      await expect(
+        service.updateTags({
+          slug: 'a-post',
+          userId: 'user-1',
+          updatePostTagsDto: { remove: ['focus', 'habits'] },
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should report a tag attached concurrently as a conflict', async () => {
+      prisma.$transaction.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('unique', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+
+      await expect(
+        service.updateTags({
+          slug: 'a-post',
+          userId: 'user-1',
+          updatePostTagsDto: { add: ['sleep'] },
+        }),
+      ).rejects.toBeInstanceOf(ConflictException);
+    });
+  });
 });
@@ -1,27 +1,84 @@
 import {
+  BadRequestException,
   ConflictException,
+  ForbiddenException,
   HttpStatus,
   Injectable,
   InternalServerErrorException,
   NotFoundException,
+  OnApplicationBootstrap,
 } from '@nestjs/common';
-import { Prisma } from '@prisma/client';
+import { Post, PostStatus, Prisma } from '@prisma/client';
 import { isArray } from 'class-validator';
-import * as slug from 'slug';
+import { MemoryStoredFile } from 'nestjs-form-data';
+import {
+  afterCursor,
+  CursorValueKind,
+  decodeCursor,
+  encodeCursor,
+  toPage,
+} from 'src/common/pagination/cursor';
 import { DatabasesService } from 'src/databases/databases.service';
 import { CreatePostDto } from '../dto/create-post.dto';
 import { UpdatePostDto } from '../dto/update-post.dto';
-import { StorageService } from './storage.service';
+import { UpdatePostTagsDto } from '../dto/update-post-tags.dto';
+import { SortEnum } from '../enums/post-sort.enum';
+import { CoverImagesService } from './cover-images.service';
+import { MarkdownService } from './markdown.service';
+import { MediaReferencesService } from './media-references.service';
+import { PostRevisionsService } from './post-revisions.service';
+import { PostSlugsService } from './post-slugs.service';
+import { PostsSearchService } from './posts-search.service';
+import { ReactionsService } from './reactions.service';
+
+export type PostSort = {
+  field: 'createdAt' | 'publishedAt' | 'title' | 'reactionCount';
+  direction: Prisma.SortOrder;
+};
+
+// Sort orders of post listings, by sort option; relevance only applies to searches
+export const POST_SORTS: Record<SortEnum, PostSort> = {
+  [SortEnum.TITLE_ASC]: { field: 'title', direction: 'asc' },
+  [SortEnum.TITLE_DESC]: { field: 'title', direction: 'desc' },
+  [SortEnum.DATE_ASC]: { field: 'createdAt', direction: 'asc' },
+  [SortEnum.DATE_DESC]: { field: 'createdAt', direction: 'desc' },
+  [SortEnum.REACTIONS_DESC]: { field: 'reactionCount', direction: 'desc' },
+  [SortEnum.RELEVANCE]: { field: 'createdAt', direction: 'desc' },
+};
+
+// Kind of value of each sort field, checked in the cursors of post listings
+const SORT_FIELD_KINDS: Record<PostSort['field'], CursorValueKind> = {
+  createdAt: 'date',
+  publishedAt: 'date',
+  title: 'string',
+  reactionCount: 'number',
+};
 
 @Injectable()
-export class PostsService {
-  private uploadPath: string;
+export class PostsService implements OnApplicationBootstrap {
   constructor(
     private prisma: DatabasesService,
-    private storageService: StorageService,
-  ) {
-    // Path where uploaded files will be stored
-    this.uploadPath = './public/posts';
+    private coverImagesService: CoverImagesService,
+    private postRevisionsService: PostRevisionsService,
+    private reactionsService: ReactionsService,
+    private postsSearchService: PostsSearchService,
+    private mediaReferencesService: MediaReferencesService,
+    private markdownService: MarkdownService,
+    private postSlugsService: PostSlugsService,
+  ) {}
+
+  /**
+   * Dates the published posts that have no publish date, such as posts created before drafts existed:
+   * the status column defaults to published, so those posts stay live, as published on their creation date.
+   */
+  async onApplicationBootstrap() {
+    try {
+      await this.prisma.$executeRaw`
+        UPDATE "Post" SET "publishedAt" = "createdAt"
+        WHERE status = 'PUBLISHED' AND "publishedAt" IS NULL`;
+    } catch (error) {
+      console.error('Failed to date published posts', error);
+    }
   }
 
   /**
@@ -33,6 +90,44 @@ export class PostsService {
     return this.prisma.post.findFirst({ where });
   }
 
+  /**
+   * Build the criteria for posts a reader is allowed to see.
+   * Everyone sees published posts, authors additionally see their own drafts and archived posts.
+   * @param userId - ID of the reader, if authenticated.
+   * @returns Criteria matching the posts visible to the reader.
+   */
+  visibleTo(userId?: string): Prisma.PostWhereInput {
+    // Anonymous readers only see published posts
+    if (!userId) return { status: PostStatus.PUBLISHED };
+
+    return {
+      OR: [{ status: PostStatus.PUBLISHED }, { authorId: userId }],
+    };
+  }
+
+  /**
+   * Prepare posts for a response: add the responsive cover image, the reading time, the reaction counts, and the reader's own reactions.
+   * @param posts - The posts to extend.
+   * @param userId - ID of the reader, if authenticated.
+   * @returns The posts with `coverImage`, `readingTimeMinutes` and `reactions` fields.
+   */
+  async present<
+    T extends {
+      id: string;
+      body: string;
+      cover: string;
+      coverVariants: Prisma.JsonValue;
+    },
+  >(posts: T[], userId?: string) {
+    return this.reactionsService.attach(
+      this.coverImagesService.attach(posts).map((post) => ({
+        ...post,
+        readingTimeMinutes: this.markdownService.readingTime(post.body),
+      })),
+      userId,
+    );
+  }
+
   /**
    * Retrieve multiple posts based on specified criteria.
    * @param params - Parameters including the number of posts to retrieve, number of posts to skip, query conditions, sorting order, and included relations.
@@ -57,49 +152,132 @@ export class PostsService {
     });
   }
 
+  /**
+   * Retrieve a page of posts, continuing after a cursor.
+   * Posts are ordered by the sort field with the ID as tie-breaker, so pages don't shift while posts are added.
+   * @param params - Parameters including query conditions, included relations, sort order, pagination, and the reader's ID.
+   * @returns The posts of the page with their reactions, and the page metadata.
+   * @throws BadRequestException if the cursor is invalid.
+   */
+  async paginate(params: {
+    where: Prisma.PostWhereInput;
+    include?: Prisma.PostInclude;
+    sort: PostSort;
+    take: number;
+    skip?: number;
+    cursor?: string;
+    withTotal?: boolean;
+    userId?: string;
+  }) {
+    const { where, include, sort, take, skip, cursor, withTotal, userId } =
+      params;
+    const { field, direction } = sort;
+
+    // Retrieve the posts after the cursor, plus one to tell whether another page follows
+    const posts = await this.prisma.post.findMany({
+      where: cursor
+        ? {
+            AND: [
+              where,
+              afterCursor(
+                field,
+                direction,
+                decodeCursor(cursor, field, SORT_FIELD_KINDS[field]),
+              ),
+            ],
+          }
+        : where,
+      include,
+      orderBy: [{ [field]: direction }, { id: direction }],
+      take: take + 1,
+      skip,
+    });
+    const total = withTotal
+      ? await this.prisma.post.count({ where })
+      : undefined;
+
+    // Cut the page and attach the reactions
+    const { data, meta } = toPage(
+      posts,
+      take,
+      (post) => encodeCursor(field, post[field], post.id),
+      total,
+    );
+
+    return { data: await this.present(data, userId), meta };
+  }
+
   /**
    * Create a new post.
+   * A title whose slug is already taken gets a numeric suffix, like `my-post-2`.
    * @param params - Parameters including the post data and user ID.
-   * @throws ConflictException if a post with the same title already exists.
+   * @throws BadRequestException if the publish date is in the past.
+   * @throws NotFoundException if the cover media is not found.
    * @throws InternalServerErrorException if an internal server error occurs.
    */
   async create(params: { createPostDto: CreatePostDto; userId: string }) {
     try {
       const { createPostDto, userId } = params;
-      const { title, body, tags, summary } = createPostDto;
-
-      // Generate slug for the post title
-      const postSlug = slug(title);
-      // Check if a post with the same slug already exists
-      const post = await this.findOne({ slug: postSlug });
-
-      // If a post with the same slug exists, throw a ConflictException
-      if (post) throw new ConflictException('post already exist');
-
-      // Create directory for storing uploaded files if it doesn't exist
-      await this.storageService.createDirectoryIfNoExists(this.uploadPath);
-      // Upload cover image and get its path
-      const cover = await this.storageService.uploadFile(
-        createPostDto.cover,
-        this.uploadPath,
-        postSlug,
-      );
+      const { title, body, tags, summary, publishAt, coverMediaId } =
+        createPostDto;
+
+      // Only authors who verified their email address can publish
+      const author = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { emailVerifiedAt: true },
+      });
+      if (!author?.emailVerifiedAt)
+        throw new ForbiddenException(
+          'Verify your email address before creating posts',
+        );
+
+      // Make sure a scheduled publish date lies in the future
+      if (publishAt) this.assertFutureDate(publishAt);
+
+      // Generate a free slug for the post title
+      const postSlug = await this.postSlugsService.generate({ title });
+
+      // Store the cover image, or use an image of the author's media library
+      const cover = await this.resolveCover({
+        file: createPostDto.cover,
+        mediaId: coverMediaId,
+        userId,
+        name: postSlug,
+      });
+
+      // Render the body to HTML once, so reads don't have to
+      const { html, toc } = this.markdownService.render(body);
 
       // Create the post in the database
       const newPost = await this.prisma.post.create({
         data: {
           body,
-          cover,
+          bodyHtml: html,
+          toc,
+          cover: cover.key,
+          coverVariants: cover.variants,
+          coverMedia: cover.mediaId
+            ? { connect: { id: cover.mediaId } }
+            : undefined,
           title,
           summary,
+          // New posts start as drafts, the column default only serves posts from before drafts
+          status: PostStatus.DRAFT,
+          publishAt,
           slug: postSlug,
           author: {
             connect: {
               id: userId,
             },
           },
+          media: {
+            create: await this.mediaReferencesService.build({
+              authorId: userId,
+              body,
+            }),
+          },
           tags: {
-            create: tags.map((tag) => ({
+            create: [...new Set(tags)].map((tag) => ({
               tag: {
                 connectOrCreate: {
                   where: { name: tag },
@@ -110,15 +288,21 @@ export class PostsService {
           },
         },
       });
+      // Index the post for full-text search
+      await this.postsSearchService.refresh(newPost.id);
 
       return {
         message: 'Create new post successfully',
         statusCode: HttpStatus.CREATED,
-        data: newPost,
+        data: this.coverImagesService.attach([newPost])[0],
       };
     } catch (error) {
-      // If the error is a ConflictException, re-throw it
-      if (error instanceof ConflictException) {
+      // If the error is a BadRequestException, NotFoundException or ForbiddenException, re-throw it
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException
+      ) {
         throw error;
       } else {
         // Log the error and throw a InternalServerErrorException
@@ -130,6 +314,62 @@ export class PostsService {
     }
   }
 
+  /**
+   * Store an uploaded cover with its resized variants, or pick an image of the user's media library as cover.
+   * @param params - Parameters including the uploaded file or media ID, the user ID, and a readable name for the stored files.
+   * @returns The object key and variants of the cover, and the ID of the media it comes from.
+   * @throws NotFoundException if the media is not found in the user's library.
+   */
+  private async resolveCover(params: {
+    file?: MemoryStoredFile;
+    mediaId?: string;
+    userId: string;
+    name: string;
+  }) {
+    const { file, mediaId, userId, name } = params;
+
+    // Point the cover to the files of the media
+    if (mediaId) {
+      const media = await this.prisma.media.findFirst({
+        where: { id: mediaId, ownerId: userId },
+      });
+      if (!media) throw new NotFoundException('Media not found');
+
+      return {
+        key: media.key,
+        variants: (media.variants as Prisma.InputJsonValue) ?? Prisma.JsonNull,
+        mediaId: media.id,
+      };
+    }
+
+    // Store the uploaded cover and its variants
+    const { cover, coverVariants } = await this.coverImagesService.upload(
+      file,
+      { name },
+    );
+    return { key: cover, variants: coverVariants, mediaId: undefined };
+  }
+
+  /**
+   * Remove the cover files of a post, unless they belong to the media library.
+   * @param post - The post whose cover is removed.
+   */
+  private async removeCover(
+    post: Pick<Post, 'cover' | 'coverVariants' | 'coverMediaId'>,
+  ) {
+    if (!post.coverMediaId) await this.coverImagesService.remove(post);
+  }
+
+  /**
+   * Ensure a scheduled publish date lies in the future.
+   * @param date - The date to check.
+   * @throws BadRequestException if the date is not in the future.
+   */
+  private assertFutureDate(date: Date | string) {
+    if (new Date(date).getTime() <= Date.now())
+      throw new BadRequestException('publishAt must be a future date');
+  }
+
   /**
    * Convert a string or string array to an array.
    * @param data - Data to convert.
@@ -166,8 +406,8 @@ export class PostsService {
         },
       });
 
-      // Remove the associated cover file from storage
-      this.storageService.removeFile('./public' + post.cover);
+      // Remove the associated cover files from storage
+      await this.removeCover(post);
 
       // Return success message
       return {
@@ -190,9 +430,11 @@ export class PostsService {
 
   /**
    * Update an existing post.
+   * When the title changes, the post gets a new slug and its previous slug keeps leading to it.
    * @param params - Parameters including the post data, user ID, and post slug.
    * @returns A response indicating the success of the post update.
    * @throws NotFoundException if the post is not found.
+   * @throws ConflictException if a concurrent update attached the same tag or took the same slug in the meantime.
    * @throws InternalServerErrorException if an internal server error occurs.
    */
   async updatePost(params: {
@@ -201,7 +443,15 @@ export class PostsService {
     slug: string;
   }) {
     const {
-      updatePostDto: { body, title, cover, tags, summary },
+      updatePostDto: {
+        body,
+        title,
+        cover,
+        coverMediaId,
+        tags,
+        summary,
+        publishAt,
+      },
     } = params;
 
     try {
@@ -212,56 +462,359 @@ export class PostsService {
       // Throw a NotFoundException if the post is not found
       if (!post) throw new NotFoundException('Post not found');
 
-      // Generate slug for the updated post title
-      const postSlug = title ? slug(title) : undefined;
+      // Only drafts can be scheduled, and only for a future date
+      if (publishAt) {
+        if (post.status !== PostStatus.DRAFT)
+          throw new ConflictException('only drafts can be scheduled');
+        this.assertFutureDate(publishAt);
+      }
+
+      // Generate a free slug for the updated post title
+      const postSlug = title
+        ? await this.postSlugsService.generate({ title, postId: post.id })
+        : undefined;
+
+      // If a cover image or media is provided, replace the cover
+      const newCover =
+        cover || coverMediaId
+          ? await this.resolveCover({
+              file: cover,
+              mediaId: coverMediaId,
+              userId: params.userId,
+              name: postSlug ?? post.slug,
+            })
+          : undefined;
+
+      // Render the new body to HTML
+      const rendered = body ? this.markdownService.render(body) : undefined;
+
+      // Keep a revision of the previous content when title, summary or body change
+      const revisions =
+        title || summary || body
+          ? [this.postRevisionsService.snapshot(post)]
+          : [];
+
+      // Update the post in the database together with its revision and search document
+      const [{ id, ...restValue }] = await this.prisma.$transaction([
+        this.prisma.post.update({
+          where: {
+            id: post.id,
+          },
+          data: {
+            title,
+            summary,
+            body,
+            bodyHtml: rendered?.html,
+            toc: rendered?.toc,
+            publishAt,
+            cover: newCover?.key,
+            coverVariants: newCover?.variants,
+            coverMedia: newCover
+              ? newCover.mediaId
+                ? { connect: { id: newCover.mediaId } }
+                : { disconnect: true }
+              : undefined,
+            slug: postSlug,
+            media: body
+              ? {
+                  deleteMany: {},
+                  create: await this.mediaReferencesService.build({
+                    authorId: post.authorId,
+                    body,
+                  }),
+                }
+              : undefined,
+            tags: tags
+              ? await this.buildTagsUpdate(post.id, { set: tags })
+              : undefined,
+          },
+        }),
+        ...revisions,
+        ...(postSlug ? this.postSlugsService.rename(post, postSlug) : []),
+        this.postsSearchService.refresh(post.id),
+      ]);
+
+      // Delete the previous cover files once they've been replaced
+      if (newCover) await this.removeCover(post);
+
+      // Return a response indicating successful post update
+      return {
+        message: 'Update post successfully',
+        statusCode: HttpStatus.OK,
+        data: this.coverImagesService.attach([restValue])[0],
+      };
+    } catch (error) {
+      // A concurrent update attached the same tag or took the same slug in the meantime
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException('post changed in the meantime, try again');
+      }
+
+      // If the error is a NotFoundException, ConflictException or BadRequestException, re-throw it
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ConflictException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to update post',
+        );
+      }
+    }
+  }
+
+  /**
+   * Add and remove tags of a post owned by the user, leaving other tags untouched.
+   * @param params - Parameters including the post slug, user ID, and the tags to add and remove.
+   * @returns A response containing the post with its tags.
+   * @throws NotFoundException if the post is not found.
+   * @throws BadRequestException if the post would be left without tags.
+   * @throws ConflictException if a concurrent update attached the same tag in the meantime.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async updateTags(params: {
+    slug: string;
+    userId: string;
+    updatePostTagsDto: UpdatePostTagsDto;
+  }) {
+    const {
+      slug,
+      userId,
+      updatePostTagsDto: { add, remove },
+    } = params;
+
+    try {
+      // Find the post owned by the user
+      const post = await this.findOne({
+        AND: [{ slug }, { authorId: userId }],
+      });
+      // Throw a NotFoundException if the post is not found
+      if (!post) throw new NotFoundException('Post not found');
+
+      // Update the tags together with the search document
+      const [updatedPost] = await this.prisma.$transaction([
+        this.prisma.post.update({
+          where: { id: post.id },
+          data: { tags: await this.buildTagsUpdate(post.id, { add, remove }) },
+          include: { tags: { include: { tag: true } } },
+        }),
+        this.postsSearchService.refresh(post.id),
+      ]);
 
-      let postCover: string | undefined;
-      // If cover image is provided, update it
-      if (cover) {
-        // Delete previous cover image
-        const deletePreviousCover = this.storageService.removeFile(
-          './public' + post.cover,
+      // Return a response containing the post with its tags
+      return {
+        message: 'Update post tags successfully',
+        statusCode: HttpStatus.OK,
+        data: updatedPost,
+      };
+    } catch (error) {
+      // A concurrent update attached the same tag in the meantime
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          'post tags changed in the meantime, try again',
         );
+      }
 
-        // Upload new cover image
-        postCover = await this.storageService.uploadFile(
-          cover,
-          this.uploadPath,
-          postSlug,
+      // If the error is a NotFoundException or BadRequestException, re-throw it
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to update post tags',
         );
       }
+    }
+  }
 
-      // Update the post in the database
-      const { id, ...restValue } = await this.prisma.post.update({
-        where: {
-          id: post.id,
+  /**
+   * Build the nested update turning the current tags of a post into the requested ones.
+   * With `set` the tags are replaced, otherwise `add` and `remove` are applied. Unchanged tags are left alone.
+   * The diff is computed before the transaction applying it: a concurrent update attaching the same tag
+   * makes the transaction fail on the unique key of `TagsOnPosts`, which callers report as a conflict.
+   * @param postId - ID of the post.
+   * @param changes - Either the full list of tags, or the tags to add and remove.
+   * @returns The nested update for the `tags` relation of the post.
+   * @throws BadRequestException if the post would be left without tags.
+   */
+  private async buildTagsUpdate(
+    postId: string,
+    changes: { set?: string[]; add?: string[]; remove?: string[] },
+  ): Promise<Prisma.TagsOnPostsUpdateManyWithoutPostNestedInput> {
+    // Read the current tags of the post
+    const links = await this.prisma.tagsOnPosts.findMany({
+      where: { postId },
+      include: { tag: true },
+    });
+    const current = new Map(links.map((link) => [link.tag.name, link.tagId]));
+
+    // Work out the tags the post should end up with
+    const wanted = new Set(changes.set ?? current.keys());
+    if (!changes.set) {
+      changes.add?.forEach((tag) => wanted.add(tag));
+      changes.remove?.forEach((tag) => wanted.delete(tag));
+    }
+    if (!wanted.size)
+      throw new BadRequestException('a post needs at least one tag');
+
+    // Attach the new tags and detach the missing ones
+    const added = [...wanted].filter((tag) => !current.has(tag));
+    const removedIds = [...current]
+      .filter(([tag]) => !wanted.has(tag))
+      .map(([, tagId]) => tagId);
+
+    return {
+      deleteMany: removedIds.length ? { tagId: { in: removedIds } } : undefined,
+      create: added.map((tag) => ({
+        tag: {
+          connectOrCreate: {
+            where: { name: tag },
+            create: { name: tag },
+          },
         },
-        data: {
-          title,
-          summary,
-          body,
-          cover: postCover,
-          slug: postSlug,
-          tags: tags
-            ? {
-                create: tags.map((tag) => ({
-                  tag: {
-                    connectOrCreate: {
-                      where: { name: tag },
-                      create: { name: tag },
-                    },
-                  },
-                })),
-              }
-            : undefined,
+      })),
+    };
+  }
+
+  /**
+   * Change the status of a post owned by the user.
+   * Publishing stamps `publishedAt`, moving back to draft clears it.
+   * @param params - Parameters including the post ID, user ID, and target status.
+   * @returns A response containing the updated post.
+   * @throws NotFoundException if the post is not found.
+   * @throws ConflictException if the post already has the target status.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async changeStatus(params: {
+    id: string;
+    userId: string;
+    status: PostStatus;
+  }) {
+    const { id, userId, status } = params;
+
+    try {
+      // Find the post owned by the user
+      const post = await this.findOne({ AND: [{ id }, { authorId: userId }] });
+      // Throw a NotFoundException if the post is not found
+      if (!post) throw new NotFoundException('Post not found');
+
+      // Throw a ConflictException if nothing would change
+      if (post.status === status)
+        throw new ConflictException(`post already ${status.toLowerCase()}`);
+
+      // Keep the original publish date when an archived post is published again
+      let publishedAt: Date | null = post.publishedAt;
+      if (status === PostStatus.PUBLISHED) publishedAt ??= new Date();
+      if (status === PostStatus.DRAFT) publishedAt = null;
+
+      // Update the post status in the database, dropping any pending schedule
+      const updatedPost = await this.prisma.post.update({
+        where: { id: post.id },
+        data: { status, publishedAt, publishAt: null },
+      });
+
+      // Return a response indicating successful status change
+      return {
+        message: `Post ${status.toLowerCase()} successfully`,
+        statusCode: HttpStatus.OK,
+        data: updatedPost,
+      };
+    } catch (error) {
+      // If the error is a NotFoundException or ConflictException, re-throw it
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ConflictException
+      ) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to change post status',
+        );
+      }
+    }
+  }
+
+  /**
+   * Retrieve the drafts of a user that are queued for automatic publishing.
+   * @param userId - ID of the author.
+   * @returns A response containing the scheduled posts, soonest first.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async getScheduledPosts(userId: string) {
+    try {
+      // Retrieve the author's drafts that have a publish date
+      const posts = await this.findMany({
+        where: {
+          authorId: userId,
+          status: PostStatus.DRAFT,
+          publishAt: { not: null },
         },
+        orderBy: { publishAt: 'asc' },
       });
 
-      // Return a response indicating successful post update
+      // Return a response containing the scheduled posts
       return {
-        message: 'Update post successfully',
+        message: 'Get scheduled posts successfully',
+        statusCode: HttpStatus.OK,
+        data: posts,
+      };
+    } catch (error) {
+      // Log the error and throw an InternalServerErrorException
+      console.error(error);
+      throw new InternalServerErrorException(
+        'Something went wrong. Failed to get scheduled posts.',
+      );
+    }
+  }
+
+  /**
+   * Cancel the scheduled publishing of a draft owned by the user.
+   * @param params - Parameters including the post ID and user ID.
+   * @returns A response indicating the success of the cancellation.
+   * @throws NotFoundException if no scheduled post is found.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async cancelSchedule(params: { id: string; userId: string }) {
+    const { id, userId } = params;
+
+    try {
+      // Find the scheduled draft owned by the user
+      const post = await this.findOne({
+        AND: [
+          { id },
+          { authorId: userId },
+          { status: PostStatus.DRAFT },
+          { publishAt: { not: null } },
+        ],
+      });
+      // Throw a NotFoundException if the post is not scheduled
+      if (!post) throw new NotFoundException('Scheduled post not found');
+
+      // Remove the publish date, keeping the post as a draft
+      await this.prisma.post.update({
+        where: { id: post.id },
+        data: { publishAt: null },
+      });
+
+      // Return a response indicating successful cancellation
+      return {
+        message: 'Cancel scheduled post successfully',
         statusCode: HttpStatus.OK,
-        data: restValue,
       };
     } catch (error) {
       // If the error is a NotFoundException, re-throw it
@@ -271,82 +824,172 @@ export class PostsService {
         // Log the error and throw an InternalServerErrorException
         console.error(error);
         throw new InternalServerErrorException(
-          'Something went wrong. Failed to update post',
+          'Something went wrong. Failed to cancel scheduled post.',
         );
       }
     }
   }
 
   /**
-   * Retrieve multiple posts based on specified criteria.
-   * @param params - Parameters including the number of posts to retrieve, number of posts to skip, query conditions, and sorting order.
-   * @returns A response containing the retrieved posts.
+   * Retrieve a page of posts based on specified criteria.
+   * @param params - Parameters including query conditions, included relations, sort order, pagination, and the reader's ID.
+   * @returns A response containing the retrieved posts with their reactions, and the page metadata.
+   * @throws BadRequestException if the cursor is invalid.
    * @throws InternalServerErrorException if an internal server error occurs.
    */
   async getPosts(params: {
-    take?: number;
-    skip?: number;
-    where?: Prisma.PostWhereInput;
-    orderBy?: Prisma.PostOrderByWithRelationInput;
+    where: Prisma.PostWhereInput;
     include?: Prisma.PostInclude;
+    sort: PostSort;
+    take: number;
+    skip?: number;
+    cursor?: string;
+    withTotal?: boolean;
+    userId?: string;
   }) {
-    const { orderBy, skip, take, where, include } = params;
-
     try {
-      // Retrieve posts from the database based on provided parameters
-      const posts = await this.findMany({
-        where,
-        include,
-        orderBy,
-        skip,
-        take,
-      });
+      // Retrieve a page of posts based on provided parameters
+      const { data, meta } = await this.paginate(params);
 
       // Return a response indicating successful post retrieval
       return {
         message: 'get posts successfully',
         statusCode: HttpStatus.OK,
-        data: posts,
+        data,
+        meta,
       };
     } catch (error) {
-      // Log the error and throw an InternalServerErrorException
-      console.error(error);
-      throw new InternalServerErrorException(
-        'Failed to get posts. something went wrong',
-      );
+      // If the error is a BadRequestException, re-throw it
+      if (error instanceof BadRequestException) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Failed to get posts. something went wrong',
+        );
+      }
     }
   }
 
   /**
    * Retrieves posts based on specified criteria, typically posts from users followed by the authenticated user.
-   * @param params - Parameters including query conditions and included relations.
-   * @returns A response containing the posts based on the provided criteria.
+   * Posts are returned newest first.
+   * @param params - Parameters including query conditions, included relations, pagination, and the reader's ID.
+   * @returns A response containing the posts based on the provided criteria, with their reactions, and the page metadata.
+   * @throws BadRequestException if the cursor is invalid.
    * @throws InternalServerErrorException if an internal server error occurs.
    */
   async getFollowingPosts(params: {
     where: Prisma.PostWhereInput;
     include?: Prisma.PostInclude;
+    take: number;
+    cursor?: string;
+    withTotal?: boolean;
+    userId?: string;
   }) {
-    const { where, include } = params;
     try {
-      // Retrieve posts based on provided criteria
-      const posts = await this.prisma.post.findMany({
-        where,
-        include,
+      // Retrieve a page of posts based on provided criteria
+      const { data, meta } = await this.paginate({
+        ...params,
+        sort: POST_SORTS[SortEnum.DATE_DESC],
       });
 
       // Return a response containing the retrieved posts
       return {
         message: 'Get following post successfully',
         statusCode: HttpStatus.OK,
-        data: posts,
+        data,
+        meta,
       };
     } catch (error) {
-      // Log the error and throw an InternalServerErrorException
-      console.error(error);
-      throw new InternalServerErrorException(
-        'Something went wrong. Failed to get following posts.',
+      // If the error is a BadRequestException, re-throw it
+      if (error instanceof BadRequestException) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to get following posts.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Retrieves the posts bookmarked by the user, most recently bookmarked first.
+   * Bookmarked posts that are no longer visible to the user are left out.
+   * @param params - Parameters including the user ID and pagination.
+   * @returns A response containing the bookmarked posts with their reactions and bookmark date, and the page metadata.
+   * @throws BadRequestException if the cursor is invalid.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async getBookmarks(params: {
+    userId: string;
+    take: number;
+    cursor?: string;
+    withTotal?: boolean;
+  }) {
+    const { userId, take, cursor, withTotal } = params;
+    try {
+      // Retrieve the bookmarks after the cursor, plus one to tell whether another page follows
+      const where: Prisma.BookmarkWhereInput = {
+        userId,
+        post: this.visibleTo(userId),
+      };
+      const bookmarks = await this.prisma.bookmark.findMany({
+        where: cursor
+          ? {
+              AND: [
+                where,
+                afterCursor(
+                  'assignedAt',
+                  'desc',
+                  decodeCursor(cursor, 'assignedAt', 'date'),
+                  'postId',
+                ),
+              ],
+            }
+          : where,
+        include: { post: { include: { tags: { include: { tag: true } } } } },
+        orderBy: [{ assignedAt: 'desc' }, { postId: 'desc' }],
+        take: take + 1,
+      });
+      const total = withTotal
+        ? await this.prisma.bookmark.count({ where })
+        : undefined;
+
+      // Cut the page and attach the reactions
+      const { data, meta } = toPage(
+        bookmarks,
+        take,
+        (bookmark) =>
+          encodeCursor('assignedAt', bookmark.assignedAt, bookmark.postId),
+        total,
       );
+      const posts = data.map(({ post, assignedAt }) => ({
+        ...post,
+        bookmarkedAt: assignedAt,
+      }));
+
+      // Return a response containing the bookmarked posts
+      return {
+        message: 'Get bookmarks successfully',
+        statusCode: HttpStatus.OK,
+        data: await this.present(posts, userId),
+        meta,
+      };
+    } catch (error) {
+      // If the error is a BadRequestException, re-throw it
+      if (error instanceof BadRequestException) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to get bookmarks.',
+        );
+      }
     }
   }
 
@@ -0,0 +1,146 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ReactionType } from '@prisma/client';
+import { DatabasesService } from 'src/databases/databases.service';
+import { ReactionsService } from './reactions.service';
+
+describe('ReactionsService', () => {
+  let service: ReactionsService;
+  const prisma = {
+    post: { findFirst: jest.fn(), update: jest.fn() },
+    reaction: {
+      findMany: jest.fn(),
+      groupBy: jest.fn(),
+      createMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReactionsService,
+        { provide: DatabasesService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<ReactionsService>(ReactionsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('attach', () => {
+    it('should add per-type counts and the reader reactions to each post', async () => {
+      prisma.reaction.groupBy.mockResolvedValue([
+        { postId: 'p1', type: ReactionType.LIKE, _count: { _all: 3 } },
+        { postId: 'p1', type: ReactionType.CLAP, _count: { _all: 1 } },
+      ]);
+      prisma.reaction.findMany.mockResolvedValue([
+        { postId: 'p1', type: ReactionType.LIKE },
+      ]);
+
+      const [first, second] = await service.attach(
+        [{ id: 'p1' }, { id: 'p2' }],
+        'reader',
+      );
+
+      expect(first.reactions.total).toBe(4);
+      expect(first.reactions.counts).toMatchObject({ LIKE: 3, CLAP: 1 });
+      expect(first.reactions.counts.LOVE).toBe(0);
+      expect(first.reactions.userReactions).toEqual([ReactionType.LIKE]);
+      expect(second.reactions.total).toBe(0);
+      expect(second.reactions.userReactions).toEqual([]);
+    });
+
+    it('should not look up reader reactions for anonymous readers', async () => {
+      prisma.reaction.groupBy.mockResolvedValue([]);
+
+      await service.attach([{ id: 'p1' }]);
+
+      expect(prisma.reaction.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('add', () => {
+    const params = { postId: 'p1', userId: 'u1', type: ReactionType.LOVE };
+
+    beforeEach(() => {
+      prisma.$transaction.mockImplementation((run) => run(prisma));
+    });
+
+    it('should throw NotFoundException for unpublished posts', async () => {
+      prisma.post.findFirst.mockResolvedValue(null);
+
+      await expect(service.add(params)).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+    });
+
+    it('should throw ConflictException for a repeated reaction', async () => {
+      prisma.post.findFirst.mockResolvedValue({ id: 'p1' });
+      prisma.reaction.createMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.add(params)).rejects.toBeInstanceOf(
+        ConflictException,
+      );
+      expect(prisma.reaction.createMany).toHaveBeenCalledWith({
+        data: [{ type: ReactionType.LOVE, postId: 'p1', userId: 'u1' }],
+        skipDuplicates: true,
+      });
+      expect(prisma.post.update).not.toHaveBeenCalled();
+    });
+
+    it('should count the reaction on the post', async () => {
+      prisma.post.findFirst.mockResolvedValue({ id: 'p1' });
+      prisma.reaction.createMany.mockResolvedValue({ count: 1 });
+      prisma.reaction.groupBy.mockResolvedValue([]);
+      prisma.reaction.findMany.mockResolvedValue([]);
+
+      await service.add(params);
+
+      expect(prisma.$transaction).toHaveBeenCalled();
+      expect(prisma.post.update).toHaveBeenCalledWith({
+        where: { id: 'p1' },
+        data: { reactionCount: { increment: 1 } },
+      });
+    });
+  });
+
+  describe('remove', () => {
+    const params = { postId: 'p1', userId: 'u1', type: ReactionType.LOVE };
+
+    beforeEach(() => {
+      prisma.$transaction.mockImplementation((run) => run(prisma));
+    });
+
+    it('should throw NotFoundException for a reaction already removed', async () => {
+      prisma.reaction.deleteMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.remove(params)).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+      expect(prisma.reaction.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'u1', postId: 'p1', type: ReactionType.LOVE },
+      });
+      expect(prisma.post.update).not.toHaveBeenCalled();
+    });
+
+    it('should uncount the reaction on the post', async () => {
+      prisma.reaction.deleteMany.mockResolvedValue({ count: 1 });
+      prisma.reaction.groupBy.mockResolvedValue([]);
+      prisma.reaction.findMany.mockResolvedValue([]);
+
+      await service.remove(params);
+
+      expect(prisma.post.update).toHaveBeenCalledWith({
+        where: { id: 'p1' },
+        data: { reactionCount: { decrement: 1 } },
+      });
+    });
+  });
+});
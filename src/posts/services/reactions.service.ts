@@ -0,0 +1,180 @@
+import {
+  ConflictException,
+  HttpStatus,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { PostStatus, ReactionType } from '@prisma/client';
+import { DatabasesService } from 'src/databases/databases.service';
+
+export type ReactionSummary = {
+  total: number;
+  counts: Record<ReactionType, number>;
+  userReactions: ReactionType[];
+};
+
+@Injectable()
+export class ReactionsService {
+  constructor(private prisma: DatabasesService) {}
+
+  /**
+   * Adds a reaction of the user to a published post.
+   * @param params - Parameters including the post ID, user ID, and reaction type.
+   * @returns A response containing the updated reaction summary of the post.
+   * @throws NotFoundException if the post is not found.
+   * @throws ConflictException if the user already reacted with this type.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async add(params: { postId: string; userId: string; type: ReactionType }) {
+    const { postId, userId, type } = params;
+    try {
+      // Only published posts can be reacted to
+      const post = await this.prisma.post.findFirst({
+        where: { id: postId, status: PostStatus.PUBLISHED },
+      });
+      if (!post) throw new NotFoundException('Post not found');
+
+      // Create the reaction and count it on the post, unless the user already reacted with this type;
+      // skipping duplicates keeps a concurrent repeat of the request from failing on the unique key
+      await this.prisma.$transaction(async (tx) => {
+        const { count } = await tx.reaction.createMany({
+          data: [{ type, postId, userId }],
+          skipDuplicates: true,
+        });
+        if (!count) throw new ConflictException('already reacted to post');
+
+        await tx.post.update({
+          where: { id: postId },
+          data: { reactionCount: { increment: count } },
+        });
+      });
+
+      // Return a response containing the updated summary
+      return {
+        message: 'Add reaction successfully',
+        statusCode: HttpStatus.CREATED,
+        data: (await this.summarize([postId], userId)).get(postId),
+      };
+    } catch (error) {
+      // Handle not found and conflict exceptions
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ConflictException
+      ) {
+        throw error;
+      }
+      // Log the error and throw an InternalServerErrorException
+      else {
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to add reaction.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Removes a reaction of the user from a post.
+   * @param params - Parameters including the post ID, user ID, and reaction type.
+   * @returns A response containing the updated reaction summary of the post.
+   * @throws NotFoundException if the user has not reacted with this type.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async remove(params: { postId: string; userId: string; type: ReactionType }) {
+    const { postId, userId, type } = params;
+    try {
+      // Delete the reaction and uncount it on the post, unless the user has not reacted with this type;
+      // deleting many keeps a concurrent repeat of the request from failing on the missing row
+      await this.prisma.$transaction(async (tx) => {
+        const { count } = await tx.reaction.deleteMany({
+          where: { userId, postId, type },
+        });
+        if (!count) throw new NotFoundException('Reaction not found');
+
+        await tx.post.update({
+          where: { id: postId },
+          data: { reactionCount: { decrement: count } },
+        });
+      });
+
+      // Return a response containing the updated summary
+      return {
+        message: 'Remove reaction successfully',
+        statusCode: HttpStatus.OK,
+        data: (await this.summarize([postId], userId)).get(postId),
+      };
+    } catch (error) {
+      // Handle error and throw appropriate exceptions
+      if (error instanceof NotFoundException) {
+        throw error;
+      } else {
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to remove reaction.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Computes the reaction counts per type for several posts, and which types the user reacted with.
+   * @param postIds - IDs of the posts.
+   * @param userId - ID of the reader, if authenticated.
+   * @returns The reaction summary of every post, keyed by post ID.
+   */
+  async summarize(postIds: string[], userId?: string) {
+    // Start every post with zero reactions of each type
+    const summaries = new Map<string, ReactionSummary>();
+    for (const postId of postIds) {
+      const counts = Object.fromEntries(
+        Object.values(ReactionType).map((type) => [type, 0]),
+      ) as Record<ReactionType, number>;
+      summaries.set(postId, { total: 0, counts, userReactions: [] });
+    }
+    if (!postIds.length) return summaries;
+
+    // Count the reactions of each type per post
+    const groups = await this.prisma.reaction.groupBy({
+      by: ['postId', 'type'],
+      where: { postId: { in: postIds } },
+      _count: { _all: true },
+    });
+    for (const group of groups) {
+      const summary = summaries.get(group.postId);
+      summary.counts[group.type] = group._count._all;
+      summary.total += group._count._all;
+    }
+
+    // Collect the reactions of the reader
+    if (userId) {
+      const reactions = await this.prisma.reaction.findMany({
+        where: { postId: { in: postIds }, userId },
+        select: { postId: true, type: true },
+      });
+      for (const reaction of reactions) {
+        summaries.get(reaction.postId).userReactions.push(reaction.type);
+      }
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Adds the reaction summary to each post.
+   * @param posts - The posts to extend.
+   * @param userId - ID of the reader, if authenticated.
+   * @returns The posts with a `reactions` field.
+   */
+  async attach<T extends { id: string }>(posts: T[], userId?: string) {
+    const summaries = await this.summarize(
+      posts.map((post) => post.id),
+      userId,
+    );
+
+    return posts.map((post) => ({
+      ...post,
+      reactions: summaries.get(post.id),
+    }));
+  }
+}
@@ -0,0 +1,51 @@
+import { existsSync } from 'fs';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LocalStorageDriver } from './local-storage.driver';
+
+describe('LocalStorageDriver', () => {
+  let root: string;
+  let driver: LocalStorageDriver;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'storage-'));
+    driver = new LocalStorageDriver({
+      root,
+      baseUrl: 'https://api.example.com',
+    });
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should write objects under the root, creating directories', async () => {
+    await driver.put('posts/deep-work.jpg', Buffer.from('image'));
+
+    expect((await readFile(join(root, 'posts/deep-work.jpg'))).toString()).toBe(
+      'image',
+    );
+  });
+
+  it('should delete objects and ignore missing ones', async () => {
+    await driver.put('posts/deep-work.jpg', Buffer.from('image'));
+
+    await driver.delete('posts/deep-work.jpg');
+    await driver.delete('posts/deep-work.jpg');
+
+    expect(existsSync(join(root, 'posts/deep-work.jpg'))).toBe(false);
+  });
+
+  it('should refuse keys leaving the root', async () => {
+    await expect(
+      driver.put('../outside.jpg', Buffer.from('image')),
+    ).rejects.toThrow('Invalid storage key');
+  });
+
+  it('should build public URLs from the object key', () => {
+    expect(driver.url('posts/deep-work.jpg')).toBe(
+      'https://api.example.com/posts/deep-work.jpg',
+    );
+  });
+});
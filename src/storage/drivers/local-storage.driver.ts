@@ -0,0 +1,44 @@
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { StorageDriver } from './storage-driver.interface';
+
+/**
+ * Keeps objects on the local disk, inside the directory served as static files.
+ * Only suitable for a single API instance.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  constructor(
+    private options: {
+      root: string;
+      baseUrl: string;
+    },
+  ) {}
+
+  async put(key: string, body: Buffer) {
+    // Create the parent directories of the object, then write it
+    const path = this.resolve(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, body);
+  }
+
+  async delete(key: string) {
+    await rm(this.resolve(key), { force: true });
+  }
+
+  url(key: string) {
+    return `${this.options.baseUrl}/${key}`;
+  }
+
+  /**
+   * Resolve the path of an object on disk.
+   * @param key - Key of the object.
+   * @returns The path of the object.
+   * @throws Error if the key points outside the storage directory.
+   */
+  private resolve(key: string) {
+    if (key.split('/').includes('..'))
+      throw new Error(`Invalid storage key: ${key}`);
+
+    return join(this.options.root, key);
+  }
+}
@@ -0,0 +1,88 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { S3StorageDriver } from './s3-storage.driver';
+
+/**
+ * A minimal S3-compatible stand-in, in the spirit of a local MinIO, keeping objects in memory.
+ * It accepts any credentials and only understands path-style PUT and DELETE object requests.
+ */
+function createS3StandIn() {
+  const objects = new Map<string, { body: Buffer; contentType: string }>();
+  const server = createServer(async (req: IncomingMessage, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk);
+    const path = decodeURIComponent(req.url.split('?')[0]);
+
+    if (req.method === 'PUT') {
+      objects.set(path, {
+        body: Buffer.concat(chunks),
+        contentType: req.headers['content-type'],
+      });
+      res.setHeader('ETag', '"stand-in"');
+      res.end();
+    } else if (req.method === 'DELETE') {
+      objects.delete(path);
+      res.statusCode = 204;
+      res.end();
+    } else {
+      res.statusCode = 405;
+      res.end();
+    }
+  });
+
+  return { server, objects };
+}
+
+describe('S3StorageDriver', () => {
+  let server: Server;
+  let objects: Map<string, { body: Buffer; contentType: string }>;
+  let driver: S3StorageDriver;
+
+  beforeAll(async () => {
+    ({ server, objects } = createS3StandIn());
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+
+    driver = new S3StorageDriver({
+      bucket: 'covers',
+      region: 'us-east-1',
+      endpoint: `http://127.0.0.1:${port}`,
+      accessKeyId: 'minioadmin',
+      secretAccessKey: 'minioadmin',
+      forcePathStyle: true,
+      publicUrl: 'https://cdn.example.com',
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should upload objects into the bucket', async () => {
+    await driver.put(
+      'posts/deep-work-1a2b3c4d.jpg',
+      Buffer.from('image'),
+      'image/jpeg',
+    );
+
+    const object = objects.get('/covers/posts/deep-work-1a2b3c4d.jpg');
+    expect(object.body.toString()).toBe('image');
+    expect(object.contentType).toBe('image/jpeg');
+  });
+
+  it('should delete objects from the bucket', async () => {
+    await driver.put('posts/old.jpg', Buffer.from('image'), 'image/jpeg');
+
+    await driver.delete('posts/old.jpg');
+
+    expect(objects.has('/covers/posts/old.jpg')).toBe(false);
+  });
+
+  it('should build public URLs from the object key', () => {
+    expect(driver.url('posts/deep-work-1a2b3c4d.jpg')).toBe(
+      'https://cdn.example.com/posts/deep-work-1a2b3c4d.jpg',
+    );
+  });
+});
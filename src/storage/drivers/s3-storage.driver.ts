@@ -0,0 +1,59 @@
+import {
+  DeleteObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { StorageDriver } from './storage-driver.interface';
+
+/**
+ * Keeps objects in a bucket of Amazon S3 or of an S3-compatible service such as MinIO.
+ */
+export class S3StorageDriver implements StorageDriver {
+  private client: S3Client;
+  constructor(
+    private options: {
+      bucket: string;
+      region: string;
+      endpoint?: string;
+      accessKeyId?: string;
+      secretAccessKey?: string;
+      forcePathStyle?: boolean;
+      publicUrl: string;
+    },
+  ) {
+    const { region, endpoint, accessKeyId, secretAccessKey, forcePathStyle } =
+      options;
+
+    // Fall back to the default credential chain when no keys are configured
+    this.client = new S3Client({
+      region,
+      endpoint,
+      forcePathStyle,
+      credentials:
+        accessKeyId && secretAccessKey
+          ? { accessKeyId, secretAccessKey }
+          : undefined,
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string) {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.options.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+      }),
+    );
+  }
+
+  async delete(key: string) {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.options.bucket, Key: key }),
+    );
+  }
+
+  url(key: string) {
+    return `${this.options.publicUrl}/${key}`;
+  }
+}
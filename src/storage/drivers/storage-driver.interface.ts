@@ -0,0 +1,28 @@
+// Injection token of the storage driver chosen through `STORAGE_DRIVER`
+export const STORAGE_DRIVER = Symbol('STORAGE_DRIVER');
+
+/**
+ * A place where uploaded files are kept, addressed by object keys such as `posts/my-post-1a2b3c4d.jpg`.
+ */
+export interface StorageDriver {
+  /**
+   * Store an object, replacing any object with the same key.
+   * @param key - Key of the object.
+   * @param body - Content of the object.
+   * @param contentType - MIME type of the content.
+   */
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Delete an object. Deleting a missing object is not an error.
+   * @param key - Key of the object.
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Build the public URL of an object.
+   * @param key - Key of the object.
+   * @returns The absolute URL readers can download the object from.
+   */
+  url(key: string): string;
+}
@@ -0,0 +1,61 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { LocalStorageDriver } from './drivers/local-storage.driver';
+import { S3StorageDriver } from './drivers/s3-storage.driver';
+import {
+  STORAGE_DRIVER,
+  StorageDriver,
+} from './drivers/storage-driver.interface';
+import { StorageService } from './storage.service';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    StorageService,
+    {
+      // Choose where uploaded files are kept: "local" (default) or "s3"
+      provide: STORAGE_DRIVER,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): StorageDriver => {
+        const driver = configService.get<string>('STORAGE_DRIVER') || 'local';
+        const appUrl = (
+          configService.get<string>('APP_URL') || 'http://localhost:3000'
+        ).replace(/\/+$/, '');
+
+        switch (driver) {
+          case 'local':
+            return new LocalStorageDriver({
+              root:
+                configService.get<string>('STORAGE_LOCAL_ROOT') || './public',
+              baseUrl: appUrl,
+            });
+          case 's3': {
+            const bucket = configService.get<string>('S3_BUCKET');
+            const endpoint = configService.get<string>('S3_ENDPOINT');
+            return new S3StorageDriver({
+              bucket,
+              region: configService.get<string>('S3_REGION') || 'us-east-1',
+              endpoint,
+              accessKeyId: configService.get<string>('S3_ACCESS_KEY_ID'),
+              secretAccessKey: configService.get<string>(
+                'S3_SECRET_ACCESS_KEY',
+              ),
+              forcePathStyle:
+                configService.get<string>('S3_FORCE_PATH_STYLE') === 'true',
+              publicUrl: (
+                configService.get<string>('S3_PUBLIC_URL') ||
+                (endpoint
+                  ? `${endpoint}/${bucket}`
+                  : `https://${bucket}.s3.amazonaws.com`)
+              ).replace(/\/+$/, ''),
+            });
+          }
+          default:
+            throw new Error(`Unknown storage driver: ${driver}`);
+        }
+      },
+    },
+  ],
+  exports: [StorageService],
+})
+export class StorageModule {}
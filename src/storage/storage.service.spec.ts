@@ -0,0 +1,61 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MemoryStoredFile } from 'nestjs-form-data';
+import { STORAGE_DRIVER } from './drivers/storage-driver.interface';
+import { StorageService } from './storage.service';
+
+describe('StorageService', () => {
+  let service: StorageService;
+  const driver = {
+    put: jest.fn(),
+    delete: jest.fn(),
+    url: jest.fn((key: string) => `https://cdn.example.com/${key}`),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StorageService,
+        { provide: STORAGE_DRIVER, useValue: driver },
+      ],
+    }).compile();
+
+    service = module.get<StorageService>(StorageService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should store uploads under a new key for every upload', async () => {
+    const file = {
+      originalName: 'photo.JPG',
+      extension: 'jpg',
+      mimeType: 'image/jpeg',
+      buffer: Buffer.from('image'),
+    } as MemoryStoredFile;
+
+    const first = await service.uploadFile(file, {
+      prefix: 'posts',
+      name: 'deep-work',
+    });
+    const second = await service.uploadFile(file, {
+      prefix: 'posts',
+      name: 'deep-work',
+    });
+
+    expect(first).toMatch(/^posts\/deep-work-[0-9a-f]{8}\.jpg$/);
+    expect(second).not.toBe(first);
+    expect(driver.put).toHaveBeenCalledWith(first, file.buffer, 'image/jpeg');
+  });
+
+  it('should accept covers stored as paths before object keys', async () => {
+    await service.removeFile('/posts/deep-work.jpg');
+
+    expect(driver.delete).toHaveBeenCalledWith('posts/deep-work.jpg');
+    expect(service.getUrl('/posts/deep-work.jpg')).toBe(
+      'https://cdn.example.com/posts/deep-work.jpg',
+    );
+  });
+});
@@ -0,0 +1,79 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { MemoryStoredFile } from 'nestjs-form-data';
+import {
+  STORAGE_DRIVER,
+  StorageDriver,
+} from './drivers/storage-driver.interface';
+
+@Injectable()
+export class StorageService {
+  constructor(@Inject(STORAGE_DRIVER) private driver: StorageDriver) {}
+
+  /**
+   * Generate a new object key.
+   * Every upload gets its own key, so replacing a file never serves stale content from caches.
+   * @param params - Parameters including the key prefix, e.g. `posts`, and a readable name such as the post slug.
+   * @returns The object key without extension, e.g. `posts/my-post-1a2b3c4d`.
+   */
+  createKey(params: { prefix: string; name: string }) {
+    return `${params.prefix}/${params.name}-${randomBytes(4).toString('hex')}`;
+  }
+
+  /**
+   * Store content under an object key.
+   * @param key - Object key of the file.
+   * @param body - Content of the file.
+   * @param contentType - MIME type of the content.
+   */
+  async upload(key: string, body: Buffer, contentType: string) {
+    await this.driver.put(key, body, contentType);
+  }
+
+  /**
+   * Upload a file under a new object key.
+   * @param file - File to upload.
+   * @param params - Parameters including the key prefix, e.g. `posts`, and a readable name such as the post slug.
+   * @returns The object key to store, e.g. `posts/my-post-1a2b3c4d.jpg`.
+   */
+  async uploadFile(
+    file: MemoryStoredFile,
+    params: { prefix: string; name: string },
+  ) {
+    // Generate the object key
+    const extension = file.extension || file.originalName.split('.').pop();
+    const key = `${this.createKey(params)}.${extension}`;
+
+    // Store the file
+    await this.upload(key, file.buffer, file.mimeType);
+
+    return key;
+  }
+
+  /**
+   * Remove a stored file, if it exists.
+   * @param key - Object key of the file.
+   */
+  async removeFile(key: string) {
+    await this.driver.delete(this.normalize(key));
+  }
+
+  /**
+   * Build the public URL of a stored file.
+   * @param key - Object key of the file.
+   * @returns The absolute URL of the file.
+   */
+  getUrl(key: string) {
+    return this.driver.url(this.normalize(key));
+  }
+
+  /**
+   * Turn a stored value into an object key.
+   * Covers uploaded before object keys were stored hold paths such as `/posts/my-post.jpg`.
+   * @param key - The stored value.
+   * @returns The object key.
+   */
+  private normalize(key: string) {
+    return key.replace(/^\/+/, '');
+  }
+}
@@ -0,0 +1,37 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+
+export class FindTagsQuery {
+  @ApiProperty({
+    description: 'Only return tags whose name contains this text.',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  @Transform(({ value }: { value: string }) => value.toLowerCase())
+  q?: string;
+
+  @ApiProperty({
+    required: false,
+    description:
+      'Limit the number of results returned. Must be between 1 and 100, defaults to 20.',
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  take: number = 20;
+
+  @ApiProperty({
+    required: false,
+    description:
+      'Skip a certain number of results from the beginning. Must be a non-negative integer.',
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  skip: number = 0;
+}
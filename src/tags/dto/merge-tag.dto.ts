@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class MergeTagDto {
+  @ApiProperty({
+    description: 'Name of the tag that absorbs the merged tag',
+    example: 'productivity',
+    type: String,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Transform(({ value }: { value: string }) => value.trim().toLowerCase())
+  into: string;
+}
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class RenameTagDto {
+  @ApiProperty({
+    description: 'New name of the tag',
+    example: 'time management',
+    type: String,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  @Transform(({ value }: { value: string }) => value.trim().toLowerCase())
+  name: string;
+}
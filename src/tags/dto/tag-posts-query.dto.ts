@@ -0,0 +1,3 @@
+import { CursorPaginationQuery } from 'src/common/pagination/cursor-pagination-query.dto';
+
+export class TagPostsQuery extends CursorPaginationQuery {}
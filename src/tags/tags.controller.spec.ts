@@ -0,0 +1,20 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TagsController } from './tags.controller';
+import { TagsService } from './tags.service';
+
+describe('TagsController', () => {
+  let controller: TagsController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [TagsController],
+      providers: [{ provide: TagsService, useValue: {} }],
+    }).compile();
+
+    controller = module.get<TagsController>(TagsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,143 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Req,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiConflictResponse,
+  ApiForbiddenResponse,
+  ApiInternalServerErrorResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { Public } from 'src/authentication/decorators/public.decorator';
+import { Roles } from 'src/authentication/decorators/roles.decorator';
+import { FindTagsQuery } from './dto/find-tags-query.dto';
+import { MergeTagDto } from './dto/merge-tag.dto';
+import { RenameTagDto } from './dto/rename-tag.dto';
+import { TagPostsQuery } from './dto/tag-posts-query.dto';
+import { TagsService } from './tags.service';
+
+@Controller('tags')
+@ApiTags('Tags')
+export class TagsController {
+  constructor(private readonly tagsService: TagsService) {}
+
+  /**
+   * Retrieves the tag directory with post counts.
+   * @param query - Name filter and pagination parameters.
+   * @returns A response containing the tags.
+   */
+  @ApiOkResponse({ description: 'Get tags successfully' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @Public()
+  @Get()
+  async getTags(
+    @Query(new ValidationPipe({ transform: true })) query: FindTagsQuery,
+  ) {
+    return this.tagsService.getTags(query);
+  }
+
+  /**
+   * Retrieves the published posts using a tag.
+   * @param name - The name of the tag.
+   * @param query - Pagination parameters.
+   * @param req - The request object containing the authenticated user's information, if any.
+   * @returns A response containing the posts.
+   */
+  @ApiOkResponse({ description: 'Get posts successfully' })
+  @ApiBadRequestResponse({ description: 'Invalid cursor' })
+  @ApiNotFoundResponse({ description: 'Tag not found' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @Public()
+  @Get(':name/posts')
+  async getTagPosts(
+    @Param('name') name: string,
+    @Query(new ValidationPipe({ transform: true })) query: TagPostsQuery,
+    @Req() req,
+  ) {
+    return this.tagsService.getTagPosts({
+      ...query,
+      name: name.toLowerCase(),
+      userId: req.user?.sub,
+    });
+  }
+
+  /**
+   * Renames a tag. Admin only.
+   * @param name - The current name of the tag.
+   * @param renameTagDto - The DTO containing the new name.
+   * @returns A response containing the renamed tag.
+   */
+  @ApiBearerAuth()
+  @ApiOkResponse({ description: 'Rename tag successfully' })
+  @ApiForbiddenResponse({ description: 'Admin only' })
+  @ApiNotFoundResponse({ description: 'Tag not found' })
+  @ApiConflictResponse({ description: 'Tag already exists' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @Roles(Role.ADMIN)
+  @Patch(':name')
+  async renameTag(
+    @Param('name') name: string,
+    @Body(new ValidationPipe({ transform: true })) renameTagDto: RenameTagDto,
+  ) {
+    return this.tagsService.rename({
+      name: name.toLowerCase(),
+      newName: renameTagDto.name,
+    });
+  }
+
+  /**
+   * Merges a tag into another tag. Admin only.
+   * @param name - The name of the tag to merge.
+   * @param mergeTagDto - The DTO containing the name of the target tag.
+   * @returns A response containing the target tag.
+   */
+  @ApiBearerAuth()
+  @ApiOkResponse({ description: 'Merge tags successfully' })
+  @ApiBadRequestResponse({ description: 'Cannot merge a tag into itself' })
+  @ApiForbiddenResponse({ description: 'Admin only' })
+  @ApiNotFoundResponse({ description: 'Tag not found' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @HttpCode(HttpStatus.OK)
+  @Roles(Role.ADMIN)
+  @Post(':name/merge')
+  async mergeTag(
+    @Param('name') name: string,
+    @Body(new ValidationPipe({ transform: true })) mergeTagDto: MergeTagDto,
+  ) {
+    return this.tagsService.merge({
+      name: name.toLowerCase(),
+      into: mergeTagDto.into,
+    });
+  }
+
+  /**
+   * Deletes a tag and detaches it from all posts. Admin only.
+   * @param name - The name of the tag.
+   * @returns A response indicating the success of the deletion.
+   */
+  @ApiBearerAuth()
+  @ApiOkResponse({ description: 'Delete tag successfully' })
+  @ApiForbiddenResponse({ description: 'Admin only' })
+  @ApiNotFoundResponse({ description: 'Tag not found' })
+  @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @Roles(Role.ADMIN)
+  @Delete(':name')
+  async deleteTag(@Param('name') name: string) {
+    return this.tagsService.remove(name.toLowerCase());
+  }
+}
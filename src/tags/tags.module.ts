@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { DatabasesModule } from 'src/databases/databases.module';
+import { PostsModule } from 'src/posts/posts.module';
+import { TagsController } from './tags.controller';
+import { TagsService } from './tags.service';
+
+@Module({
+  imports: [DatabasesModule, PostsModule],
+  controllers: [TagsController],
+  providers: [TagsService],
+})
+export class TagsModule {}
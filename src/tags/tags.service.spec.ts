@@ -0,0 +1,86 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DatabasesService } from 'src/databases/databases.service';
+import { PostsSearchService } from 'src/posts/services/posts-search.service';
+import { PostsService } from 'src/posts/services/posts.service';
+import { TagsService } from './tags.service';
+
+describe('TagsService', () => {
+  let service: TagsService;
+  const prisma = {
+    tag: { findUnique: jest.fn(), update: jest.fn(), delete: jest.fn() },
+    tagsOnPosts: {
+      findMany: jest.fn(),
+      createMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+  const postsSearchService = { refreshMany: jest.fn() };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TagsService,
+        { provide: DatabasesService, useValue: prisma },
+        { provide: PostsService, useValue: {} },
+        { provide: PostsSearchService, useValue: postsSearchService },
+      ],
+    }).compile();
+
+    service = module.get<TagsService>(TagsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('merge', () => {
+    it('should re-point the links without creating duplicates', async () => {
+      const assignedAt = new Date();
+      prisma.tag.findUnique
+        .mockResolvedValueOnce({ id: 1, name: 'prod' })
+        .mockResolvedValueOnce({ id: 2, name: 'productivity' });
+      prisma.tagsOnPosts.findMany.mockResolvedValue([
+        { postId: 'p1', tagId: 1, assignedAt },
+        { postId: 'p2', tagId: 1, assignedAt },
+      ]);
+
+      await service.merge({ name: 'prod', into: 'productivity' });
+
+      expect(prisma.tagsOnPosts.createMany).toHaveBeenCalledWith({
+        data: [
+          { postId: 'p1', tagId: 2, assignedAt },
+          { postId: 'p2', tagId: 2, assignedAt },
+        ],
+        skipDuplicates: true,
+      });
+      expect(prisma.tagsOnPosts.deleteMany).toHaveBeenCalledWith({
+        where: { tagId: 1 },
+      });
+      expect(prisma.tag.delete).toHaveBeenCalledWith({ where: { id: 1 } });
+      expect(postsSearchService.refreshMany).toHaveBeenCalledWith(['p1', 'p2']);
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse to merge a tag into itself', async () => {
+      await expect(
+        service.merge({ name: 'prod', into: 'prod' }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+
+  describe('rename', () => {
+    it('should refuse a name used by another tag', async () => {
+      prisma.tag.findUnique
+        .mockResolvedValueOnce({ id: 1, name: 'prod' })
+        .mockResolvedValueOnce({ id: 2, name: 'productivity' });
+
+      await expect(
+        service.rename({ name: 'prod', newName: 'productivity' }),
+      ).rejects.toBeInstanceOf(ConflictException);
+    });
+  });
+});
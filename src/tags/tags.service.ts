@@ -0,0 +1,280 @@
+import {
+  BadRequestException,
+  ConflictException,
+  HttpStatus,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { PostStatus, Prisma } from '@prisma/client';
+import { DatabasesService } from 'src/databases/databases.service';
+import { PostsSearchService } from 'src/posts/services/posts-search.service';
+import { PostsService } from 'src/posts/services/posts.service';
+
+@Injectable()
+export class TagsService {
+  constructor(
+    private prisma: DatabasesService,
+    private postsService: PostsService,
+    private postsSearchService: PostsSearchService,
+  ) {}
+
+  /**
+   * Retrieve tags with the number of published posts using them, most used first.
+   * @param params - Parameters including an optional name filter and pagination.
+   * @returns A response containing the tags and pagination details.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async getTags(params: { q?: string; take: number; skip: number }) {
+    const { q, take, skip } = params;
+
+    try {
+      // Retrieve a page of tags along with the total number of tags
+      const where: Prisma.TagWhereInput = q ? { name: { contains: q } } : {};
+      const [tags, total] = await this.prisma.$transaction([
+        this.prisma.tag.findMany({
+          where,
+          include: {
+            _count: {
+              select: {
+                posts: { where: { post: { status: PostStatus.PUBLISHED } } },
+              },
+            },
+          },
+          orderBy: [{ posts: { _count: 'desc' } }, { name: 'asc' }],
+          take,
+          skip,
+        }),
+        this.prisma.tag.count({ where }),
+      ]);
+
+      // Return a response containing the tags
+      return {
+        message: 'Get tags successfully',
+        statusCode: HttpStatus.OK,
+        data: tags,
+        meta: { total, take, skip },
+      };
+    } catch (error) {
+      // Log the error and throw an InternalServerErrorException
+      console.error(error);
+      throw new InternalServerErrorException(
+        'Something went wrong. Failed to get tags.',
+      );
+    }
+  }
+
+  /**
+   * Retrieve the published posts using a tag, most recently published first.
+   * @param params - Parameters including the tag name, pagination, and the reader's ID.
+   * @returns A response containing the posts.
+   * @throws NotFoundException if the tag is not found.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async getTagPosts(params: {
+    name: string;
+    take: number;
+    cursor?: string;
+    withTotal?: boolean;
+    userId?: string;
+  }) {
+    const { name, ...pagination } = params;
+
+    // Make sure the tag exists
+    await this.findTag(name);
+
+    // Retrieve the posts using the tag
+    return this.postsService.getPosts({
+      where: {
+        status: PostStatus.PUBLISHED,
+        tags: { some: { tag: { name } } },
+      },
+      include: { tags: { include: { tag: true } } },
+      sort: { field: 'publishedAt', direction: 'desc' },
+      ...pagination,
+    });
+  }
+
+  /**
+   * Rename a tag.
+   * @param params - Parameters including the current and the new name of the tag.
+   * @returns A response containing the renamed tag.
+   * @throws NotFoundException if the tag is not found.
+   * @throws ConflictException if another tag already has the new name.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async rename(params: { name: string; newName: string }) {
+    const { name, newName } = params;
+
+    try {
+      // Find the tag and make sure the new name is free
+      const tag = await this.findTag(name);
+      const existing = await this.prisma.tag.findUnique({
+        where: { name: newName },
+      });
+      if (existing && existing.id !== tag.id)
+        throw new ConflictException(
+          'tag already exist, merge the tags instead',
+        );
+
+      // Rename the tag and re-index its posts
+      const postIds = await this.getPostIds(tag.id);
+      const [renamedTag] = await this.prisma.$transaction([
+        this.prisma.tag.update({
+          where: { id: tag.id },
+          data: { name: newName },
+        }),
+        this.postsSearchService.refreshMany(postIds),
+      ]);
+
+      // Return a response containing the renamed tag
+      return {
+        message: 'Rename tag successfully',
+        statusCode: HttpStatus.OK,
+        data: renamedTag,
+      };
+    } catch (error) {
+      // If the error is a NotFoundException or ConflictException, re-throw it
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ConflictException
+      ) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to rename tag.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Merge a tag into another one and delete it.
+   * Posts using the merged tag are moved to the target tag; posts already using both keep a single link.
+   * @param params - Parameters including the name of the merged tag and of the target tag.
+   * @returns A response containing the target tag.
+   * @throws NotFoundException if either tag is not found.
+   * @throws BadRequestException if a tag is merged into itself.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async merge(params: { name: string; into: string }) {
+    const { name, into } = params;
+
+    try {
+      // Find both tags
+      if (name === into)
+        throw new BadRequestException('cannot merge a tag into itself');
+      const source = await this.findTag(name);
+      const target = await this.findTag(into);
+
+      // Read the links to move, keeping when each post was tagged
+      const links = await this.prisma.tagsOnPosts.findMany({
+        where: { tagId: source.id },
+      });
+
+      // Re-point the links, skipping posts that already use the target tag, then delete the merged tag
+      await this.prisma.$transaction([
+        this.prisma.tagsOnPosts.createMany({
+          data: links.map(({ postId, assignedAt }) => ({
+            postId,
+            assignedAt,
+            tagId: target.id,
+          })),
+          skipDuplicates: true,
+        }),
+        this.prisma.tagsOnPosts.deleteMany({ where: { tagId: source.id } }),
+        this.prisma.tag.delete({ where: { id: source.id } }),
+        this.postsSearchService.refreshMany(links.map((link) => link.postId)),
+      ]);
+
+      // Return a response containing the target tag
+      return {
+        message: `Merge ${source.name} into ${target.name} successfully`,
+        statusCode: HttpStatus.OK,
+        data: target,
+      };
+    } catch (error) {
+      // If the error is a NotFoundException or BadRequestException, re-throw it
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to merge tags.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Delete a tag, detaching it from every post.
+   * @param name - Name of the tag.
+   * @returns A response indicating the success of the deletion.
+   * @throws NotFoundException if the tag is not found.
+   * @throws InternalServerErrorException if an internal server error occurs.
+   */
+  async remove(name: string) {
+    try {
+      // Find the tag and the posts using it
+      const tag = await this.findTag(name);
+      const postIds = await this.getPostIds(tag.id);
+
+      // Detach the tag from its posts, delete it and re-index the posts
+      await this.prisma.$transaction([
+        this.prisma.tagsOnPosts.deleteMany({ where: { tagId: tag.id } }),
+        this.prisma.tag.delete({ where: { id: tag.id } }),
+        this.postsSearchService.refreshMany(postIds),
+      ]);
+
+      // Return a response indicating successful deletion
+      return {
+        message: 'Delete tag successfully',
+        statusCode: HttpStatus.OK,
+      };
+    } catch (error) {
+      // If the error is a NotFoundException, re-throw it
+      if (error instanceof NotFoundException) {
+        throw error;
+      } else {
+        // Log the error and throw an InternalServerErrorException
+        console.error(error);
+        throw new InternalServerErrorException(
+          'Something went wrong. Failed to delete tag.',
+        );
+      }
+    }
+  }
+
+  /**
+   * Find a tag by name.
+   * @param name - Name of the tag.
+   * @returns The tag.
+   * @throws NotFoundException if the tag is not found.
+   */
+  private async findTag(name: string) {
+    const tag = await this.prisma.tag.findUnique({ where: { name } });
+    if (!tag) throw new NotFoundException('Tag not found');
+
+    return tag;
+  }
+
+  /**
+   * Retrieve the IDs of the posts using a tag.
+   * @param tagId - ID of the tag.
+   * @returns The post IDs.
+   */
+  private async getPostIds(tagId: number) {
+    const links = await this.prisma.tagsOnPosts.findMany({
+      where: { tagId },
+      select: { postId: true },
+    });
+
+    return links.map((link) => link.postId);
+  }
+}
@@ -7,13 +7,15 @@ import {
   Patch,
   Post,
   Put,
+  Query,
   Req,
-  UnauthorizedException,
   ValidationPipe,
 } from '@nestjs/common';
 import {
+  ApiBadRequestResponse,
   ApiBearerAuth,
   ApiCreatedResponse,
+  ApiForbiddenResponse,
   ApiInternalServerErrorResponse,
   ApiNotFoundResponse,
   ApiOkResponse,
@@ -23,20 +25,25 @@ import {
 } from '@nestjs/swagger';
 import { UpdateProfileDto } from './dto/update-profile.dto';
 import { UsersService } from './users.service';
+import { CheckPolicies } from 'src/authentication/decorators/check-policies.decorator';
 import { Public } from 'src/authentication/decorators/public.decorator';
-import { Role } from '@prisma/client';
+import { Roles } from 'src/authentication/decorators/roles.decorator';
+import { isSelfOrAdmin } from 'src/authentication/policies/self-or-admin.policy';
+import { CursorPaginationQuery } from 'src/common/pagination/cursor-pagination-query.dto';
+import { PostStatus, Role } from '@prisma/client';
 
 @Controller('users')
 export class UsersController {
   constructor(private readonly usersService: UsersService) {}
 
   /**
-   * Delete a user profile by ID.
+   * Delete a user profile by ID. Admin only.
    * @param id The ID of the user whose profile is to be deleted.
    * @returns A message indicating the success of the deletion operation.
    */
   @ApiTags('Users')
   @ApiOkResponse({ description: 'Delete user successfully' })
+  @ApiForbiddenResponse({ description: 'Admin only' })
   @ApiNotFoundResponse({ description: 'User not found' })
   @ApiInternalServerErrorResponse({ description: 'Internal server error' })
   @ApiBearerAuth()
@@ -46,6 +53,7 @@ export class UsersController {
     type: String,
     required: true,
   })
+  @Roles(Role.ADMIN)
   @Delete(':id')
   async deleteUser(@Param('id') id: string) {
     return this.usersService.removeUser({ id });
@@ -53,11 +61,15 @@ export class UsersController {
 
   /**
    * Endpoint to retrieve posts of a specific user.
+   * Only published posts are returned, unless the user is requesting their own posts.
    * @param id The ID of the user.
+   * @param query Pagination parameters.
+   * @param req The request object containing the authenticated user's information, if any.
    * @returns {Promise<any>} User posts along with associated tags.
    */
   @ApiTags('Users')
   @ApiOkResponse({ description: 'Get user posts successfully' })
+  @ApiBadRequestResponse({ description: 'Invalid cursor' })
   @ApiInternalServerErrorResponse({ description: 'Internal server error' })
   @ApiParam({
     name: 'id',
@@ -67,13 +79,21 @@ export class UsersController {
   })
   @Public()
   @Get(':id/posts')
-  async getUserPost(@Param('id') id: string) {
+  async getUserPost(
+    @Param('id') id: string,
+    @Query(new ValidationPipe({ transform: true }))
+    query: CursorPaginationQuery,
+    @Req() req,
+  ) {
     // Calling a service method to fetch user posts
     return this.usersService.getUserPost({
+      ...query,
       userId: id,
       where: {
         authorId: id,
+        status: req.user?.sub === id ? undefined : PostStatus.PUBLISHED,
       },
+      viewerId: req.user?.sub,
       include: {
         tags: true,
       },
@@ -82,7 +102,7 @@ export class UsersController {
 
   /**
    * Endpoint to allow a user to follow another user.
-   * @param req The request object.
+   * Users follow on their own behalf; admins may act for any user.
    * @param id The ID of the current user.
    * @param followedId The ID of the user to be followed.
    * @returns {Promise<{ message: string, statusCode: number }>} Success message and status code.
@@ -91,25 +111,20 @@ export class UsersController {
   @ApiBearerAuth()
   @ApiInternalServerErrorResponse({ description: 'Internal server error' })
   @ApiCreatedResponse({ description: 'Following user successfully' })
-  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden' })
+  @CheckPolicies(isSelfOrAdmin())
   @Post(':id/follow/:followedId')
   async follow(
-    @Req() req,
     @Param('id') id: string,
     @Param('followedId') followedId: string,
   ) {
-    // Check if the current user is the owner of the token
-    const isCurrentUser = req.user.sub === id;
-    // If not, throw an UnauthorizedException
-    if (!isCurrentUser) throw new UnauthorizedException();
-
     // Call the service method to follow the user
     return this.usersService.followUser(id, followedId);
   }
 
   /**
    * Endpoint to allow a user to unfollow another user.
-   * @param req The request object.
+   * Users unfollow on their own behalf; admins may act for any user.
    * @param id The ID of the current user.
    * @param followedId The ID of the user to be unfollowed.
    * @returns {Promise<{ message: string, statusCode: number }>} Success message and status code.
@@ -118,18 +133,13 @@ export class UsersController {
   @ApiBearerAuth()
   @ApiInternalServerErrorResponse({ description: 'Internal server error' })
   @ApiOkResponse({ description: 'Unfollow user successfully' })
-  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden' })
+  @CheckPolicies(isSelfOrAdmin())
   @Delete(':id/unfollow/:followedId')
   async unfollow(
-    @Req() req,
     @Param('id') id: string,
     @Param('followedId') followedId: string,
   ) {
-    // Check if the current user is the owner of the token
-    const isCurrentUser = req.user.sub === id;
-    // If not, throw an UnauthorizedException
-    if (!isCurrentUser) throw new UnauthorizedException();
-
     // Call the service method to unfollow the user
     return this.usersService.unfollowUser(id, followedId);
   }
@@ -161,6 +171,7 @@ export class UsersController {
   /**
    * Updates the profile of a user identified by the provided ID.
    * Validates the request body against the UpdateProfileDto schema.
+   * Users update their own profile; admins may update any profile.
    * @param updateProfileDto The DTO containing the updated profile information.
    * @param id The ID of the user whose profile is to be updated.
    * @returns An object containing a message indicating the success of the update,
@@ -177,8 +188,10 @@ export class UsersController {
     required: true,
   })
   @ApiOkResponse({ description: 'Profile updated successfully' })
+  @ApiForbiddenResponse({ description: 'Forbidden' })
   @ApiNotFoundResponse({ description: 'User not found' })
   @ApiInternalServerErrorResponse({ description: 'Internal server error' })
+  @CheckPolicies(isSelfOrAdmin())
   @Patch(':id/profile')
   async updateProfile(
     @Body(new ValidationPipe()) updateProfileDto: UpdateProfileDto,
@@ -1,4 +1,5 @@
 import {
+  BadRequestException,
   HttpStatus,
   Injectable,
   InternalServerErrorException,
@@ -65,7 +66,7 @@ export class UsersService {
 
     // Destructure input parameters.
     const { profileInputs, userInputs, accountInputs } = params;
-    const { email, password, avatar } = userInputs;
+    const { email, password, avatar, emailVerifiedAt } = userInputs;
     const { firstName, lastName } = profileInputs;
 
     // If password is provided, hash it using bcrypt.
@@ -83,6 +84,8 @@ export class UsersService {
       data: {
         email,
         avatar,
+        // New users start unverified, the column default only serves users from before email verification
+        emailVerifiedAt: emailVerifiedAt ?? null,
         password: hashedPassword,
         profile: { create: { firstName, lastName } },
         accounts: {
@@ -229,19 +232,20 @@ export class UsersService {
   }
 
   /**
-   * Retrieves posts of a specific user.
-   * @param params Parameters for fetching user posts.
-   * @returns {Promise<{ message: string, statusCode: number, data: any }>} Object containing message, status code, and user posts.
+   * Retrieves a page of posts of a specific user, newest first.
+   * @param params Parameters for fetching user posts, including pagination and the ID of the reader.
+   * @returns {Promise<{ message: string, statusCode: number, data: any, meta: object }>} Object containing message, status code, user posts with their reactions, and page metadata.
    */
   async getUserPost(params: {
-    where?: Prisma.PostWhereInput;
-    orderBy?: Prisma.PostOrderByWithRelationInput;
+    where: Prisma.PostWhereInput;
     include?: Prisma.PostInclude;
-    take?: number;
-    skip?: number;
+    take: number;
+    cursor?: string;
+    withTotal?: boolean;
     userId: string;
+    viewerId?: string;
   }) {
-    const { include, orderBy, skip, take, where, userId } = params;
+    const { userId, viewerId, ...pagination } = params;
 
     try {
       // Find the user by ID
@@ -249,26 +253,26 @@ export class UsersService {
       // If user is not found, throw a NotFoundException
       if (!user) throw new NotFoundException('User not found');
 
-      // Retrieve posts of the user
-      const posts = await this.postsService.findMany({
-        where: {
-          id: user.id,
-        },
-        include,
-        orderBy,
-        skip,
-        take,
+      // Retrieve a page of the user's posts, newest first
+      const { data, meta } = await this.postsService.paginate({
+        ...pagination,
+        sort: { field: 'createdAt', direction: 'desc' },
+        userId: viewerId,
       });
 
-      // Return an object with success message, status code, and user posts
+      // Return an object with success message, status code, user posts and page metadata
       return {
         message: 'Get user posts',
         statusCode: HttpStatus.OK,
-        data: posts,
+        data,
+        meta,
       };
     } catch (error) {
-      // If NotFoundException is thrown, rethrow it
-      if (error instanceof NotFoundException) {
+      // If NotFoundException or BadRequestException is thrown, rethrow it
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
         throw error;
       } else {
         // Log other errors and throw InternalServerErrorException
@@ -398,11 +402,11 @@ export class UsersService {
       // If user is not found, throw an UnauthorizedException
       if (!user) throw new UnauthorizedException('Unauthorize');
 
-      // Return success message, status code, and current user data
+      // Return success message, status code, and current user data, without the password hash or the two-factor secret
       return {
         message: 'Get current user successfully',
         statusCode: HttpStatus.OK,
-        data: user,
+        data: { ...user, password: undefined, twoFactorSecret: undefined },
       };
     } catch (error) {
       // If UnauthorizedException is thrown, rethrow it